@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Headless Monte Carlo simulator for a table configuration
+ *
+ * Usage:
+ *   npm run simulate -- --rules h17-6d-das --hands 10000000 --strategy basic [--seed 42]
+ *
+ *   --rules     Rule spec, dash-separated (see parseRuleSpec in src/engine/simulation.ts).
+ *               Default: the engine's default table (6 decks, S17, DAS, 3:2)
+ *   --hands     Rounds to play, one flat unit bet each (default: 1000000)
+ *   --strategy  basic | mimicDealer | neverBust (default: basic)
+ *   --seed      Shuffle seed, for reproducible runs (default: current time)
+ *   --json      Print the raw result as JSON instead of the report
+ *
+ * The engine is TypeScript, so it is loaded through Vite's module runner.
+ */
+import { runnerImport } from 'vite';
+import { fileURLToPath } from 'url';
+import { join, dirname } from 'path';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ENGINE = join(__dirname, '..', 'src', 'engine', 'simulation.ts');
+
+const USAGE = 'Usage: npm run simulate -- [--rules h17-6d-das] [--hands 1000000] [--strategy basic] [--seed 42] [--json]';
+
+// ── Arguments ─────────────────────────────────────────────────────────────────
+
+function parseArgs(argv) {
+  const args = { rules: '', hands: 1000000, strategy: 'basic', seed: Date.now(), json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+
+    switch (flag) {
+      case '--rules':
+        args.rules = value ?? '';
+        i++;
+        break;
+      case '--hands':
+        args.hands = Number(value);
+        i++;
+        break;
+      case '--strategy':
+        args.strategy = value;
+        i++;
+        break;
+      case '--seed':
+        args.seed = Number(value);
+        i++;
+        break;
+      case '--json':
+        args.json = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}\n${USAGE}`);
+    }
+  }
+
+  if (!Number.isInteger(args.hands) || args.hands < 1) {
+    throw new Error('--hands must be a positive integer');
+  }
+  if (!Number.isFinite(args.seed)) {
+    throw new Error('--seed must be a number');
+  }
+
+  return args;
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const { module: engine } = await runnerImport(ENGINE, { logLevel: 'silent' });
+
+  if (!(args.strategy in engine.SIMULATION_STRATEGIES)) {
+    throw new Error(`Unknown strategy: ${args.strategy} (choose ${Object.keys(engine.SIMULATION_STRATEGIES).join(', ')})`);
+  }
+
+  const rules = engine.parseRuleSpec(args.rules);
+  const started = Date.now();
+
+  const result = engine.simulateRounds({
+    rules,
+    rounds: args.hands,
+    strategy: args.strategy,
+    seed: args.seed,
+    onProgress: args.json
+      ? undefined
+      : played => process.stderr.write(`\r${((played / args.hands) * 100).toFixed(0)}% `),
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify({ rules, strategy: args.strategy, seed: args.seed, ...result }, null, 2));
+    return;
+  }
+
+  process.stderr.write('\r');
+  console.log(`Rules     ${args.rules || 'default'} ${JSON.stringify(rules)}`);
+  console.log(`Strategy  ${args.strategy}, seed ${args.seed}`);
+  console.log('');
+  console.log(engine.formatSimulationReport(result));
+  console.log('');
+  console.log(`Finished in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -4,6 +4,8 @@ import { Table } from './components/game/Table';
 import { LandingPage } from './components/LandingPage';
 import { PlayerSelector } from './components/game/PlayerSelector';
 import DesignsPage from './pages/designs';
+import VerifyPage from './pages/verify';
+import DrillPage from './pages/drill';
 
 function App() {
   const [gameStarted, setGameStarted] = useState(false);
@@ -53,6 +55,34 @@ function App() {
     );
   }
 
+  if (currentPath === '/verify') {
+    return (
+      <div className="w-full">
+        <VerifyPage />
+        <button
+          onClick={() => navigateTo('/')}
+          className="fixed top-4 right-4 z-50 px-4 py-2 text-sm font-medium text-white bg-slate-700 border border-slate-600 rounded-lg hover:bg-slate-600 transition-colors duration-250"
+        >
+          ← Back to Game
+        </button>
+      </div>
+    );
+  }
+
+  if (currentPath === '/drill') {
+    return (
+      <div className="w-full">
+        <DrillPage />
+        <button
+          onClick={() => navigateTo('/')}
+          className="fixed top-4 right-4 z-50 px-4 py-2 text-sm font-medium text-white bg-slate-700 border border-slate-600 rounded-lg hover:bg-slate-600 transition-colors duration-250"
+        >
+          ← Back to Game
+        </button>
+      </div>
+    );
+  }
+
   if (!gameStarted) {
     return <LandingPage onEnter={handleStartGame} onNavigate={navigateTo} />;
   }
@@ -88,6 +88,18 @@ export const LandingPage = ({ onEnter, onNavigate }: LandingPageProps) => {
         >
           🎨 Design Kit
         </button>
+        <button
+          onClick={() => onNavigate?.('/verify')}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-emerald-300 border border-emerald-400/30 hover:border-emerald-400/70 hover:bg-emerald-400/10 transition-all duration-300"
+        >
+          🔍 Verify Shuffle
+        </button>
+        <button
+          onClick={() => onNavigate?.('/drill')}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-amber-300 border border-amber-400/30 hover:border-amber-400/70 hover:bg-amber-400/10 transition-all duration-300"
+        >
+          🃏 Count Drill
+        </button>
       </div>
 
       {/* Main Content Group - Grouped elements with controlled sizing */}
@@ -1,18 +1,45 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
-import { canSplit, canDouble } from '../../engine/hand';
+import { useCoachStore } from '../../store/coachStore';
+import { canHit, canSplit, canDouble, canSurrender, evaluateHand } from '../../engine/hand';
+import { isSwitchPending, switchSecondCards } from '../../engine/blackjackSwitch';
+import { isFreeDouble, isFreeSplit } from '../../engine/freeBet';
+import { getStrategyAction, hasStrategyModel, type StrategyAction } from '../../engine/strategy';
+import { gradeDecision } from '../../engine/coach';
+
+// Ring around the basic strategy play while the coach is on
+const recommendedRing = 'ring-2 ring-gold ring-offset-2 ring-offset-background';
 
 const btnBase =
   'px-7 md:px-10 py-3.5 rounded-[var(--r-lg)] font-display font-bold text-base md:text-lg tracking-wide transition-all duration-[var(--d-base)] shadow-button active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed';
 
 export function ActionButtons() {
-  const { phase, playerSeats, activeSeatId, balance, hit, stand, double, split, placeInsurance, declineInsurance } =
-    useGameStore();
+  const {
+    phase,
+    playerSeats,
+    activeSeatId,
+    dealerHand,
+    rules,
+    turnQueue,
+    currentTurnIndex,
+    hit,
+    stand,
+    double,
+    split,
+    surrender,
+    declineSurrender,
+    switchCards,
+    declineSwitch,
+    placeInsurance,
+    declineInsurance,
+  } = useGameStore();
+  const { enabled: coachEnabled, record } = useCoachStore();
 
   // ── Insurance phase ──────────────────────────────────────────────────────
   if (phase === 'insurance' && activeSeatId) {
-    const handBet = playerSeats[activeSeatId]?.hands[0]?.bet ?? 0;
+    const handBet = (playerSeats[activeSeatId]?.hands ?? []).reduce((sum, hand) => sum + hand.bet, 0);
     const insuranceCost = Math.floor(handBet / 2);
+    const seatBalance = playerSeats[activeSeatId]?.balance ?? 0;
 
     return (
       <AnimatePresence>
@@ -30,7 +57,7 @@ export function ActionButtons() {
           <div className="flex gap-3 justify-center flex-wrap">
             <motion.button
               onClick={() => placeInsurance(activeSeatId)}
-              disabled={balance < insuranceCost}
+              disabled={seatBalance < insuranceCost}
               whileHover={{ scale: 1.03 }}
               whileTap={{ scale: 0.97 }}
               className={`${btnBase} text-bg shadow-glow-brand`}
@@ -52,16 +79,133 @@ export function ActionButtons() {
     );
   }
 
+  // ── Early surrender phase ────────────────────────────────────────────────
+  if (phase === 'earlySurrender') {
+    const seatIds = Object.keys(playerSeats).filter(id => playerSeats[id].active);
+
+    return (
+      <AnimatePresence>
+        <motion.div
+          key="early-surrender"
+          initial={{ opacity: 0, y: -12 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -12 }}
+          className="flex flex-col items-center gap-3"
+        >
+          <div className="text-center">
+            <p className="text-sm font-mono text-[var(--text-muted)] mb-0.5 uppercase tracking-widest">Early surrender</p>
+            <p className="text-xs text-[var(--text-subtle)]">Give up half your bet before the dealer checks for Blackjack</p>
+          </div>
+          <div className="flex gap-3 justify-center flex-wrap">
+            {seatIds.map(seatId => {
+              const hand = playerSeats[seatId].hands[0];
+              const surrendered = hand.status === 'surrendered';
+
+              return (
+                <motion.button
+                  key={seatId}
+                  onClick={() => surrender(seatId)}
+                  disabled={!canSurrender(hand, playerSeats[seatId].hands.length, rules)}
+                  whileHover={{ scale: 1.03 }}
+                  whileTap={{ scale: 0.97 }}
+                  className={`${btnBase} border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text)] hover:border-[var(--border-bright)] bg-[var(--bg-elevated)]`}
+                >
+                  {surrendered ? `${seatId} surrendered` : `Surrender ${seatId}`}
+                </motion.button>
+              );
+            })}
+            <motion.button
+              onClick={declineSurrender}
+              whileHover={{ scale: 1.03 }}
+              whileTap={{ scale: 0.97 }}
+              className={`${btnBase} text-bg shadow-glow-brand`}
+              style={{ background: 'linear-gradient(135deg, var(--brand-light) 0%, var(--brand) 60%, var(--brand-dark) 100%)' }}
+            >
+              Continue
+            </motion.button>
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    );
+  }
+
   if (phase !== 'playerTurns' || !activeSeatId) return null;
 
   const seat = playerSeats[activeSeatId];
+
+  // ── Blackjack Switch decision ────────────────────────────────────────────
+  if (seat && isSwitchPending({ phase, turnQueue, currentTurnIndex })) {
+    const totals = (hands: typeof seat.hands) => hands.map(hand => evaluateHand(hand.cards).value).join(' & ');
+
+    return (
+      <AnimatePresence>
+        <motion.div
+          key="switch"
+          initial={{ opacity: 0, y: -12 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -12 }}
+          className="flex flex-col items-center gap-3"
+        >
+          <div className="text-center">
+            <p className="text-sm font-mono text-[var(--text-muted)] mb-0.5 uppercase tracking-widest">Switch the second cards?</p>
+            <p className="text-xs text-[var(--text-subtle)]">
+              {totals(seat.hands)} becomes {totals(switchSecondCards(seat.hands))}
+            </p>
+          </div>
+          <div className="flex gap-3 justify-center flex-wrap">
+            <motion.button
+              onClick={switchCards}
+              whileHover={{ scale: 1.03 }}
+              whileTap={{ scale: 0.97 }}
+              className={`${btnBase} text-bg shadow-glow-brand`}
+              style={{ background: 'linear-gradient(135deg, var(--brand-light) 0%, var(--brand) 60%, var(--brand-dark) 100%)' }}
+            >
+              Switch
+            </motion.button>
+            <motion.button
+              onClick={declineSwitch}
+              whileHover={{ scale: 1.03 }}
+              whileTap={{ scale: 0.97 }}
+              className={`${btnBase} border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text)] hover:border-[var(--border-bright)] bg-[var(--bg-elevated)]`}
+            >
+              Keep
+            </motion.button>
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    );
+  }
+
   const currentHand = seat?.hands[seat.currentHandIndex];
   if (!currentHand || currentHand.status !== 'playing') return null;
 
-  const canSplitHand = canSplit(currentHand);
-  const canDoubleHand = canDouble(currentHand);
-  const canDoubleBalance = balance >= currentHand.bet;
-  const canSplitBalance = balance >= currentHand.bet;
+  const canHitHand = canHit(currentHand);
+  const canSplitHand = canSplit(currentHand, seat.hands.length, rules);
+  const canDoubleHand = canDouble(currentHand, rules);
+  const canSurrenderHand = canSurrender(currentHand, seat.hands.length, rules);
+  // Doubles and splits are staked from the active seat's own bankroll, unless the house stakes them (Free Bet Blackjack)
+  const isFreeDoubleHand = isFreeDouble(currentHand, rules);
+  const isFreeSplitHand = isFreeSplit(currentHand, rules);
+  const canDoubleBalance = isFreeDoubleHand || seat.balance >= currentHand.bet;
+  const canSplitBalance = isFreeSplitHand || seat.balance >= currentHand.bet;
+
+  // Coach: grade each decision against the plays actually open to this hand.
+  // Variants basic strategy does not model, and a double waiting on a re-double or rescue, go ungraded
+  const upCard = currentHand.isDouble || !hasStrategyModel(rules) ? undefined : dealerHand[0];
+  const available = {
+    canDouble: canDoubleHand && canDoubleBalance,
+    canSplit: canSplitHand && canSplitBalance,
+    canSurrender: canSurrenderHand,
+  };
+  const recommended = coachEnabled && upCard ? getStrategyAction(currentHand, upCard, rules, available) : null;
+  const ringFor = (action: StrategyAction) => (recommended === action ? recommendedRing : '');
+
+  const play = (action: StrategyAction, perform: () => void) => () => {
+    if (coachEnabled && upCard) {
+      record(gradeDecision(currentHand, upCard, action, rules, available));
+    }
+    perform();
+  };
 
   return (
     <AnimatePresence>
@@ -73,22 +217,24 @@ export function ActionButtons() {
         className="flex flex-wrap gap-2.5 justify-center"
       >
         {/* HIT */}
-        <motion.button
-          onClick={hit}
-          whileHover={{ scale: 1.04 }}
-          whileTap={{ scale: 0.96 }}
-          className={`${btnBase} text-white shadow-glow-win`}
-          style={{ background: 'linear-gradient(135deg, var(--win) 0%, var(--win-dark) 100%)' }}
-        >
-          Hit
-        </motion.button>
+        {canHitHand && (
+          <motion.button
+            onClick={play('hit', hit)}
+            whileHover={{ scale: 1.04 }}
+            whileTap={{ scale: 0.96 }}
+            className={`${btnBase} text-white shadow-glow-win ${ringFor('hit')}`}
+            style={{ background: 'linear-gradient(135deg, var(--win) 0%, var(--win-dark) 100%)' }}
+          >
+            Hit
+          </motion.button>
+        )}
 
         {/* STAND */}
         <motion.button
-          onClick={stand}
+          onClick={play('stand', stand)}
           whileHover={{ scale: 1.04 }}
           whileTap={{ scale: 0.96 }}
-          className={`${btnBase} text-white`}
+          className={`${btnBase} text-white ${ringFor('stand')}`}
           style={{ background: 'linear-gradient(135deg, var(--loss) 0%, var(--loss-dark) 100%)' }}
         >
           Stand
@@ -97,32 +243,46 @@ export function ActionButtons() {
         {/* DOUBLE */}
         {canDoubleHand && (
           <motion.button
-            onClick={double}
+            onClick={play('double', double)}
             disabled={!canDoubleBalance}
             initial={{ opacity: 0, scale: 0.85 }}
             animate={{ opacity: 1, scale: 1 }}
             whileHover={{ scale: 1.04 }}
             whileTap={{ scale: 0.96 }}
-            className={`${btnBase} text-bg shadow-glow-brand`}
+            className={`${btnBase} text-bg shadow-glow-brand ${ringFor('double')}`}
             style={{ background: 'linear-gradient(135deg, var(--brand-light) 0%, var(--brand) 60%, var(--brand-dark) 100%)' }}
           >
-            Double
+            {currentHand.isDouble ? 'Re-double' : isFreeDoubleHand ? 'Free Double' : 'Double'}
           </motion.button>
         )}
 
         {/* SPLIT */}
         {canSplitHand && (
           <motion.button
-            onClick={split}
+            onClick={play('split', split)}
             disabled={!canSplitBalance}
             initial={{ opacity: 0, scale: 0.85 }}
             animate={{ opacity: 1, scale: 1 }}
             whileHover={{ scale: 1.04 }}
             whileTap={{ scale: 0.96 }}
-            className={`${btnBase} text-white`}
+            className={`${btnBase} text-white ${ringFor('split')}`}
             style={{ background: 'linear-gradient(135deg, var(--primary) 0%, var(--primary-dark) 100%)' }}
           >
-            Split
+            {isFreeSplitHand ? 'Free Split' : 'Split'}
+          </motion.button>
+        )}
+
+        {/* SURRENDER */}
+        {canSurrenderHand && (
+          <motion.button
+            onClick={play('surrender', () => surrender())}
+            initial={{ opacity: 0, scale: 0.85 }}
+            animate={{ opacity: 1, scale: 1 }}
+            whileHover={{ scale: 1.04 }}
+            whileTap={{ scale: 0.96 }}
+            className={`${btnBase} ${ringFor('surrender')} border border-[var(--border)] text-[var(--text-muted)] hover:text-[var(--text)] hover:border-[var(--border-bright)] bg-[var(--bg-elevated)]`}
+          >
+            {currentHand.isDouble ? 'Rescue' : 'Surrender'}
           </motion.button>
         )}
       </motion.div>
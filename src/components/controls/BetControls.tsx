@@ -2,39 +2,58 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
 import { Chip } from '../ui/Chip';
+import { getSideBetDefinitions, isSideBetOffered } from '../../engine/sideBets';
+import { getOpeningHandCount } from '../../engine/rules';
 
 const CHIP_VALUES = [1, 5, 10, 25, 50, 100] as const;
 
 export function BetControls() {
-  const { phase, balance, placeBet, lockBets, playerSeats, numPlayers } = useGameStore();
+  const { phase, placeBet, lockBets, playerSeats, numPlayers, rules } = useGameStore();
   const [selectedChip, setSelectedChip] = useState<number>(25);
   const [currentBet, setCurrentBet] = useState(0);
+  const [sideBets, setSideBets] = useState<Record<string, number>>({});
 
-  if (phase === 'dealing' || phase === 'playerTurns' || phase === 'dealerTurn' || phase === 'complete' || phase === 'settlement') {
+  if (phase === 'bettingLocked' || phase === 'dealing' || phase === 'playerTurns' || phase === 'dealerTurn' || phase === 'complete' || phase === 'settlement') {
     return null;
   }
 
   // Determine which seat needs a bet next (for multiplayer)
   const seatIds = ['seat1', 'seat2', 'seat3', 'seat4', 'seat5'].slice(0, numPlayers);
   const currentSeatId = seatIds.find(id => !playerSeats[id]?.hands[0]?.bet || playerSeats[id].hands[0].bet === 0) || 'seat1';
+  // Each seat bets from its own bankroll
+  const balance = playerSeats[currentSeatId]?.balance ?? 0;
 
-  const canAdd = balance >= selectedChip && currentBet + selectedChip <= balance;
+  // Blackjack Switch stakes the bet once per hand
+  const handCount = getOpeningHandCount(rules);
+  const sideBetTotal = Object.values(sideBets).reduce((sum, amount) => sum + amount, 0);
+  const stake = currentBet * handCount + sideBetTotal;
+  const canAddBet = stake + selectedChip * handCount <= balance;
+  const canAddSideBet = stake + selectedChip <= balance;
 
   const handleAddChip = () => {
-    if (canAdd) setCurrentBet(prev => prev + selectedChip);
+    if (canAddBet) setCurrentBet(prev => prev + selectedChip);
   };
 
   const handleDouble = () => {
     const doubled = currentBet * 2;
-    if (doubled <= balance) setCurrentBet(doubled);
+    if (doubled * handCount + sideBetTotal <= balance) setCurrentBet(doubled);
   };
 
-  const handleClear = () => setCurrentBet(0);
+  // Side bets are staked with the selected chip, one chip per click
+  const handleAddSideBet = (type: string) => {
+    if (canAddSideBet) setSideBets(prev => ({ ...prev, [type]: (prev[type] ?? 0) + selectedChip }));
+  };
+
+  const handleClear = () => {
+    setCurrentBet(0);
+    setSideBets({});
+  };
 
   const handlePlaceBet = () => {
-    if (currentBet > 0 && currentBet <= balance) {
-      placeBet(currentSeatId, currentBet);
+    if (currentBet > 0 && stake <= balance) {
+      placeBet(currentSeatId, currentBet, sideBets);
       setCurrentBet(0);
+      setSideBets({});
     }
   };
 
@@ -47,7 +66,7 @@ export function BetControls() {
       {/* ── Current seat indicator (multiplayer) ── */}
       {numPlayers > 1 && phase === 'bettingOpen' && (
         <div className="text-xs font-mono text-text-muted uppercase tracking-widest">
-          Betting for: <span className="text-brand font-bold">{currentSeatId.toUpperCase()}</span>
+          Betting for: <span className="text-brand font-bold">{currentSeatId.toUpperCase()}</span> · ${balance.toLocaleString()}
         </div>
       )}
 
@@ -67,7 +86,7 @@ export function BetControls() {
       {/* ── Bet display + quick actions ── */}
       <div className="flex items-center gap-3 w-full justify-center">
         <AnimatePresence>
-          {currentBet > 0 && (
+          {(currentBet > 0 || sideBetTotal > 0) && (
             <>
               <motion.button
                 key="clear"
@@ -87,7 +106,7 @@ export function BetControls() {
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.8 }}
                 onClick={handleDouble}
-                disabled={currentBet * 2 > balance}
+                disabled={currentBet * 2 * handCount + sideBetTotal > balance}
                 whileTap={{ scale: 0.93 }}
                 className="px-4 py-2 rounded-[var(--r-lg)] text-sm font-semibold text-[var(--brand)] border border-[color:var(--brand)] hover:bg-[color:var(--brand)] hover:bg-opacity-8 transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed"
               >
@@ -105,7 +124,9 @@ export function BetControls() {
             animate={{ scale: 1, opacity: 1 }}
             className="flex flex-col items-center min-w-[80px]"
           >
-            <span className="text-2xs font-mono text-[var(--text-muted)] uppercase tracking-widest leading-none">Bet</span>
+            <span className="text-2xs font-mono text-[var(--text-muted)] uppercase tracking-widest leading-none">
+              {handCount > 1 ? `Bet × ${handCount} hands` : 'Bet'}
+            </span>
             <span className={`font-display font-bold text-2xl leading-tight tabular-nums ${
               currentBet > 0 ? 'text-[var(--brand)]' : 'text-[var(--text-muted)]'
             }`}
@@ -118,15 +139,36 @@ export function BetControls() {
         {/* Add chip button */}
         <motion.button
           onClick={handleAddChip}
-          disabled={!canAdd}
-          whileHover={canAdd ? { scale: 1.04 } : {}}
-          whileTap={canAdd ? { scale: 0.95 } : {}}
+          disabled={!canAddBet}
+          whileHover={canAddBet ? { scale: 1.04 } : {}}
+          whileTap={canAddBet ? { scale: 0.95 } : {}}
           className="px-5 py-2.5 rounded-[var(--r-lg)] text-sm font-bold bg-[var(--bg-elevated)] hover:bg-[var(--bg-panel)] border border-[var(--border)] hover:border-[var(--border-bright)] text-[var(--text)] transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed"
         >
           +${selectedChip}
         </motion.button>
       </div>
 
+      {/* ── Side bets ── */}
+      {currentBet > 0 && phase === 'idle' && (
+        <div className="flex flex-wrap gap-2 justify-center">
+          {getSideBetDefinitions().filter(definition => isSideBetOffered(definition, rules)).map(definition => (
+            <button
+              key={definition.type}
+              onClick={() => handleAddSideBet(definition.type)}
+              disabled={!canAddSideBet}
+              title={definition.description}
+              className={`px-3 py-1.5 rounded-[var(--r-lg)] text-xs font-mono border transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed ${
+                sideBets[definition.type]
+                  ? 'text-[var(--brand)] border-[color:var(--brand)]'
+                  : 'text-[var(--text-muted)] border-[var(--border)] hover:text-[var(--text)] hover:border-[var(--border-bright)]'
+              }`}
+            >
+              {definition.name}{sideBets[definition.type] ? ` $${sideBets[definition.type]}` : ''}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* ── Primary CTA ── */}
       <AnimatePresence mode="wait">
         {currentBet > 0 && phase === 'idle' && (
@@ -141,7 +183,7 @@ export function BetControls() {
             className="w-full py-3.5 rounded-[var(--r-lg)] font-display font-bold text-lg text-white transition-all duration-[var(--d-base)] shadow-glow-win"
             style={{ background: 'linear-gradient(135deg, var(--win) 0%, var(--win-dark) 100%)' }}
           >
-            Confirm Bet — ${currentBet}
+            Confirm Bet — ${stake}
           </motion.button>
         )}
 
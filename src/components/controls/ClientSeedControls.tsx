@@ -0,0 +1,71 @@
+import { useState, type FormEvent } from 'react';
+import { useGameStore } from '../../store/gameStore';
+import { exportRoundProof } from '../../engine/roundProof';
+
+export function ClientSeedControls() {
+  const { clientSeed, nonce, shoe, roundProofs, setClientSeed } = useGameStore();
+  const lastRound = roundProofs[roundProofs.length - 1];
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (draft.trim().length === 0) return;
+    setClientSeed(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-2 text-[10px] font-mono text-[var(--text-muted)]">
+      <div className="flex flex-col gap-0.5 break-all">
+        <span>
+          {shoe.proof ? `Shoe #${shoe.shuffleCount} seed hash: ${shoe.proof.seedHash}` : 'Shuffling new shoe...'}
+        </span>
+        <span>
+          Client seed: <span className="text-[var(--text)]">{clientSeed}</span>
+          {shoe.proof?.nonce !== undefined && ` · shoe nonce ${shoe.proof.nonce}`} · next nonce {nonce}
+        </span>
+      </div>
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          maxLength={64}
+          placeholder="Enter your own client seed"
+          aria-label="Client seed"
+          className="flex-1 px-2 py-1 rounded-[var(--r-lg)] bg-[var(--bg-elevated)] border border-[var(--border)] text-[var(--text)] focus:outline-none focus:border-[var(--border-bright)]"
+        />
+        <button
+          type="submit"
+          disabled={draft.trim().length === 0}
+          className="px-2 py-1 rounded-[var(--r-lg)] border border-[var(--border)] hover:border-[var(--border-bright)] text-[var(--text)] transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Set
+        </button>
+        <button
+          type="button"
+          onClick={() => setClientSeed()}
+          className="px-2 py-1 rounded-[var(--r-lg)] border border-[var(--border)] hover:border-[var(--border-bright)] text-[var(--text)] transition-all duration-[var(--d-base)]"
+        >
+          Rotate
+        </button>
+      </form>
+      {lastRound && (
+        <div className="flex items-center gap-2">
+          <span>
+            Round {lastRound.round} proof {lastRound.seed ? '(seed revealed)' : '(seed revealed when the shoe ends)'}
+          </span>
+          <button
+            type="button"
+            onClick={() => navigator.clipboard?.writeText(exportRoundProof(lastRound))}
+            className="underline hover:text-[var(--text)]"
+          >
+            Copy JSON
+          </button>
+          <a href="/verify" target="_blank" rel="noreferrer" className="underline hover:text-[var(--text)]">
+            Verify →
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
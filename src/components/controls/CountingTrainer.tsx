@@ -0,0 +1,133 @@
+import { useState, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useGameStore } from '../../store/gameStore';
+import { useCountingStore } from '../../store/countingStore';
+import { COUNT_SYSTEMS, getCountSnapshot, gradeCountAnswer, type CountSystemId } from '../../engine/counting';
+
+const inputClass =
+  'w-20 px-2 py-1 rounded-lg bg-background-elevated border border-border text-text text-center tabular-nums focus:outline-none focus:border-border-bright';
+
+const formatCount = (count: number) => (Number.isInteger(count) ? String(count) : count.toFixed(1));
+
+export function CountingTrainer() {
+  const game = useGameStore();
+  const { enabled, systemId, checkEvery, lastCheckedRound, session, setEnabled, setSystem, setCheckEvery, record, resetSession } =
+    useCountingStore();
+  const [runningAnswer, setRunningAnswer] = useState('');
+  const [trueAnswer, setTrueAnswer] = useState('');
+
+  const round = game.history[game.history.length - 1]?.round ?? 0;
+  const isChecking =
+    enabled && game.phase === 'complete' && round > lastCheckedRound && round % checkEvery === 0;
+  const last = session.lastCheck;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const answer = { runningCount: Number(runningAnswer), trueCount: Number(trueAnswer) };
+    if (!Number.isFinite(answer.runningCount) || !Number.isFinite(answer.trueCount) || runningAnswer === '' || trueAnswer === '') {
+      return;
+    }
+
+    record(round, gradeCountAnswer(answer, getCountSnapshot(game, systemId)));
+    setRunningAnswer('');
+    setTrueAnswer('');
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5 text-xs font-mono">
+      <div className="flex items-center justify-center gap-3 flex-wrap text-text-muted">
+        <button
+          onClick={() => setEnabled(!enabled)}
+          className={`px-2.5 py-1 rounded-lg border transition-all ${
+            enabled ? 'border-gold/60 text-gold' : 'border-border hover:border-border-bright hover:text-text'
+          }`}
+        >
+          Count trainer {enabled ? 'on' : 'off'}
+        </button>
+
+        {enabled && (
+          <>
+            <select
+              value={systemId}
+              onChange={e => setSystem(e.target.value as CountSystemId)}
+              className="px-2 py-1 rounded-lg bg-background-elevated border border-border text-text"
+            >
+              {Object.values(COUNT_SYSTEMS).map(system => (
+                <option key={system.id} value={system.id}>{system.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5">
+              Check every
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={checkEvery}
+                onChange={e => setCheckEvery(Number(e.target.value))}
+                className="w-12 px-1.5 py-1 rounded-lg bg-background-elevated border border-border text-text text-center"
+              />
+              rounds
+            </label>
+            <span>
+              Running <span className="text-text-bright tabular-nums">{session.runningCorrect}/{session.checks}</span>
+              {' · '}
+              True <span className="text-text-bright tabular-nums">{session.trueCorrect}/{session.checks}</span>
+            </span>
+            <button
+              onClick={resetSession}
+              disabled={session.checks === 0}
+              className="hover:text-text disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+
+      <AnimatePresence mode="wait">
+        {isChecking ? (
+          <motion.form
+            key="check"
+            onSubmit={handleSubmit}
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="flex items-center justify-center gap-3 flex-wrap text-text-muted"
+          >
+            <span className="text-gold uppercase tracking-widest">Count check</span>
+            <label className="flex items-center gap-1.5">
+              Running
+              <input type="number" value={runningAnswer} onChange={e => setRunningAnswer(e.target.value)} className={inputClass} autoFocus />
+            </label>
+            <label className="flex items-center gap-1.5">
+              True
+              <input type="number" step={0.5} value={trueAnswer} onChange={e => setTrueAnswer(e.target.value)} className={inputClass} />
+            </label>
+            <button type="submit" className="px-2.5 py-1 rounded-lg border border-border text-text hover:border-border-bright">
+              Check
+            </button>
+            <button type="button" onClick={() => record(round, null)} className="hover:text-text">
+              Skip
+            </button>
+          </motion.form>
+        ) : (
+          enabled && last && (
+            <motion.p
+              key={session.checks}
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+              className="text-center text-text-muted"
+            >
+              Running count was{' '}
+              <span className={last.runningCorrect ? 'text-win' : 'text-loss'}>{formatCount(last.actual.runningCount)}</span>
+              {' · '}true count{' '}
+              <span className={last.trueCorrect ? 'text-win' : 'text-loss'}>{formatCount(last.actual.trueCount)}</span>
+              {' '}({last.actual.decksRemaining.toFixed(1)} decks left)
+            </motion.p>
+          )
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
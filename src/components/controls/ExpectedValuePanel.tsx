@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useGameStore } from '../../store/gameStore';
+import { getUnseenCards } from '../../engine/expectedValue';
+import type { ExpectedValueRequest } from '../../engine/expectedValue.worker';
+import { getAvailableActions, hasStrategyModel, type StrategyAction } from '../../engine/strategy';
+import { isSwitchPending } from '../../engine/blackjackSwitch';
+
+const actionLabel: Record<StrategyAction, string> = {
+  hit: 'Hit',
+  stand: 'Stand',
+  double: 'Double',
+  split: 'Split',
+  surrender: 'Surrender',
+};
+
+const formatEv = (ev: number, digits: number) => `${ev >= 0 ? '+' : '−'}${Math.abs(ev).toFixed(digits)}`;
+
+interface EvResult {
+  unseenCount: number;
+  rows: Array<[StrategyAction, number]>;
+}
+
+export function ExpectedValuePanel() {
+  const { phase, playerSeats, activeSeatId, dealerHand, deck, rules, turnQueue, currentTurnIndex } = useGameStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [result, setResult] = useState<EvResult | null>(null);
+
+  const seat = activeSeatId ? playerSeats[activeSeatId] : undefined;
+  const hand = seat?.hands[seat.currentHandIndex];
+  const upCard = dealerHand[0];
+  // Unmodeled variants, a Spanish 21 double waiting on a re-double or rescue, and a Switch decision are outside the evaluator
+  const isDeciding =
+    hasStrategyModel(rules) &&
+    phase === 'playerTurns' &&
+    !!hand &&
+    hand.status === 'playing' &&
+    !hand.isDouble &&
+    !isSwitchPending({ phase, turnQueue, currentTurnIndex }) &&
+    !!upCard;
+
+  // Values depend only on the hand, the upcard and what is left in the shoe. The recursion can
+  // take seconds on a full eight-deck shoe, so it runs in a worker and a stale one is dropped
+  useEffect(() => {
+    setResult(null);
+    if (!isOpen || !isDeciding || !seat || !hand) return;
+
+    const allowed = getAvailableActions(hand, rules, seat.hands.length);
+    const available = {
+      canDouble: allowed.canDouble && seat.balance >= hand.bet,
+      canSplit: allowed.canSplit && seat.balance >= hand.bet,
+      canSurrender: allowed.canSurrender,
+    };
+    const unseen = getUnseenCards({ deck, dealerHand });
+
+    const worker = new Worker(new URL('../../engine/expectedValue.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<Partial<Record<StrategyAction, number>>>) => {
+      setResult({
+        unseenCount: unseen.length,
+        rows: (Object.entries(event.data) as Array<[StrategyAction, number]>).sort((a, b) => b[1] - a[1]),
+      });
+      worker.terminate();
+    };
+    const request: ExpectedValueRequest = { hand, upCard, unseen, rules, available };
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [isOpen, isDeciding, seat, hand, upCard, deck, dealerHand, rules]);
+
+  if (!isDeciding || !hand) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 text-xs font-mono">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-text-muted hover:text-text transition-colors"
+      >
+        Expected value {isOpen ? '▴' : '▾'}
+      </button>
+
+      {isOpen && !result && <p className="text-2xs text-text-subtle">Calculating…</p>}
+
+      <AnimatePresence>
+        {isOpen && result && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="w-full max-w-sm overflow-hidden rounded-lg border border-border bg-background-elevated/60"
+          >
+            <table className="w-full text-2xs">
+              <thead className="text-text-muted">
+                <tr>
+                  <th className="text-left font-normal px-2 py-1">Action</th>
+                  <th className="text-right font-normal px-2 py-1">EV / bet</th>
+                  <th className="text-right font-normal px-2 py-1">EV ${hand.bet}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map(([action, ev], index) => (
+                  <tr key={action} className={`border-t border-border/50 ${index === 0 ? 'text-gold' : 'text-text'}`}>
+                    <td className="px-2 py-1">{actionLabel[action]}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{formatEv(ev, 3)}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{formatEv(ev * hand.bet, 2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-2 py-1 text-2xs text-text-subtle border-t border-border/50">
+              Exact for the {result.unseenCount} unseen cards
+              {result.rows.some(([action]) => action === 'split') && '; split is approximate (no re-splits)'}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
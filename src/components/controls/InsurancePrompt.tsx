@@ -2,12 +2,13 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
 
 export function InsurancePrompt() {
-  const { phase, activeSeatId, playerSeats, balance, placeInsurance, declineInsurance } = useGameStore();
+  const { phase, activeSeatId, playerSeats, placeInsurance, declineInsurance } = useGameStore();
 
   if (phase !== 'insurance' || !activeSeatId) return null;
 
-  const handBet = playerSeats[activeSeatId]?.hands[0]?.bet ?? 0;
+  const handBet = (playerSeats[activeSeatId]?.hands ?? []).reduce((sum, hand) => sum + hand.bet, 0);
   const insuranceCost = Math.floor(handBet / 2);
+  const seatBalance = playerSeats[activeSeatId]?.balance ?? 0;
 
   return (
     <AnimatePresence>
@@ -40,7 +41,7 @@ export function InsurancePrompt() {
           <div className="flex flex-col gap-3">
             <motion.button
               onClick={() => placeInsurance(activeSeatId)}
-              disabled={balance < insuranceCost}
+              disabled={seatBalance < insuranceCost}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.97 }}
               className="w-full py-3.5 rounded-xl font-display font-bold text-lg text-background shadow-glow-brand disabled:opacity-40 disabled:cursor-not-allowed transition-all"
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useCoachStore } from '../../store/coachStore';
+import { useGameStore } from '../../store/gameStore';
+import { getCoachAccuracy, type CoachDecision } from '../../engine/coach';
+import { hasStrategyModel, type StrategyAction } from '../../engine/strategy';
+
+const actionLabel: Record<StrategyAction, string> = {
+  hit: 'Hit',
+  stand: 'Stand',
+  double: 'Double',
+  split: 'Split',
+  surrender: 'Surrender',
+};
+
+const handLabel = (decision: CoachDecision) =>
+  `${decision.cards.map(card => card.rank).join(',')} (${decision.soft ? 'soft ' : ''}${decision.total})`;
+
+const formatCost = (evCost: number) => `−${evCost.toFixed(3)}`;
+
+export function StrategyCoach() {
+  const { enabled, session, setEnabled, resetSession } = useCoachStore();
+  const [showMistakes, setShowMistakes] = useState(false);
+  const { rules } = useGameStore();
+
+  const accuracy = getCoachAccuracy(session);
+  const last = session.lastDecision;
+
+  if (!hasStrategyModel(rules)) {
+    return <p className="text-center text-xs font-mono text-text-subtle">No coach for this game: basic strategy covers classic rules only</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5 text-xs font-mono">
+      <div className="flex items-center justify-center gap-3 flex-wrap text-text-muted">
+        <button
+          onClick={() => setEnabled(!enabled)}
+          className={`px-2.5 py-1 rounded-lg border transition-all ${
+            enabled ? 'border-gold/60 text-gold' : 'border-border hover:border-border-bright hover:text-text'
+          }`}
+        >
+          Coach {enabled ? 'on' : 'off'}
+        </button>
+
+        {enabled && (
+          <>
+            <span>
+              Accuracy{' '}
+              <span className="text-text-bright tabular-nums">
+                {accuracy === null ? '—' : `${Math.round(accuracy * 100)}%`}
+              </span>{' '}
+              ({session.correct}/{session.decisions})
+            </span>
+            <span>
+              EV lost <span className="text-text-bright tabular-nums">{session.evLost.toFixed(3)}</span> bets
+            </span>
+            <button
+              onClick={() => setShowMistakes(!showMistakes)}
+              disabled={session.mistakes.length === 0}
+              className="hover:text-text disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Mistakes ({session.mistakes.length}) {showMistakes ? '▴' : '▾'}
+            </button>
+            <button
+              onClick={resetSession}
+              disabled={session.decisions === 0}
+              className="hover:text-text disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Feedback on the latest decision */}
+      <AnimatePresence mode="wait">
+        {enabled && last && (
+          <motion.p
+            key={session.decisions}
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className={`text-center ${last.chosen === last.correct ? 'text-win' : 'text-loss'}`}
+          >
+            {last.chosen === last.correct
+              ? `✓ ${actionLabel[last.chosen]} on ${handLabel(last)} vs ${last.upCard.rank} is basic strategy`
+              : `✗ ${actionLabel[last.chosen]} on ${handLabel(last)} vs ${last.upCard.rank}: basic strategy is ${actionLabel[last.correct]} (${formatCost(last.evCost)} EV)`}
+          </motion.p>
+        )}
+      </AnimatePresence>
+
+      {/* Session mistake list */}
+      {enabled && showMistakes && session.mistakes.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-lg border border-border bg-background-elevated/60">
+          <table className="w-full text-2xs">
+            <thead className="text-text-muted">
+              <tr>
+                <th className="text-left font-normal px-2 py-1">Hand</th>
+                <th className="text-left font-normal px-2 py-1">Dealer</th>
+                <th className="text-left font-normal px-2 py-1">Played</th>
+                <th className="text-left font-normal px-2 py-1">Correct</th>
+                <th className="text-right font-normal px-2 py-1">EV cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {session.mistakes.map((mistake, index) => (
+                <tr key={session.mistakes.length - index} className="border-t border-border/50">
+                  <td className="px-2 py-1 text-text">{handLabel(mistake)}</td>
+                  <td className="px-2 py-1 text-text">{mistake.upCard.rank}</td>
+                  <td className="px-2 py-1 text-loss">{actionLabel[mistake.chosen]}</td>
+                  <td className="px-2 py-1 text-win">{actionLabel[mistake.correct]}</td>
+                  <td className="px-2 py-1 text-right tabular-nums text-text-muted">{formatCost(mistake.evCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
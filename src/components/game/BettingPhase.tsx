@@ -1,6 +1,7 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
 import { BetControls } from '../controls/BetControls';
+import { ClientSeedControls } from '../controls/ClientSeedControls';
 
 export function BettingPhase() {
   const { playerSeats, numPlayers } = useGameStore();
@@ -25,6 +26,9 @@ export function BettingPhase() {
         </p>
       </div>
 
+      {/* Shoe commitment, published before bets lock, and the player's seed */}
+      <ClientSeedControls />
+
       {/* Betting Status Grid */}
       {numPlayers > 1 && (
         <div className={`grid ${
@@ -58,6 +62,9 @@ export function BettingPhase() {
                   <div className="text-xs text-text-muted mt-1">
                     {hasBet ? '✓ Ready' : 'Waiting...'}
                   </div>
+                  <div className="text-2xs font-mono text-text-muted mt-1 tabular-nums">
+                    Bankroll ${seat.balance.toLocaleString()}
+                  </div>
                 </motion.div>
               );
             })}
@@ -45,8 +45,7 @@ export function DealingPhase() {
       setTimeout(() => {
         setDealtCards(prev => new Set(prev).add(`${item.seatId}-${item.cardIndex}`));
 
-        // On final card, parent will handle phase transition via distributeCards()
-        // which is called after animation completes
+        // The store completes the deal once the animation has had time to finish
       }, index * CARD_DEAL_DELAY);
     });
   }, [phase, activeSeatIds]);
@@ -2,6 +2,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Card } from './Card';
 import type { Hand as HandType } from '../../types';
 import { evaluateHand } from '../../engine/hand';
+import { getFundedBet } from '../../engine/freeBet';
+import { FreeBetLammer } from '../ui/Chip';
 
 interface HandProps {
   hand: HandType;
@@ -12,19 +14,22 @@ interface HandProps {
 }
 
 export function Hand({ hand, label, showValue = true, isActive = false, compact = false }: HandProps) {
-  const value = evaluateHand(hand.cards);
+  // Only count what the table can see; a face-down hole card stays out of the total
+  const value = evaluateHand(hand.cards.filter(card => card.faceUp), hand.isSplit || !!hand.switched);
   const isEmpty = hand.cards.length === 0;
 
   const valueLabel = () => {
     if (isEmpty) return null;
     if (value.isBlackjack) return 'BJ';
     if (value.isBust) return 'BUST';
+    if (hand.status === 'surrendered') return 'SURR';
     return String(value.value);
   };
 
   const valueBadgeColor = () => {
     if (value.isBlackjack) return 'bg-brand text-background font-black';
     if (value.isBust) return 'bg-loss text-white font-bold';
+    if (hand.status === 'surrendered') return 'bg-background-elevated text-text-muted border border-border line-through';
     if (value.value === 21) return 'bg-win text-white font-bold';
     return 'bg-background-elevated text-text border border-border';
   };
@@ -87,7 +92,8 @@ export function Hand({ hand, label, showValue = true, isActive = false, compact
       {hand.bet > 0 && (
         <div className="flex items-center gap-1.5">
           <span className="text-xs text-text-muted">Bet</span>
-          <span className="text-sm font-bold font-mono text-brand">${hand.bet}</span>
+          <span className="text-sm font-bold font-mono text-brand">${getFundedBet(hand)}</span>
+          {!!hand.freeBet && <FreeBetLammer amount={hand.freeBet} />}
           {hand.isDouble && (
             <span className="text-2xs bg-brand/15 text-brand px-1.5 py-0.5 rounded font-bold tracking-wide">2×</span>
           )}
@@ -1,12 +1,14 @@
 import { motion } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
+import { RULE_PRESETS, describeTableRules, findRulePreset } from '../../engine/presets';
 
 interface PlayerSelectorProps {
   onConfirm: () => void;
 }
 
 export function PlayerSelector({ onConfirm }: PlayerSelectorProps) {
-  const { numPlayers, setNumPlayers } = useGameStore();
+  const { numPlayers, setNumPlayers, rules, applyPreset } = useGameStore();
+  const activePreset = findRulePreset(rules);
 
   const handleSelectPlayers = (count: number) => {
     setNumPlayers(count);
@@ -55,6 +57,31 @@ export function PlayerSelector({ onConfirm }: PlayerSelectorProps) {
         </p>
       </div>
 
+      {/* Rule Presets */}
+      <div className="w-full flex flex-col gap-2">
+        <p className="text-2xs font-mono text-text-muted uppercase tracking-widest text-center">Table Rules</p>
+        <div className="grid grid-cols-2 gap-2">
+          {Object.values(RULE_PRESETS).map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => applyPreset(preset.id)}
+              className={`flex flex-col items-start gap-0.5 px-3 py-2 rounded-xl border-2 text-left transition-all duration-250 ${
+                activePreset?.id === preset.id
+                  ? 'bg-brand/20 border-brand'
+                  : 'bg-bg-elevated border-border hover:border-brand/50'
+              }`}
+            >
+              <span className={`font-display font-bold text-sm ${activePreset?.id === preset.id ? 'text-brand' : 'text-text'}`}>
+                {preset.name}
+              </span>
+              <span className="text-2xs text-text-subtle">{preset.description}</span>
+              <span className="text-2xs font-mono text-text-muted">Est. house edge {(preset.houseEdge * 100).toFixed(2)}%</span>
+            </button>
+          ))}
+        </div>
+        <p className="text-2xs font-mono text-text-subtle text-center">{describeTableRules(rules)}</p>
+      </div>
+
       {/* Confirm Button */}
       <motion.button
         onClick={onConfirm}
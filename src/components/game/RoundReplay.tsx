@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Hand } from './Hand';
+import { useGameStore } from '../../store/gameStore';
+import { replayRound, describeRoundEvent } from '../../engine/history';
+import { describeDealerDecision } from '../../engine/dealer';
+import { getSideBetDefinition } from '../../engine/sideBets';
+
+interface RoundReplayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const stepButtonClass =
+  'px-3 py-1.5 rounded-[var(--r-lg)] text-xs font-mono border border-[var(--border)] hover:border-[var(--border-bright)] text-[var(--text)] transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed';
+
+export function RoundReplay({ isOpen, onClose }: RoundReplayProps) {
+  const { history } = useGameStore();
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+  const [step, setStep] = useState(0);
+
+  // Default to the latest round
+  const record = history.find(r => r.round === selectedRound) ?? history[history.length - 1];
+  const lastStep = record ? record.events.length : 0;
+  const frame = record ? replayRound(record, step) : null;
+  const atEnd = step >= lastStep;
+
+  const selectRound = (round: number) => {
+    setSelectedRound(round);
+    setStep(0);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.88, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.88, y: 20 }}
+            transition={{ type: 'spring', stiffness: 280, damping: 26 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none"
+          >
+            <div className="pointer-events-auto w-full max-w-4xl max-h-full overflow-y-auto">
+              <div className="glass rounded-3xl shadow-modal overflow-hidden">
+                {/* Header */}
+                <div className="relative px-6 pt-6 pb-4 border-b border-border">
+                  <button
+                    onClick={onClose}
+                    className="absolute top-5 right-5 w-8 h-8 flex items-center justify-center rounded-full text-text-muted hover:text-text hover:bg-background-elevated transition-all"
+                  >
+                    ✕
+                  </button>
+                  <h2 className="font-display font-bold text-xl text-text-bright">Round History</h2>
+                  <p className="text-text-muted text-sm">Step through any of the last {history.length} rounds hand by hand.</p>
+                </div>
+
+                {!record || !frame ? (
+                  <p className="p-6 text-sm text-text-muted">No rounds played yet.</p>
+                ) : (
+                  <div className="flex flex-col md:flex-row">
+                    {/* Round list */}
+                    <div className="md:w-44 shrink-0 max-h-96 overflow-y-auto border-b md:border-b-0 md:border-r border-border p-3 flex md:flex-col gap-1">
+                      {[...history].reverse().map(r => (
+                        <button
+                          key={r.round}
+                          onClick={() => selectRound(r.round)}
+                          className={`flex justify-between gap-3 px-3 py-1.5 rounded-lg text-xs font-mono text-left transition-all ${
+                            r.round === record.round ? 'bg-background-elevated text-brand' : 'text-text-muted hover:text-text'
+                          }`}
+                        >
+                          <span>#{r.round}</span>
+                          <span className={r.totalPayout > 0 ? 'text-win' : 'text-text-muted'}>${r.totalPayout}</span>
+                        </button>
+                      ))}
+                    </div>
+
+                    {/* Replay */}
+                    <div className="flex-1 flex flex-col gap-4 p-5">
+                      <div
+                        className="flex flex-col items-center gap-4 rounded-[2rem] p-5"
+                        style={{ background: 'radial-gradient(ellipse at 50% 35%, #0F5132 0%, #0A3D26 45%, #073520 100%)' }}
+                      >
+                        <Hand
+                          hand={{ cards: frame.dealerCards, bet: 0, status: 'playing', isDouble: false, isSplit: false }}
+                          label="Dealer"
+                          compact
+                        />
+                        {frame.dealerDecisions.length > 0 && (
+                          <span className="text-xs font-mono text-felt-glow/60">
+                            {describeDealerDecision(frame.dealerDecisions[frame.dealerDecisions.length - 1])}
+                          </span>
+                        )}
+                        <div className="flex flex-wrap justify-center gap-6">
+                          {Object.entries(frame.seats).map(([seatId, hands]) =>
+                            hands.map((hand, handIndex) => (
+                              <Hand
+                                key={`${seatId}-${handIndex}`}
+                                hand={hand}
+                                label={hands.length > 1 ? `${seatId} · ${handIndex + 1}` : seatId}
+                                compact
+                              />
+                            ))
+                          )}
+                        </div>
+                      </div>
+
+                      {/* Step controls */}
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => setStep(0)} disabled={step === 0} className={stepButtonClass}>⏮</button>
+                        <button onClick={() => setStep(step - 1)} disabled={step === 0} className={stepButtonClass}>◀</button>
+                        <button onClick={() => setStep(step + 1)} disabled={atEnd} className={stepButtonClass}>▶</button>
+                        <button onClick={() => setStep(lastStep)} disabled={atEnd} className={stepButtonClass}>⏭</button>
+                        <span className="text-xs font-mono text-text-muted">
+                          {step}/{lastStep} · {frame.event ? describeRoundEvent(frame.event) : 'Bets placed'}
+                        </span>
+                      </div>
+
+                      {/* Results */}
+                      {atEnd && (
+                        <div className="flex flex-col gap-1 text-xs font-mono text-text-muted">
+                          {record.results.map(result => (
+                            <div key={`${result.seatId}-${result.handIndex}`} className="flex justify-between">
+                              <span>
+                                {result.seatId} hand {result.handIndex + 1}: {result.outcome} (bet ${result.bet})
+                              </span>
+                              <span className={result.payout > 0 ? 'text-win' : ''}>${result.payout}</span>
+                            </div>
+                          ))}
+                          {record.results.flatMap(result =>
+                            (result.sideBets ?? []).map(sideBet => (
+                              <div key={`${result.seatId}-${result.handIndex}-${sideBet.type}`} className="flex justify-between">
+                                <span>
+                                  {result.seatId} {getSideBetDefinition(sideBet.type)?.name ?? sideBet.type}: {sideBet.outcome ?? 'no win'} (bet ${sideBet.amount})
+                                </span>
+                                <span className={sideBet.result === 'win' ? 'text-win' : ''}>
+                                  ${sideBet.result === 'win' ? sideBet.amount + (sideBet.payout ?? 0) : 0}
+                                </span>
+                              </div>
+                            ))
+                          )}
+                          {record.insurancePayout > 0 && (
+                            <div className="flex justify-between">
+                              <span>Insurance</span>
+                              <span className="text-win">${record.insurancePayout}</span>
+                            </div>
+                          )}
+                          {record.proof && (
+                            <span className="break-all">
+                              Shoe #{record.proof.shoeNumber} seed hash {record.proof.seedHash.slice(0, 16)}…
+                              {record.proof.seed ? ' (seed revealed)' : ''}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
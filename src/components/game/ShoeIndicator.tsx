@@ -0,0 +1,40 @@
+import { motion } from 'framer-motion';
+import { useGameStore } from '../../store/gameStore';
+import { getShoePenetration } from '../../engine/shoe';
+
+export function ShoeIndicator() {
+  const { deck, shoe } = useGameStore();
+  const dealt = getShoePenetration(deck, shoe);
+  const cutCardAt = shoe.size > 0 ? (shoe.size - shoe.cutCardPosition) / shoe.size : 0;
+
+  return (
+    <div className="flex flex-col items-end gap-1 text-[10px] font-mono text-felt-glow/60">
+      <div className="flex items-center gap-2">
+        <span>Shoe {deck.length}/{shoe.size}</span>
+        <span>Discards {shoe.discardTray.length}</span>
+      </div>
+      {/* Dealt fraction with the cut card marked */}
+      <div className="relative w-24 h-1.5 rounded-full bg-black/30 overflow-hidden">
+        <motion.div
+          className="absolute inset-y-0 left-0 bg-gold/50"
+          animate={{ width: `${dealt * 100}%` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-loss" style={{ left: `${cutCardAt * 100}%` }} />
+      </div>
+      {shoe.proof && (
+        <span title={`SHA-256 commitment: ${shoe.proof.seedHash}`}>
+          Seed hash {shoe.proof.seedHash.slice(0, 10)}…
+        </span>
+      )}
+      {shoe.cutCardReached && (
+        <motion.span
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="px-1.5 py-0.5 rounded bg-loss/80 text-white font-bold tracking-wider uppercase"
+        >
+          Cut card
+        </motion.span>
+      )}
+    </div>
+  );
+}
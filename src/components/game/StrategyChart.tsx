@@ -0,0 +1,77 @@
+import { getStrategyChart, DEALER_UPCARDS, type ChartCode, type StrategyChartRow } from '../../engine/strategy';
+import type { TableRules } from '../../types';
+
+interface StrategyChartProps {
+  rules: TableRules;
+}
+
+const codeClass: Record<ChartCode, string> = {
+  H: 'bg-loss-muted text-loss-glow',
+  S: 'bg-win-muted text-win-glow',
+  D: 'bg-primary-dark/40 text-primary-light',
+  Ds: 'bg-primary-dark/40 text-primary-light',
+  P: 'bg-push-muted text-brand-light',
+  R: 'bg-background-elevated text-text',
+  Rs: 'bg-background-elevated text-text',
+};
+
+const legend: Array<[ChartCode, string]> = [
+  ['H', 'Hit'],
+  ['S', 'Stand'],
+  ['D', 'Double, else hit'],
+  ['Ds', 'Double, else stand'],
+  ['P', 'Split'],
+  ['R', 'Surrender, else hit'],
+  ['Rs', 'Surrender, else stand'],
+];
+
+export function StrategyChart({ rules }: StrategyChartProps) {
+  const chart = getStrategyChart(rules);
+
+  const section = (title: string, rows: StrategyChartRow[]) => (
+    <div className="flex flex-col gap-1">
+      <h3 className="text-2xs font-mono text-text-muted uppercase tracking-widest">{title}</h3>
+      <table className="w-full border-separate border-spacing-0.5 text-2xs font-mono">
+        <thead>
+          <tr>
+            <th className="w-12 text-left text-text-muted font-normal">You</th>
+            {DEALER_UPCARDS.map(rank => (
+              <th key={rank} className="text-text-muted font-normal">{rank}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className="text-text-muted">{row.label}</td>
+              {row.codes.map((code, column) => (
+                <td key={column} className={`text-center rounded py-0.5 ${codeClass[code]}`}>
+                  {code}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid gap-4 lg:grid-cols-3">
+        {section('Hard totals', chart.hard)}
+        {section('Soft totals', chart.soft)}
+        {section('Pairs', chart.pairs)}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-2xs font-mono text-text-muted">
+        {legend.map(([code, label]) => (
+          <span key={code} className="flex items-center gap-1.5">
+            <span className={`px-1.5 rounded ${codeClass[code]}`}>{code}</span>
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { StrategyChart } from './StrategyChart';
+import { useGameStore } from '../../store/gameStore';
+import { describeTableRules } from '../../engine/presets';
+import { hasStrategyModel } from '../../engine/strategy';
+
+interface StrategyGuideProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function StrategyGuide({ isOpen, onClose }: StrategyGuideProps) {
+  const { rules } = useGameStore();
+
+  const ruleSummary = describeTableRules(rules);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.88, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.88, y: 20 }}
+            transition={{ type: 'spring', stiffness: 280, damping: 26 }}
+            className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none"
+          >
+            <div className="pointer-events-auto w-full max-w-5xl max-h-full overflow-y-auto">
+              <div className="glass rounded-3xl shadow-modal overflow-hidden">
+                {/* Header */}
+                <div className="relative px-6 pt-6 pb-4 border-b border-border">
+                  <button
+                    onClick={onClose}
+                    className="absolute top-5 right-5 w-8 h-8 flex items-center justify-center rounded-full text-text-muted hover:text-text hover:bg-background-elevated transition-all"
+                  >
+                    ✕
+                  </button>
+                  <h2 className="font-display font-bold text-xl text-text-bright">Basic Strategy</h2>
+                  <p className="text-text-muted text-sm">Computed for this table: {ruleSummary}</p>
+                </div>
+
+                <div className="p-6">
+                  {hasStrategyModel(rules) ? (
+                    <StrategyChart rules={rules} />
+                  ) : (
+                    <p className="text-text-muted text-sm">
+                      There is no chart for this game yet: basic strategy here is computed for classic rules only.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -3,12 +3,18 @@ import type { GameState } from '../../types';
 import { Hand } from './Hand';
 import { useGameStore } from '../../store/gameStore';
 import { ActionButtons } from '../controls/ActionButtons';
+import { StrategyCoach } from '../controls/StrategyCoach';
+import { ExpectedValuePanel } from '../controls/ExpectedValuePanel';
+import { CountingTrainer } from '../controls/CountingTrainer';
 import { BetControls } from '../controls/BetControls';
 import { InsurancePrompt } from '../controls/InsurancePrompt';
 import { BettingPhase } from './BettingPhase';
 import { DealingPhase } from './DealingPhase';
+import { ShoeIndicator } from './ShoeIndicator';
 import { evaluateHand, compareHands } from '../../engine/hand';
 import { calculatePayout } from '../../engine/payouts';
+import { describeDealerDecision } from '../../engine/dealer';
+import { getSideBetDefinition } from '../../engine/sideBets';
 
 // Layout grid classes for different player counts
 const LAYOUT_GRIDS = {
@@ -24,10 +30,12 @@ function OutcomeBanner({
   activeSeatIds,
   seats,
   dealerHand,
+  rules,
 }: {
   activeSeatIds: string[];
   seats: GameState['playerSeats'];
   dealerHand: GameState['dealerHand'];
+  rules: GameState['rules'];
 }) {
   if (activeSeatIds.length === 0) return null;
 
@@ -40,12 +48,12 @@ function OutcomeBanner({
     if (!seat.active) continue;
 
     for (const hand of seat.hands) {
-      const result = compareHands(hand, dealerHand);
-      const payout = calculatePayout(hand, result);
+      const result = compareHands(hand, dealerHand, rules);
+      const payout = calculatePayout(hand, result, rules);
       totalPayout += payout;
 
       if (result === 'win' || result === 'blackjack') outcomeCount.win++;
-      else if (result === 'loss') outcomeCount.loss++;
+      else if (result === 'loss' || result === 'surrender') outcomeCount.loss++;
       else outcomeCount.push++;
     }
   }
@@ -84,8 +92,14 @@ function OutcomeBanner({
 
 // ── Main Table component ──────────────────────────────────────────────────────
 export function Table() {
-  const { dealerHand, playerSeats, phase, numPlayers, currentTurnIndex, turnQueue } = useGameStore();
-  const showDealerValue = phase === 'dealerTurn' || phase === 'settlement' || phase === 'complete';
+  const { dealerHand, dealerDecisions, playerSeats, phase, numPlayers, currentTurnIndex, turnQueue, rules } =
+    useGameStore();
+  // Double Exposure shows both dealer cards from the deal
+  const showDealerValue =
+    phase === 'dealerTurn' ||
+    phase === 'settlement' ||
+    phase === 'complete' ||
+    (dealerHand.length > 1 && dealerHand.every(card => card.faceUp));
   const dealerFaceCard = dealerHand.length > 0 ? dealerHand[0] : null;
 
   // Get active seats (excluding empty ones)
@@ -118,7 +132,7 @@ export function Table() {
             )}
 
             {/* ─── Dealing Phase (Card deal animations) ─── */}
-            {phase === 'dealing' && (
+            {(phase === 'bettingLocked' || phase === 'dealing') && (
               <motion.div
                 key="dealing"
                 initial={{ opacity: 0, y: 20 }}
@@ -130,7 +144,7 @@ export function Table() {
             )}
 
             {/* ─── Felt Table ─── */}
-            {phase !== 'bettingOpen' && phase !== 'dealing' && (
+            {phase !== 'bettingOpen' && phase !== 'bettingLocked' && phase !== 'dealing' && (
               <motion.div
                 key="felt"
                 initial={{ opacity: 0, y: 20 }}
@@ -149,6 +163,10 @@ export function Table() {
                     ].join(', '),
                   }}
                 >
+                  <div className="absolute top-4 right-6">
+                    <ShoeIndicator />
+                  </div>
+
                   <div className="p-4 md:p-6 lg:p-8">
 
                     {/* ── Dealer Zone ── */}
@@ -168,6 +186,21 @@ export function Table() {
                             Showing: {evaluateHand([dealerFaceCard]).value}
                           </motion.div>
                         )}
+                        {showDealerValue && dealerDecisions.length > 0 && (
+                          <div className="flex flex-col items-center gap-0.5">
+                            {dealerDecisions.map((decision, i) => (
+                              <motion.div
+                                key={i}
+                                initial={{ opacity: 0, y: -4 }}
+                                animate={{ opacity: i === dealerDecisions.length - 1 ? 1 : 0.5, y: 0 }}
+                                className="text-xs font-mono text-felt-glow/60"
+                                title={decision.reason}
+                              >
+                                {describeDealerDecision(decision)}
+                              </motion.div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -183,7 +216,10 @@ export function Table() {
                       >
                         <AnimatePresence mode="wait">
                           {(() => {
-                            const totalBets = activeSeatIds.reduce((sum, id) => sum + (playerSeats[id].hands[0]?.bet ?? 0), 0);
+                            const totalBets = activeSeatIds.reduce(
+                              (sum, id) => sum + playerSeats[id].hands.reduce((seatSum, hand) => seatSum + hand.bet, 0),
+                              0
+                            );
                             return totalBets > 0 ? (
                               <motion.div
                                 key="bet"
@@ -232,6 +268,9 @@ export function Table() {
                               <div className="text-xs font-mono text-felt-glow/60 uppercase tracking-widest">
                                 {seatId}
                                 {isCurrentTurn && <span className="ml-2 text-brand">●</span>}
+                                <span className="ml-2 normal-case tracking-normal tabular-nums">
+                                  ${playerSeat.balance.toLocaleString()}
+                                </span>
                               </div>
 
                               {/* Player hands */}
@@ -257,8 +296,16 @@ export function Table() {
 
                               {/* Side bet indicators */}
                               {playerSeat.hands[0].sideBets && playerSeat.hands[0].sideBets.length > 0 && (
-                                <div className="text-xs font-mono text-felt-glow/50">
-                                  21+3: ${playerSeat.hands[0].sideBets[0].amount}
+                                <div className="flex flex-wrap gap-x-3 text-xs font-mono text-felt-glow/50">
+                                  {playerSeat.hands[0].sideBets.map(sideBet => (
+                                    <span
+                                      key={sideBet.type}
+                                      className={sideBet.result === 'win' ? 'text-win' : sideBet.result === 'loss' ? 'line-through' : ''}
+                                    >
+                                      {getSideBetDefinition(sideBet.type)?.name ?? sideBet.type}: ${sideBet.amount}
+                                      {sideBet.result === 'win' && ` · +$${sideBet.payout}`}
+                                    </span>
+                                  ))}
                                 </div>
                               )}
                             </motion.div>
@@ -280,7 +327,7 @@ export function Table() {
                 {/* ── Outcome banner ── */}
                 <AnimatePresence>
                   {(phase === 'settlement' || phase === 'complete') && (
-                    <OutcomeBanner activeSeatIds={activeSeatIds} seats={playerSeats} dealerHand={dealerHand} />
+                    <OutcomeBanner activeSeatIds={activeSeatIds} seats={playerSeats} dealerHand={dealerHand} rules={rules} />
                   )}
                 </AnimatePresence>
               </motion.div>
@@ -293,10 +340,14 @@ export function Table() {
       <div className="border-t border-border/50 glass flex-shrink-0">
         <div className="max-w-2xl xl:max-w-3xl mx-auto px-4 py-3 md:py-4 flex flex-col gap-2">
           <ActionButtons />
+          <ExpectedValuePanel />
+          <StrategyCoach />
+          <CountingTrainer />
           <BetControls />
 
           <AnimatePresence>
-            {(phase === 'settlement' || phase === 'complete') && (
+            {/* Offered once the round has been paid out */}
+            {phase === 'complete' && (
               <motion.button
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -1,9 +1,15 @@
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../store/gameStore';
 import { WalletButton } from '../wallet/WalletButton';
+import { RoundReplay } from '../game/RoundReplay';
+import { StrategyGuide } from '../game/StrategyGuide';
+import { describeTableRules, estimateHouseEdge, findRulePreset } from '../../engine/presets';
 
 export function Header() {
-  const { balance, message } = useGameStore();
+  const { balance, message, history, rules } = useGameStore();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStrategyOpen, setIsStrategyOpen] = useState(false);
 
   const outcomeColor = (() => {
     if (message.includes('WIN') || message.includes('Blackjack') || message.includes('win')) return 'text-win';
@@ -52,6 +58,34 @@ export function Header() {
 
           {/* ── Right: Balance + Wallet ── */}
           <div className="flex items-center gap-3 shrink-0">
+            {/* Active rule set and its estimated house edge */}
+            <span
+              title={describeTableRules(rules)}
+              className="hidden lg:block text-xs font-mono text-text-muted border border-border px-2.5 py-1.5 rounded-lg"
+            >
+              {findRulePreset(rules)?.name ?? 'Custom rules'}
+              <span className="text-text-subtle"> · est. edge {(estimateHouseEdge(rules) * 100).toFixed(2)}%</span>
+            </span>
+
+            {/* Round history */}
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              disabled={history.length === 0}
+              className="text-xs font-mono text-text-muted hover:text-text border border-border hover:border-border-bright px-2.5 py-1.5 rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              History
+            </button>
+            <RoundReplay isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} />
+
+            {/* Basic strategy chart for the current rules */}
+            <button
+              onClick={() => setIsStrategyOpen(true)}
+              className="text-xs font-mono text-text-muted hover:text-text border border-border hover:border-border-bright px-2.5 py-1.5 rounded-lg transition-all"
+            >
+              Strategy
+            </button>
+            <StrategyGuide isOpen={isStrategyOpen} onClose={() => setIsStrategyOpen(false)} />
+
             {/* Balance pill */}
             <motion.div
               key={balance}
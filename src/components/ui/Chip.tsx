@@ -52,3 +52,29 @@ export function Chip({ value, selected = false, onClick, disabled = false, class
     </motion.button>
   );
 }
+
+interface FreeBetLammerProps {
+  amount: number;
+  className?: string;
+}
+
+// Free Bet Blackjack marker for the stake the house puts up on a free double or split
+export function FreeBetLammer({ amount, className = '' }: FreeBetLammerProps) {
+  return (
+    <motion.div
+      initial={{ scale: 0, rotate: -30 }}
+      animate={{ scale: 1, rotate: 0 }}
+      className={`
+        relative w-9 h-9 rounded-full
+        flex flex-col items-center justify-center leading-none
+        border-2 border-dashed border-[var(--gold)] bg-[var(--bg-elevated)] text-[var(--text-gold)]
+        shadow-chip
+        ${className}
+      `}
+      title={`Free bet: $${amount} staked by the house`}
+    >
+      <span className="text-2xs font-bold tracking-wider">FREE</span>
+      <span className="text-2xs font-bold font-mono">${amount}</span>
+    </motion.div>
+  );
+}
@@ -12,9 +12,11 @@ import {
   calculateRequiredBalance,
   deductFromBalance,
   addToBalance,
+  getTableBalance,
   type BettingConfig,
 } from '../betting';
 import { createHand } from '../hand';
+import type { PlayerSeat } from '../../types';
 
 describe('Betting System', () => {
   describe('placeBet', () => {
@@ -584,6 +586,34 @@ describe('Betting System', () => {
     });
   });
 
+  describe('getTableBalance', () => {
+    const seat = (id: string, balance: number): PlayerSeat => ({
+      id,
+      hands: [createHand()],
+      active: true,
+      currentHandIndex: 0,
+      balance,
+    });
+
+    it('should sum every seat bankroll', () => {
+      expect(getTableBalance({ seat1: seat('seat1', 900), seat2: seat('seat2', 1250) })).toBe(2150);
+    });
+
+    it('should return 0 for an empty table', () => {
+      expect(getTableBalance({})).toBe(0);
+    });
+
+    it('should reconcile with per-seat bets and settlements', () => {
+      const seat1 = placeBet(1000, 100).newBalance;
+      const seat2 = placeBet(1000, 50).newBalance;
+      const seats = {
+        seat1: seat('seat1', settleBet(seat1, 200).newBalance),
+        seat2: seat('seat2', settleBet(seat2, 0).newBalance),
+      };
+      expect(getTableBalance(seats)).toBe(2000 + 100 - 50);
+    });
+  });
+
   describe('Integration Tests', () => {
     it('should handle complete bet placement and settlement flow', () => {
       let balance = 1000;
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { isSwitchPending, switchSecondCards } from '../blackjackSwitch';
+import { createHand, addCardToHand, compareHands } from '../hand';
+import { createTableRules } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const createCard = (rank: string): Card => ({ rank: rank as Rank, suit: '♠', faceUp: true });
+
+const handOf = (...ranks: string[]): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(100));
+
+const ranksOf = (hands: Hand[]) => hands.map(hand => hand.cards.map(card => card.rank));
+
+describe('Blackjack Switch', () => {
+  describe('switchSecondCards', () => {
+    it('should swap the second cards between the hands', () => {
+      const hands = switchSecondCards([handOf('9', '6'), handOf('5', 'K')]);
+      expect(ranksOf(hands)).toEqual([['9', 'K'], ['5', '6']]);
+      expect(hands.map(hand => hand.status)).toEqual(['playing', 'playing']);
+      expect(hands.map(hand => hand.bet)).toEqual([100, 100]);
+    });
+
+    it('should stand a 21 made by the switch', () => {
+      const [first] = switchSecondCards([handOf('A', '6'), handOf('7', 'K')]);
+      expect(first.status).toBe('stand');
+    });
+
+    it('should not pay a 21 made by the switch as a blackjack', () => {
+      const rules = createTableRules({ variant: 'switch', blackjackPayout: '1:1' });
+      const [first] = switchSecondCards([handOf('A', '6'), handOf('7', 'K')]);
+      expect(first.switched).toBe(true);
+      expect(compareHands(first, [createCard('K'), createCard('6'), createCard('6')], rules)).toBe('push');
+      expect(compareHands(first, [createCard('K'), createCard('6'), createCard('5')], rules)).toBe('push');
+      expect(compareHands(first, [createCard('K'), createCard('8')], rules)).toBe('win');
+    });
+
+    it('should put a broken natural back into play', () => {
+      const natural = { ...handOf('A', 'K'), status: 'stand' as const };
+      const hands = switchSecondCards([natural, handOf('K', '7')]);
+      expect(ranksOf(hands)).toEqual([['A', '7'], ['K', 'K']]);
+      expect(hands[0].status).toBe('playing');
+    });
+
+    it('should only switch two two-card hands', () => {
+      expect(() => switchSecondCards([handOf('9', '6')])).toThrow('Only two opening hands can switch cards');
+      expect(() => switchSecondCards([handOf('9', '6', '2'), handOf('5', 'K')])).toThrow();
+    });
+  });
+
+  describe('isSwitchPending', () => {
+    const turnQueue = [
+      { seatId: 'seat1', handIndex: 0, decision: 'switch' as const },
+      { seatId: 'seat1', handIndex: 0 },
+      { seatId: 'seat1', handIndex: 1 },
+    ];
+
+    it('should follow the turn queue', () => {
+      expect(isSwitchPending({ phase: 'playerTurns', turnQueue, currentTurnIndex: 0 })).toBe(true);
+      expect(isSwitchPending({ phase: 'playerTurns', turnQueue, currentTurnIndex: 1 })).toBe(false);
+      expect(isSwitchPending({ phase: 'dealing', turnQueue, currentTurnIndex: -1 })).toBe(false);
+    });
+  });
+});
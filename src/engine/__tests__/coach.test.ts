@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCoachSession,
+  gradeDecision,
+  recordDecision,
+  getCoachAccuracy,
+  MAX_COACH_MISTAKES,
+} from '../coach';
+import { createHand, addCardToHand } from '../hand';
+import { DEFAULT_TABLE_RULES } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const createCard = (rank: string): Card => ({ rank: rank as Rank, suit: '♥', faceUp: true });
+
+const handOf = (...ranks: string[]): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(100));
+
+describe('Strategy Coach', () => {
+  const rules = DEFAULT_TABLE_RULES;
+
+  describe('gradeDecision', () => {
+    it('should accept the basic strategy play at no cost', () => {
+      const decision = gradeDecision(handOf('10', '6'), createCard('10'), 'hit', rules);
+      expect(decision.correct).toBe('hit');
+      expect(decision.evCost).toBe(0);
+      expect(decision.total).toBe(16);
+      expect(decision.soft).toBe(false);
+    });
+
+    it('should flag a deviation with the EV it gives up', () => {
+      const decision = gradeDecision(handOf('6', '5'), createCard('6'), 'hit', rules);
+      expect(decision.chosen).toBe('hit');
+      expect(decision.correct).toBe('double');
+      expect(decision.evCost).toBeGreaterThan(0.1);
+    });
+
+    it('should grade against the plays open to the hand', () => {
+      const noDouble = { canDouble: false, canSplit: false, canSurrender: false };
+      const decision = gradeDecision(handOf('A', '7'), createCard('4'), 'stand', rules, noDouble);
+      expect(decision.correct).toBe('stand');
+      expect(decision.evCost).toBe(0);
+    });
+
+    it('should price standing on a stiff against a strong upcard', () => {
+      const small = gradeDecision(handOf('10', '6'), createCard('10'), 'stand', rules);
+      const large = gradeDecision(handOf('10', '2'), createCard('A'), 'stand', rules);
+      expect(small.evCost).toBeGreaterThan(0);
+      expect(small.evCost).toBeLessThan(0.05);
+      expect(large.evCost).toBeGreaterThan(small.evCost);
+    });
+  });
+
+  describe('recordDecision', () => {
+    it('should score correct plays and list mistakes newest first', () => {
+      const good = gradeDecision(handOf('10', '8'), createCard('7'), 'stand', rules);
+      const bad1 = gradeDecision(handOf('8', '8'), createCard('10'), 'hit', rules);
+      const bad2 = gradeDecision(handOf('9', '2'), createCard('5'), 'hit', rules);
+
+      const session = [good, bad1, bad2].reduce(recordDecision, createCoachSession());
+
+      expect(session.decisions).toBe(3);
+      expect(session.correct).toBe(1);
+      expect(session.mistakes).toEqual([bad2, bad1]);
+      expect(session.lastDecision).toBe(bad2);
+      expect(session.evLost).toBeCloseTo(bad1.evCost + bad2.evCost, 10);
+      expect(getCoachAccuracy(session)).toBeCloseTo(1 / 3, 10);
+    });
+
+    it('should not modify the previous session', () => {
+      const session = createCoachSession();
+      recordDecision(session, gradeDecision(handOf('9', '2'), createCard('5'), 'hit', rules));
+      expect(session.decisions).toBe(0);
+      expect(session.mistakes).toHaveLength(0);
+    });
+
+    it('should cap the mistake list', () => {
+      const mistake = gradeDecision(handOf('9', '2'), createCard('5'), 'stand', rules);
+      let session = createCoachSession();
+      for (let i = 0; i < MAX_COACH_MISTAKES + 5; i++) {
+        session = recordDecision(session, mistake);
+      }
+      expect(session.mistakes).toHaveLength(MAX_COACH_MISTAKES);
+      expect(session.decisions).toBe(MAX_COACH_MISTAKES + 5);
+    });
+  });
+
+  describe('getCoachAccuracy', () => {
+    it('should be null before any decision', () => {
+      expect(getCoachAccuracy(createCoachSession())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COUNT_SYSTEMS,
+  getCountTag,
+  getInitialRunningCount,
+  getRunningCount,
+  getTrueCount,
+  getSeenCards,
+  getCountSnapshot,
+  gradeCountAnswer,
+  recordCountCheck,
+  createCountSession,
+  type CountSystemId,
+} from '../counting';
+import { createShoe } from '../deck';
+import { createShoeState } from '../shoe';
+import { createHand, addCardToHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, PlayerSeat, Rank } from '../../types';
+
+const createCard = (rank: string, faceUp: boolean = true): Card => ({ rank: rank as Rank, suit: '♦', faceUp });
+
+const cardsOf = (...ranks: string[]) => ranks.map(rank => createCard(rank));
+
+const seatWith = (...ranks: string[]): PlayerSeat => ({
+  id: 'seat1',
+  hands: [ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(10))],
+  active: true,
+  currentHandIndex: 0,
+  balance: 1000,
+  betLocked: true,
+});
+
+describe('Card Counting', () => {
+  describe('COUNT_SYSTEMS', () => {
+    it.each(Object.keys(COUNT_SYSTEMS) as CountSystemId[])('%s should tag every card value', systemId => {
+      const values = Object.keys(COUNT_SYSTEMS[systemId].tags).map(Number).sort((a, b) => a - b);
+      expect(values).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    });
+
+    it('should sum balanced systems to zero over a full deck', () => {
+      for (const system of Object.values(COUNT_SYSTEMS)) {
+        const total = getRunningCount(createShoe(1), system.id, 1);
+        expect(total === 0).toBe(system.balanced);
+      }
+    });
+
+    it('should bring KO back to its starting count plus four per deck', () => {
+      expect(getRunningCount(createShoe(6), 'ko', 6)).toBe(getInitialRunningCount('ko', 6) + 24);
+    });
+  });
+
+  describe('getCountTag', () => {
+    it('should tag cards per system', () => {
+      expect(getCountTag(createCard('5'), 'hiLo')).toBe(1);
+      expect(getCountTag(createCard('7'), 'hiLo')).toBe(0);
+      expect(getCountTag(createCard('7'), 'ko')).toBe(1);
+      expect(getCountTag(createCard('Q'), 'omegaII')).toBe(-2);
+      expect(getCountTag(createCard('A'), 'omegaII')).toBe(0);
+      expect(getCountTag(createCard('9'), 'omegaII')).toBe(-1);
+      expect(getCountTag(createCard('A'), 'zen')).toBe(-1);
+      expect(getCountTag(createCard('4'), 'zen')).toBe(2);
+    });
+  });
+
+  describe('getRunningCount', () => {
+    it('should add tags from the initial running count', () => {
+      const cards = cardsOf('2', '5', 'K', 'A', '7', '4');
+      expect(getRunningCount(cards, 'hiLo', 6)).toBe(1);
+      expect(getRunningCount(cards, 'ko', 6)).toBe(-20 + 2);
+      expect(getRunningCount(cards, 'omegaII', 6)).toBe(1 + 2 - 2 + 0 + 1 + 2);
+      expect(getRunningCount(cards, 'zen', 6)).toBe(1 + 2 - 2 - 1 + 1 + 2);
+    });
+  });
+
+  describe('getTrueCount', () => {
+    it('should divide by the decks remaining', () => {
+      expect(getTrueCount(6, 156)).toBe(2);
+      expect(getTrueCount(-3, 78)).toBe(-2);
+    });
+
+    it('should not divide by less than one deck', () => {
+      expect(getTrueCount(4, 20)).toBe(4);
+      expect(getTrueCount(4, 0)).toBe(4);
+    });
+
+    it('should count decks of the given size', () => {
+      expect(getTrueCount(6, 144, 48)).toBe(2);
+    });
+  });
+
+  describe('getCountSnapshot', () => {
+    const rules = createTableRules({ deckCount: 1 });
+
+    it('should count the discard tray and face-up table cards', () => {
+      const state = {
+        rules,
+        deck: createShoe(1).slice(0, 40),
+        shoe: { ...createShoeState(rules), discardTray: cardsOf('2', '3', '4', '5', '6', '7') },
+        playerSeats: { seat1: seatWith('10', 'J') },
+        dealerHand: [createCard('6'), createCard('A', false)],
+      };
+
+      expect(getSeenCards(state)).toHaveLength(9);
+      const snapshot = getCountSnapshot(state, 'hiLo');
+      expect(snapshot.cardsSeen).toBe(9);
+      expect(snapshot.runningCount).toBe(5 - 2 + 1);
+      // The hole card is still unseen
+      expect(snapshot.decksRemaining).toBeCloseTo(41 / 52, 10);
+      expect(snapshot.trueCount).toBe(4);
+    });
+
+    it('should measure a Spanish 21 shoe in 48-card decks', () => {
+      const spanish21 = createTableRules({ variant: 'spanish21' });
+      const state = {
+        rules: spanish21,
+        deck: createShoe(spanish21.deckCount, 'spanish21').slice(96),
+        shoe: createShoeState(spanish21),
+        playerSeats: {},
+        dealerHand: [],
+      };
+
+      expect(getCountSnapshot(state, 'hiLo').decksRemaining).toBe(4);
+    });
+
+    it('should start a fresh shoe at the initial count', () => {
+      const state = {
+        rules: DEFAULT_TABLE_RULES,
+        deck: createShoe(DEFAULT_TABLE_RULES.deckCount),
+        shoe: createShoeState(DEFAULT_TABLE_RULES),
+        playerSeats: {},
+        dealerHand: [],
+      };
+
+      expect(getCountSnapshot(state, 'hiLo').runningCount).toBe(0);
+      expect(getCountSnapshot(state, 'ko').runningCount).toBe(getInitialRunningCount('ko', DEFAULT_TABLE_RULES.deckCount));
+      expect(getCountSnapshot(state, 'hiLo').decksRemaining).toBe(DEFAULT_TABLE_RULES.deckCount);
+    });
+  });
+
+  describe('gradeCountAnswer', () => {
+    const actual = { runningCount: 7, trueCount: 2.33, decksRemaining: 3, cardsSeen: 156 };
+
+    it('should require an exact running count', () => {
+      expect(gradeCountAnswer({ runningCount: 7, trueCount: 2 }, actual).runningCorrect).toBe(true);
+      expect(gradeCountAnswer({ runningCount: 6, trueCount: 2 }, actual).runningCorrect).toBe(false);
+    });
+
+    it('should accept a true count within half a point', () => {
+      expect(gradeCountAnswer({ runningCount: 7, trueCount: 2 }, actual).trueCorrect).toBe(true);
+      expect(gradeCountAnswer({ runningCount: 7, trueCount: 2.5 }, actual).trueCorrect).toBe(true);
+      expect(gradeCountAnswer({ runningCount: 7, trueCount: 3 }, actual).trueCorrect).toBe(false);
+    });
+  });
+
+  describe('recordCountCheck', () => {
+    it('should score running and true counts separately', () => {
+      const actual = { runningCount: 4, trueCount: 1, decksRemaining: 4, cardsSeen: 104 };
+      const session = [
+        gradeCountAnswer({ runningCount: 4, trueCount: 1 }, actual),
+        gradeCountAnswer({ runningCount: 4, trueCount: 3 }, actual),
+        gradeCountAnswer({ runningCount: 2, trueCount: 1 }, actual),
+      ].reduce(recordCountCheck, createCountSession());
+
+      expect(session.checks).toBe(3);
+      expect(session.runningCorrect).toBe(2);
+      expect(session.trueCorrect).toBe(2);
+      expect(session.lastCheck?.answer.runningCount).toBe(2);
+    });
+  });
+});
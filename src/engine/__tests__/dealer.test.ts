@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { shouldDealerHit, playDealerHand } from '../dealer';
+import { shouldDealerHit, getDealerDecision, playDealerHand, describeDealerDecision } from '../dealer';
 import type { Card, Rank, Suit } from '../../types';
 import type { DealerRules } from '../dealer';
 
@@ -95,6 +95,21 @@ describe('Dealer AI Logic', () => {
     });
   });
 
+  describe('getDealerDecision', () => {
+    it('should decide one step without needing cards to draw', () => {
+      expect(getDealerDecision([createCard('10'), createCard('6')], { hitOnSoft17: false })).toMatchObject({
+        action: 'hit',
+        handValue: 16,
+        isSoft: false,
+      });
+      expect(getDealerDecision([createCard('A'), createCard('6')], { hitOnSoft17: false })).toMatchObject({
+        action: 'stand',
+        handValue: 17,
+        isSoft: true,
+      });
+    });
+  });
+
   describe('playDealerHand', () => {
     const standardRules: DealerRules = { hitOnSoft17: false };
     const casinoRules: DealerRules = { hitOnSoft17: true };
@@ -269,4 +284,22 @@ describe('Dealer AI Logic', () => {
       });
     });
   });
+  describe('describeDealerDecision', () => {
+    it('should describe hitting soft 17', () => {
+      const result = playDealerHand([createCard('A'), createCard('6')], [createCard('2')], { hitOnSoft17: true });
+      expect(describeDealerDecision(result.decisions[0])).toBe('Dealer hits soft 17');
+      expect(describeDealerDecision(result.decisions[1])).toBe('Dealer stands on soft 19');
+    });
+
+    it('should describe hard totals', () => {
+      const result = playDealerHand([createCard('10'), createCard('6')], [createCard('2')], { hitOnSoft17: false });
+      expect(describeDealerDecision(result.decisions[0])).toBe('Dealer hits hard 16');
+      expect(describeDealerDecision(result.decisions[1])).toBe('Dealer stands on hard 18');
+    });
+
+    it('should describe a bust', () => {
+      const result = playDealerHand([createCard('10'), createCard('6')], [createCard('K')], { hitOnSoft17: false });
+      expect(describeDealerDecision(result.decisions[1])).toBe('Dealer busts with 26');
+    });
+  });
 });
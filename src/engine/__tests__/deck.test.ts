@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createDeck, createShoe, shuffleDeck, dealCard, dealCards, shuffleDeckWithSeed, shuffleDeckWithProof } from '../deck';
+import { createDeck, createShoe, getDeckSize, shuffleDeck, dealCard, dealCards, shuffleDeckWithSeed, shuffleDeckWithProof } from '../deck';
 import { generateSeed } from '../probablyFair';
 
 describe('Deck Functions', () => {
@@ -30,6 +30,21 @@ describe('Deck Functions', () => {
     });
   });
 
+  describe('Spanish 21 decks', () => {
+    it('should remove the tens but keep the picture cards', () => {
+      const deck = createDeck('spanish21');
+      expect(deck).toHaveLength(48);
+      expect(deck.some(card => card.rank === '10')).toBe(false);
+      expect(deck.filter(card => card.rank === 'K')).toHaveLength(4);
+    });
+
+    it('should size shoes by the variant', () => {
+      expect(getDeckSize('spanish21')).toBe(48);
+      expect(getDeckSize()).toBe(52);
+      expect(createShoe(6, 'spanish21')).toHaveLength(288);
+    });
+  });
+
   describe('createShoe', () => {
     it('should create 6 decks by default', () => {
       const shoe = createShoe();
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExpectedValues, getShoeComposition, getUnseenCards } from '../expectedValue';
+import { getActionValues } from '../strategy';
+import { createHand, addCardToHand } from '../hand';
+import { createShoe } from '../deck';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const createCard = (rank: string, faceUp: boolean = true): Card => ({ rank: rank as Rank, suit: '♣', faceUp });
+
+const handOf = (...ranks: string[]): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(100));
+
+// A shoe with the given cards (and the dealer upcard) taken out
+const shoeWithout = (deckCount: number, ...ranks: string[]): Card[] => {
+  const shoe = createShoe(deckCount);
+  for (const rank of ranks) {
+    shoe.splice(shoe.findIndex(card => card.rank === rank), 1);
+  }
+  return shoe;
+};
+
+const tensOnly = (count: number): Card[] => Array.from({ length: count }, () => createCard('K'));
+
+describe('Expected Value Calculator', () => {
+  const rules = DEFAULT_TABLE_RULES;
+
+  describe('getShoeComposition', () => {
+    it('should count cards by value', () => {
+      const shoe = getShoeComposition(createShoe(1));
+      expect(shoe[2]).toBe(4);
+      expect(shoe[10]).toBe(16);
+      expect(shoe[11]).toBe(4);
+      expect(shoe.reduce((sum, count) => sum + count, 0)).toBe(52);
+    });
+  });
+
+  describe('getUnseenCards', () => {
+    it('should add the dealer hole card to the undealt shoe', () => {
+      const deck = [createCard('2'), createCard('3')];
+      const unseen = getUnseenCards({ deck, dealerHand: [createCard('9'), createCard('K', false)] });
+      expect(unseen.map(card => card.rank)).toEqual(['2', '3', 'K']);
+    });
+  });
+
+  describe('calculateExpectedValues', () => {
+    it('should agree with basic strategy values on a fresh shoe', () => {
+      const hand = handOf('10', '6');
+      const upCard = createCard('10');
+      const exact = calculateExpectedValues(hand, upCard, shoeWithout(6, '10', '6', '10'), rules);
+      const basic = getActionValues(hand, upCard, rules);
+
+      expect(exact.stand!).toBeCloseTo(basic.stand!, 2);
+      expect(exact.hit!).toBeCloseTo(basic.hit!, 2);
+      // Doubling stakes twice the bet, so card removal moves it twice as far
+      expect(exact.double!).toBeCloseTo(basic.double!, 1);
+    });
+
+    it('should follow the cards left in the shoe', () => {
+      // Only tens left: any hit on 12 busts, and the dealer's 16 must draw and bust too
+      const values = calculateExpectedValues(handOf('7', '5'), createCard('6'), tensOnly(20), rules);
+      expect(values.hit).toBe(-1);
+      expect(values.stand).toBe(1);
+      expect(values.double).toBe(-2);
+    });
+
+    it('should value a split by the cards each hand will draw', () => {
+      // Each eight draws a ten for 18; the dealer's 9 draws a ten for 19
+      const values = calculateExpectedValues(handOf('8', '8'), createCard('9'), tensOnly(20), rules);
+      expect(values.split).toBe(-2);
+      expect(values.stand).toBe(-1);
+      expect(values.hit).toBe(-1);
+    });
+
+    it('should condition on no dealer blackjack after the peek', () => {
+      const unseen = [...tensOnly(10), createCard('A')];
+      const values = calculateExpectedValues(handOf('10', '9'), createCard('10'), unseen, rules);
+      // The Ace cannot be in the hole, so the dealer ends on 20
+      expect(values.stand).toBe(-1);
+    });
+
+    it('should charge dealer blackjacks without a hole card', () => {
+      const enhc = createTableRules({ holeCard: 'enhc', noHoleCardLoss: 'all' });
+      const originalOnly = createTableRules({ holeCard: 'enhc', noHoleCardLoss: 'originalBetsOnly' });
+      const unseen = shoeWithout(6, '6', '5', 'A');
+
+      const all = calculateExpectedValues(handOf('6', '5'), createCard('A'), unseen, enhc);
+      const original = calculateExpectedValues(handOf('6', '5'), createCard('A'), unseen, originalOnly);
+      const peek = calculateExpectedValues(handOf('6', '5'), createCard('A'), unseen, rules);
+
+      expect(all.stand!).toBeLessThan(peek.stand!);
+      expect(original.double!).toBeGreaterThan(all.double!);
+      expect(original.stand!).toBeCloseTo(all.stand!, 10);
+    });
+
+    it('should only offer the decisions available', () => {
+      const values = calculateExpectedValues(handOf('4', '3', '4'), createCard('6'), shoeWithout(6, '4', '3', '4', '6'), rules);
+      expect(Object.keys(values).sort()).toEqual(['hit', 'stand']);
+
+      const surrender = calculateExpectedValues(
+        handOf('10', '6'),
+        createCard('10'),
+        shoeWithout(6, '10', '6', '10'),
+        createTableRules({ surrender: 'late' })
+      );
+      expect(surrender.surrender).toBe(-0.5);
+    });
+
+    it('should handle small-card hands deep in the recursion', () => {
+      const values = calculateExpectedValues(handOf('2', '2'), createCard('2'), shoeWithout(1, '2', '2', '2'), rules);
+      expect(values.split).toBeDefined();
+      expect(values.hit!).toBeGreaterThan(values.stand!);
+    });
+  });
+});
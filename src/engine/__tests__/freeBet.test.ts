@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { isFreeDouble, isFreeSplit, getFundedBet } from '../freeBet';
+import { createHand, doubleDownHand, splitHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const freeBet = createTableRules({ variant: 'freeBet' });
+const handOf = (...ranks: string[]): Hand => ({
+  ...createHand(100),
+  cards: ranks.map((rank): Card => ({ rank: rank as Rank, suit: '♣', faceUp: true })),
+});
+
+describe('Free Bet Blackjack', () => {
+  describe('isFreeDouble', () => {
+    it('should stake two-card hard 9, 10 and 11', () => {
+      expect(isFreeDouble(handOf('5', '4'), freeBet)).toBe(true);
+      expect(isFreeDouble(handOf('6', '4'), freeBet)).toBe(true);
+      expect(isFreeDouble(handOf('6', '5'), freeBet)).toBe(true);
+    });
+
+    it('should not stake other doubles', () => {
+      expect(isFreeDouble(handOf('5', '3'), freeBet)).toBe(false);
+      expect(isFreeDouble(handOf('A', '9'), freeBet)).toBe(false);
+      expect(isFreeDouble(handOf('2', '3', '5'), freeBet)).toBe(false);
+      expect(isFreeDouble(handOf('6', '5'), DEFAULT_TABLE_RULES)).toBe(false);
+    });
+  });
+
+  describe('isFreeSplit', () => {
+    it('should stake every pair but tens', () => {
+      expect(isFreeSplit(handOf('8', '8'), freeBet)).toBe(true);
+      expect(isFreeSplit(handOf('A', 'A'), freeBet)).toBe(true);
+      expect(isFreeSplit(handOf('K', 'K'), freeBet)).toBe(false);
+      expect(isFreeSplit(handOf('8', '8'), DEFAULT_TABLE_RULES)).toBe(false);
+    });
+  });
+
+  describe('free stakes', () => {
+    it('should track the free part of a doubled hand', () => {
+      const doubled = doubleDownHand(handOf('6', '5'), freeBet);
+      expect(doubled).toMatchObject({ bet: 200, freeBet: 100 });
+      expect(getFundedBet(doubled)).toBe(100);
+      expect(doubleDownHand(handOf('6', '5'), DEFAULT_TABLE_RULES).freeBet).toBeUndefined();
+    });
+
+    it('should stake the second hand of a free split', () => {
+      const { hand1, hand2 } = splitHand(handOf('8', '8'), 1, freeBet);
+      expect(getFundedBet(hand1)).toBe(100);
+      expect(getFundedBet(hand2)).toBe(0);
+
+      // A free hand re-split stays free, and so does the new hand
+      const resplit = splitHand({ ...hand2, cards: [...hand2.cards, hand2.cards[0]] }, 2, freeBet);
+      expect([resplit.hand1.freeBet, resplit.hand2.freeBet]).toEqual([100, 100]);
+    });
+  });
+});
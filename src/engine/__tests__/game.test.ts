@@ -0,0 +1,572 @@
+import { describe, it, expect } from 'vitest';
+import {
+  gameReducer,
+  getNextAction,
+  advanceGame,
+  createGameState,
+  createInitialSeats,
+  INITIAL_BALANCE,
+  type EngineAction,
+} from '../game';
+import { createShoeState } from '../shoe';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, GameState, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠'): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp: true,
+});
+
+// A table whose shoe deals the given ranks first, padded with tens
+const stackedTable = (ranks: string[], numPlayers: number = 1): GameState => {
+  const deck = [...ranks, ...Array(40).fill('10')].map(rank => createCard(rank));
+  return { ...createGameState(numPlayers), deck, shoe: { ...createShoeState(DEFAULT_TABLE_RULES), size: 312 } };
+};
+
+// Apply player actions in order, running automatic steps after each one
+const play = (state: GameState, ...actions: EngineAction[]) =>
+  actions.reduce((current, action) => advanceGame(gameReducer(current, action).state).state, state);
+
+const ranksOf = (cards: Card[]) => cards.map(card => card.rank);
+
+describe('Game Engine', () => {
+  describe('createGameState', () => {
+    it('should seat players with fresh bankrolls', () => {
+      const state = createGameState(3);
+      expect(Object.keys(state.playerSeats)).toEqual(['seat1', 'seat2', 'seat3']);
+      expect(state.balance).toBe(3 * INITIAL_BALANCE);
+      expect(state.phase).toBe('idle');
+    });
+  });
+
+  describe('createInitialSeats', () => {
+    it('should carry bankrolls over from previous seats', () => {
+      const previous = createInitialSeats(2);
+      previous.seat1 = { ...previous.seat1, balance: 750 };
+      const seats = createInitialSeats(2, previous);
+      expect(seats.seat1.balance).toBe(750);
+      expect(seats.seat2.balance).toBe(INITIAL_BALANCE);
+      expect(seats.seat1.active).toBe(false);
+    });
+  });
+
+  describe('placeBet', () => {
+    it('should stake the bet from the seat bankroll', () => {
+      const { state, events } = gameReducer(createGameState(), { type: 'placeBet', seatId: 'seat1', amount: 100 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 100);
+      expect(state.balance).toBe(INITIAL_BALANCE - 100);
+      expect(state.phase).toBe('bettingOpen');
+      expect(events).toContainEqual({ type: 'phase', from: 'idle', to: 'bettingOpen', action: 'placeBet' });
+    });
+
+    it('should refund the previous bet when a seat bets again', () => {
+      let { state } = gameReducer(createGameState(), { type: 'placeBet', seatId: 'seat1', amount: 100 });
+      ({ state } = gameReducer(state, { type: 'placeBet', seatId: 'seat1', amount: 25 }));
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 25);
+    });
+
+    it('should reject bets the table limits do not allow', () => {
+      const { state, events } = gameReducer(createGameState(), { type: 'placeBet', seatId: 'seat1', amount: 5000 });
+      expect(state.playerSeats.seat1.active).toBe(false);
+      expect(state.message).toBe('Maximum bet is 1000');
+      expect(events).toEqual([
+        {
+          type: 'rejected',
+          error: { code: 'INVALID_MOVE', action: 'placeBet', phase: 'idle', reason: 'Maximum bet is 1000' },
+        },
+      ]);
+    });
+  });
+
+  describe('dealing', () => {
+    it('should refuse to lock bets before the shoe is shuffled', () => {
+      const betting = gameReducer(createGameState(), { type: 'placeBet', seatId: 'seat1', amount: 100 }).state;
+      const { state, events } = gameReducer(betting, { type: 'lockBets' });
+      expect(state.phase).toBe('bettingOpen');
+      expect(events[0]).toMatchObject({ type: 'rejected', error: { code: 'GUARD_FAILED', action: 'lockBets' } });
+    });
+
+    it('should refuse to deal while a new shoe is still being shuffled', () => {
+      let { state } = gameReducer(stackedTable(['10', '6', '9', '7']), { type: 'placeBet', seatId: 'seat1', amount: 100 });
+      ({ state } = gameReducer(state, { type: 'lockBets' }));
+      const { state: waiting, events } = gameReducer({ ...state, deck: [] }, { type: 'deal' });
+      expect(waiting.phase).toBe('bettingLocked');
+      expect(events[0]).toMatchObject({
+        type: 'rejected',
+        error: { code: 'GUARD_FAILED', action: 'deal', reason: 'The shoe must be shuffled before dealing' },
+      });
+    });
+
+    it('should lock bets, deal, then offer the round', () => {
+      let { state } = gameReducer(stackedTable(['10', '6', '9', '7']), { type: 'placeBet', seatId: 'seat1', amount: 100 });
+      ({ state } = gameReducer(state, { type: 'lockBets' }));
+      expect(state.phase).toBe('bettingLocked');
+      expect(state.playerSeats.seat1.betLocked).toBe(true);
+      expect(getNextAction(state)).toEqual({ type: 'deal' });
+
+      const dealt = gameReducer(state, { type: 'deal' });
+      expect(dealt.state.phase).toBe('dealing');
+      expect(dealt.events).toContainEqual({ type: 'phase', from: 'bettingLocked', to: 'dealing', action: 'deal' });
+      expect(getNextAction(dealt.state)).toEqual({ type: 'completeDeal' });
+      expect(gameReducer(dealt.state, { type: 'completeDeal' }).state.phase).toBe('sideBetEvaluation');
+    });
+
+    it('should deal two cards to each seat and the dealer, then wait on the player', () => {
+      const state = play(
+        stackedTable(['10', '6', '9', '7']),
+        { type: 'placeBet', seatId: 'seat1', amount: 100 },
+        { type: 'lockBets' }
+      );
+      expect(ranksOf(state.playerSeats.seat1.hands[0].cards)).toEqual(['10', '6']);
+      expect(ranksOf(state.dealerHand)).toEqual(['9', '7']);
+      expect(state.dealerHand[1].faceUp).toBe(false);
+      expect(state.phase).toBe('playerTurns');
+      expect(state.activeSeatId).toBe('seat1');
+      expect(getNextAction(state)).toBeNull();
+    });
+  });
+
+  describe('full rounds', () => {
+    const bet = (amount: number = 100): EngineAction => ({ type: 'placeBet', seatId: 'seat1', amount });
+
+    it('should play a round to settlement and record it', () => {
+      // Player 10-9 stands on 19; dealer 10-7 stands on 17
+      const state = play(stackedTable(['10', '9', '10', '7']), bet(), { type: 'lockBets' }, { type: 'stand' });
+      expect(state.phase).toBe('complete');
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 100);
+      expect(state.balance).toBe(INITIAL_BALANCE + 100);
+      expect(state.history).toHaveLength(1);
+      expect(state.history[0].results[0]).toMatchObject({ outcome: 'win', payout: 200 });
+      expect(state.dealerDecisions.map(decision => decision.action)).toEqual(['stand']);
+    });
+
+    it('should draw dealer cards one step at a time', () => {
+      // Player stands on 20; dealer 10-6 draws a 10 and busts
+      let state = play(stackedTable(['10', 'K', '10', '6', '10']), bet(), { type: 'lockBets' });
+      state = gameReducer(state, { type: 'stand' }).state;
+      expect(state.phase).toBe('dealerTurn');
+
+      state = gameReducer(state, { type: 'dealerStep' }).state;
+      expect(state.dealerHand.every(card => card.faceUp)).toBe(true);
+      expect(state.dealerDecisions.map(decision => decision.action)).toEqual(['hit']);
+
+      state = gameReducer(state, { type: 'dealerStep' }).state;
+      expect(ranksOf(state.dealerHand)).toEqual(['10', '6', '10']);
+      expect(state.phase).toBe('settlement');
+    });
+
+    it('should stamp the round with the settle action time', () => {
+      const proof = { seed: 'ab'.repeat(32), seedHash: 'cd'.repeat(32), timestamp: '2026-01-01T00:00:00.000Z', version: 'PF-VL-1.1-A' };
+      let state: GameState = { ...stackedTable(['10', '9', '10', '7']), shoe: { ...createShoeState(DEFAULT_TABLE_RULES, 1, proof), size: 312 } };
+      state = play(state, bet(), { type: 'lockBets' });
+      state = gameReducer(state, { type: 'stand' }).state;
+      state = gameReducer(state, { type: 'dealerStep' }).state;
+      expect(state.phase).toBe('settlement');
+
+      const settle: EngineAction = { type: 'settle', timestamp: Date.UTC(2026, 0, 1, 12) };
+      const settled = gameReducer(state, settle).state;
+      expect(settled.history[0].timestamp).toBe(settle.timestamp);
+      expect(settled.history[0].results[0].timestamp).toBe(settle.timestamp);
+      expect(settled.roundProofs[0].timestamp).toBe('2026-01-01T12:00:00.000Z');
+      expect(gameReducer(state, settle).state).toEqual(settled);
+    });
+
+    it('should settle straight away on a dealer blackjack', () => {
+      const state = play(stackedTable(['10', '9', 'K', 'A']), bet(), { type: 'lockBets' });
+      expect(state.phase).toBe('complete');
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 100);
+      expect(state.history[0].events).toContainEqual({ type: 'reveal' });
+    });
+
+    it('should offer insurance on a dealer Ace and pay it on blackjack', () => {
+      let state = play(stackedTable(['10', '9', 'A', 'K']), bet(), { type: 'lockBets' });
+      expect(state.phase).toBe('insurance');
+      expect(state.activeSeatId).toBe('seat1');
+
+      state = play(state, { type: 'insurance', seatId: 'seat1' });
+      // Lose the 100 bet, insurance stake of 50 returns 150
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 100 + 100);
+      expect(state.history[0].insurancePayout).toBe(150);
+    });
+
+    it('should charge the double from the seat and deal one card', () => {
+      // Player 6-5 doubles onto a 10; dealer 10-7
+      const state = play(stackedTable(['6', '5', '10', '7', '10']), bet(), { type: 'lockBets' }, { type: 'double' });
+      expect(state.phase).toBe('complete');
+      expect(state.history[0].results[0]).toMatchObject({ bet: 200, outcome: 'win', payout: 400 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 200);
+    });
+
+    it('should play each split hand in turn', () => {
+      // Player splits 8s, draws 3 and 10; dealer 10-7
+      let state = play(stackedTable(['8', '8', '10', '7', '3', '10']), bet(), { type: 'lockBets' }, { type: 'split' });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 200);
+      expect(state.playerSeats.seat1.hands.map(hand => ranksOf(hand.cards))).toEqual([['8', '3'], ['8', '10']]);
+
+      state = play(state, { type: 'stand' });
+      expect(state.playerSeats.seat1.currentHandIndex).toBe(1);
+
+      state = play(state, { type: 'stand' });
+      expect(state.phase).toBe('complete');
+      // 11 loses to the dealer's 17; 18 beats it
+      expect(state.history[0].results.map(result => result.outcome)).toEqual(['loss', 'win']);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE);
+    });
+
+    it('should move past a bust hand automatically', () => {
+      const state = play(stackedTable(['10', '6', '10', '7', 'K']), bet(), { type: 'lockBets' }, { type: 'hit' });
+      expect(state.phase).toBe('complete');
+      expect(state.history[0].results[0].outcome).toBe('loss');
+    });
+
+    it('should play seats in table order', () => {
+      let state = play(
+        stackedTable(['10', '9', '10', '8', '10', '7'], 2),
+        bet(),
+        { type: 'placeBet', seatId: 'seat2', amount: 50 },
+        { type: 'lockBets' }
+      );
+      expect(state.activeSeatId).toBe('seat1');
+
+      state = play(state, { type: 'stand' });
+      expect(state.activeSeatId).toBe('seat2');
+
+      state = play(state, { type: 'stand' });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 100);
+      expect(state.playerSeats.seat2.balance).toBe(INITIAL_BALANCE + 50);
+      expect(state.balance).toBe(2 * INITIAL_BALANCE + 150);
+    });
+
+    it('should finish a round from the discard tray when the shoe runs out', () => {
+      // Round one deals 10-9 against 10-7; round two deals 10-5 against 10-6 and the shoe is empty
+      const proof = { seed: 'ab'.repeat(32), seedHash: 'cd'.repeat(32), timestamp: '2026-01-01T00:00:00.000Z', version: 'PF-VL-1.1-A' };
+      const deck = ['10', '9', '10', '7', '10', '5', '10', '6'].map(rank => ({ ...createCard(rank), faceUp: false }));
+      const table: GameState = { ...createGameState(), deck, shoe: { ...createShoeState(DEFAULT_TABLE_RULES, 1, proof), size: 312, cutCardPosition: 0 } };
+
+      let state = play(table, bet(), { type: 'lockBets' }, { type: 'stand' });
+      expect(state.roundProofs[0].seed).toBeNull();
+
+      state = play(gameReducer(state, { type: 'reset' }).state, bet(), { type: 'lockBets' });
+      expect(state.deck).toHaveLength(0);
+
+      // The hit comes from the reshuffled 10, 9, 10, 7: 15 busts on any of them
+      const { state: afterHit, events } = gameReducer(state, { type: 'hit' });
+      expect(events).toContainEqual({ type: 'shuffle', cards: 4 });
+      expect(afterHit.deck).toHaveLength(3);
+      expect(afterHit.shoe).toMatchObject({ discardTray: [], cutCardReached: true, proof: null });
+
+      state = advanceGame(afterHit).state;
+      expect(state.phase).toBe('complete');
+      expect(state.history[1].results[0].outcome).toBe('loss');
+      // The committed shoe is dealt out, so its seed is revealed; the reshuffled round has no proof
+      expect(state.roundProofs).toHaveLength(1);
+      expect(state.roundProofs[0].seed).toBe(proof.seed);
+      expect(state.history[0].proof?.seed).toBe(proof.seed);
+      expect(state.history[1].proof).toBeNull();
+    });
+  });
+
+  describe('side bets', () => {
+    const withSideBets = (sideBets: Record<string, number>): EngineAction =>
+      ({ type: 'placeBet', seatId: 'seat1', amount: 100, sideBets });
+
+    it('should stake side bets with the main bet', () => {
+      const { state } = gameReducer(createGameState(), withSideBets({ perfectPairs: 10, twentyOneThree: 5 }));
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 115);
+      expect(state.playerSeats.seat1.hands[0].sideBets).toEqual([
+        { type: 'perfectPairs', amount: 10 },
+        { type: 'twentyOneThree', amount: 5 },
+      ]);
+    });
+
+    it('should reject side bets nobody registered', () => {
+      const { state, events } = gameReducer(createGameState(), withSideBets({ dragonBonus: 10 }));
+      expect(state.playerSeats.seat1.active).toBe(false);
+      expect(events[0]).toMatchObject({ type: 'rejected', error: { reason: 'Unknown side bet: dragonBonus' } });
+    });
+
+    it('should settle bets on the upcard after the deal and the rest after the dealer', () => {
+      // Player 7-8 with a dealer 9 upcard, all spades: a 21+3 straight flush. Dealer 9-6 draws 10 and busts with three cards
+      let state = play(
+        stackedTable(['7', '8', '9', '6', '10']),
+        withSideBets({ twentyOneThree: 5, busterBlackjack: 5 }),
+        { type: 'lockBets' }
+      );
+      expect(state.phase).toBe('playerTurns');
+      expect(state.playerSeats.seat1.hands[0].sideBets).toEqual([
+        { type: 'twentyOneThree', amount: 5, result: 'win', outcome: 'straightFlush', payout: 200 },
+        { type: 'busterBlackjack', amount: 5 },
+      ]);
+
+      state = play(state, { type: 'stand' });
+      expect(state.phase).toBe('complete');
+      expect(state.playerSeats.seat1.hands[0].sideBets?.[1]).toMatchObject({ result: 'win', outcome: 'bust4', payout: 10 });
+    });
+
+    it('should pay winning side bets into the bankroll and round history', () => {
+      const state = play(
+        stackedTable(['7', '8', '9', '6', '10']),
+        withSideBets({ twentyOneThree: 5, busterBlackjack: 5, perfectPairs: 10 }),
+        { type: 'lockBets' },
+        { type: 'stand' }
+      );
+
+      // Main bet pays 200; 21+3 returns 5 + 200 and Buster 5 + 10; Perfect Pairs loses its 10
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 120 + 200 + 205 + 15);
+      const [record] = state.history;
+      expect(record.totalPayout).toBe(200);
+      expect(record.sideBetPayout).toBe(220);
+      expect(record.results[0].sideBets?.map(sideBet => sideBet.result)).toEqual(['win', 'win', 'loss']);
+      expect(state.message).toContain('Side bets: 220');
+    });
+
+    it('should pay from the paytable the rules select', () => {
+      const table = stackedTable(['7', '8', '9', '6', '10']);
+      const state = play(
+        { ...table, rules: createTableRules({ sideBetPaytables: { twentyOneThree: 'flat9' } }) },
+        withSideBets({ twentyOneThree: 5 }),
+        { type: 'lockBets' }
+      );
+      expect(state.playerSeats.seat1.hands[0].sideBets?.[0]).toMatchObject({ outcome: 'straightFlush', payout: 45 });
+    });
+
+    it('should keep side bets on the opening cards through a split', () => {
+      // Player 10-10 splits into 10-3 and 10-2; dealer 9-7 draws 10 and busts
+      let state = play(
+        stackedTable(['10', '10', '9', '7', '3', '2']),
+        withSideBets({ luckyLadies: 10 }),
+        { type: 'lockBets' },
+        { type: 'split' }
+      );
+      expect(state.playerSeats.seat1.hands[0].sideBets).toEqual([{ type: 'luckyLadies', amount: 10 }]);
+
+      state = play(state, { type: 'stand' }, { type: 'stand' });
+      expect(state.playerSeats.seat1.hands[0].sideBets?.[0]).toMatchObject({ outcome: 'matched20', payout: 250 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 210 + 400 + 260);
+    });
+  });
+
+  describe('Spanish 21', () => {
+    const spanishTable = (ranks: string[]): GameState => ({
+      ...stackedTable(ranks),
+      rules: createTableRules({ variant: 'spanish21' }),
+    });
+    const bet = (): EngineAction => ({ type: 'placeBet', seatId: 'seat1', amount: 100 });
+
+    it('should keep a double open for a re-double', () => {
+      // Player 2-3 doubles onto a 4 and re-doubles onto a King for 19; dealer 10-7
+      let state = play(spanishTable(['2', '3', '10', '7', '4', 'K']), bet(), { type: 'lockBets' }, { type: 'double' });
+      expect(state.phase).toBe('playerTurns');
+      expect(state.message).toBe('Doubled down. Stand, re-double or rescue');
+
+      state = play(state, { type: 'double' }, { type: 'stand' });
+      expect(state.history[0].results[0]).toMatchObject({ bet: 400, outcome: 'win', payout: 800 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 400);
+    });
+
+    it('should rescue a double for the doubled stake', () => {
+      const state = play(
+        spanishTable(['2', '3', '10', '7', '4']),
+        bet(),
+        { type: 'lockBets' },
+        { type: 'double' },
+        { type: 'surrender' }
+      );
+      expect(state.history[0].results[0].outcome).toBe('surrender');
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 100);
+    });
+
+    it('should pay a bonus 21 even when the dealer makes 21', () => {
+      // Player 7-7 hits a 7 (all spades, 3:1); dealer K-6 draws a 5
+      const state = play(spanishTable(['7', '7', 'K', '6', '7', '5']), bet(), { type: 'lockBets' }, { type: 'hit' });
+      expect(state.history[0].results[0]).toMatchObject({ outcome: 'win', payout: 400 });
+    });
+  });
+
+  describe('Blackjack Switch', () => {
+    const switchTable = (ranks: string[]): GameState => ({
+      ...stackedTable(ranks),
+      rules: createTableRules({ variant: 'switch', blackjackPayout: '1:1' }),
+    });
+    const bet = (sideBets?: Record<string, number>): EngineAction => ({ type: 'placeBet', seatId: 'seat1', amount: 100, sideBets });
+
+    it('should stake the bet on two hands', () => {
+      const { state } = gameReducer(switchTable([]), bet());
+      expect(state.playerSeats.seat1.hands.map(hand => hand.bet)).toEqual([100, 100]);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 200);
+    });
+
+    it('should offer the switch before either hand is played', () => {
+      // Hands 9-6 and 5-K; dealer 10-7
+      let state = play(switchTable(['9', '6', '5', 'K', '10', '7']), bet(), { type: 'lockBets' });
+      expect(state.phase).toBe('playerTurns');
+      expect(state.message).toBe('seat1: switch the second cards?');
+
+      const { events } = gameReducer(state, { type: 'hit' });
+      expect(events[0]).toMatchObject({ type: 'rejected', error: { code: 'GUARD_FAILED', reason: 'Switch or keep the cards first' } });
+
+      state = play(state, { type: 'switch' });
+      expect(state.playerSeats.seat1.hands.map(hand => ranksOf(hand.cards))).toEqual([['9', 'K'], ['5', '6']]);
+      expect(state.playerSeats.seat1.currentHandIndex).toBe(0);
+
+      // 19 stands; 11 hits a ten for 21 and wins too
+      state = play(state, { type: 'stand' }, { type: 'hit' });
+      expect(state.phase).toBe('complete');
+      expect(state.history[0].results.map(result => result.outcome)).toEqual(['win', 'win']);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 200);
+    });
+
+    it('should push non-blackjack hands on a dealer 22 and pay blackjack even money', () => {
+      // Hands A-K and 10-8 kept; dealer K-6 draws 6 for 22
+      const state = play(
+        switchTable(['A', 'K', '10', '8', 'K', '6', '6']),
+        bet(),
+        { type: 'lockBets' },
+        { type: 'declineSwitch' },
+        { type: 'stand' }
+      );
+      expect(state.history[0].results).toMatchObject([
+        { outcome: 'blackjack', payout: 200 },
+        { outcome: 'push', payout: 100 },
+      ]);
+    });
+
+    it('should pay a 21 made by the switch as an ordinary 21', () => {
+      // A-6 and 7-K switch to A-K and 7-6; dealer K-6 draws 6 for 22
+      const state = play(
+        switchTable(['A', '6', '7', 'K', 'K', '6', '6']),
+        bet(),
+        { type: 'lockBets' },
+        { type: 'switch' },
+        { type: 'stand' }
+      );
+      expect(state.history[0].results).toMatchObject([
+        { outcome: 'push', payout: 100 },
+        { outcome: 'push', payout: 100 },
+      ]);
+    });
+
+    it('should settle Super Match on all four opening cards', () => {
+      const state = play(
+        switchTable(['9', '6', '9', 'K', '10', '7']),
+        bet({ superMatch: 10 }),
+        { type: 'lockBets' },
+        { type: 'switch' }
+      );
+      expect(state.playerSeats.seat1.hands[0].sideBets?.[0]).toMatchObject({ outcome: 'pair', payout: 10 });
+    });
+
+    it('should only take Super Match at a Switch table', () => {
+      const { events } = gameReducer(createGameState(), bet({ superMatch: 10 }));
+      expect(events[0]).toMatchObject({ type: 'rejected', error: { reason: 'Super Match is not offered at this table' } });
+    });
+  });
+
+  describe('Free Bet Blackjack', () => {
+    const freeBetTable = (ranks: string[]): GameState => ({
+      ...stackedTable(ranks),
+      rules: createTableRules({ variant: 'freeBet' }),
+    });
+    const bet: EngineAction = { type: 'placeBet', seatId: 'seat1', amount: 100 };
+
+    it('should double a hard 11 for free and pay the winnings on it', () => {
+      // 6-5 doubles into a ten for 21; dealer 10-7
+      let state = play(freeBetTable(['6', '5', '10', '7']), bet, { type: 'lockBets' });
+      state = advanceGame(gameReducer(state, { type: 'double' }).state).state;
+
+      expect(state.history[0].results[0]).toMatchObject({ outcome: 'win', bet: 100, payout: 300 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 200);
+    });
+
+    it('should double for free even when the seat cannot afford it', () => {
+      let state = play(freeBetTable(['6', '4', '10', '7']), bet, { type: 'lockBets' });
+      state = { ...state, playerSeats: { ...state.playerSeats, seat1: { ...state.playerSeats.seat1, balance: 0 } } };
+
+      const { state: doubled } = gameReducer(state, { type: 'double' });
+      expect(doubled.playerSeats.seat1.hands[0]).toMatchObject({ bet: 200, freeBet: 100 });
+      expect(doubled.playerSeats.seat1.balance).toBe(0);
+      expect(doubled.message).toBe('Free double');
+    });
+
+    it('should charge for a double on soft hands', () => {
+      let state = play(freeBetTable(['A', '6', '10', '7']), bet, { type: 'lockBets' });
+      state = gameReducer(state, { type: 'double' }).state;
+      expect(state.playerSeats.seat1.hands[0].freeBet).toBeUndefined();
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 200);
+    });
+
+    it('should split a pair for free and lose nothing on the free hand', () => {
+      // 8-8 splits into 8-10 and 8-10; dealer 10-9 beats both
+      const state = play(freeBetTable(['8', '8', '10', '9']), bet, { type: 'lockBets' }, { type: 'split' }, { type: 'stand' }, { type: 'stand' });
+
+      expect(state.history[0].results.map(result => result.bet)).toEqual([100, 0]);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 100);
+    });
+
+    it('should charge for splitting tens', () => {
+      const state = play(freeBetTable(['K', 'K', '10', '7']), bet, { type: 'lockBets' }, { type: 'split' });
+      expect(state.playerSeats.seat1.hands.map(hand => hand.freeBet)).toEqual([undefined, undefined]);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE - 200);
+    });
+  });
+
+  describe('Double Exposure', () => {
+    const doubleExposureTable = (ranks: string[]): GameState => ({
+      ...stackedTable(ranks),
+      rules: createTableRules({ variant: 'doubleExposure', blackjackPayout: '1:1' }),
+    });
+    const bet: EngineAction = { type: 'placeBet', seatId: 'seat1', amount: 100 };
+
+    it('should deal both dealer cards face up and skip insurance', () => {
+      const state = play(doubleExposureTable(['10', '9', 'A', '6']), bet, { type: 'lockBets' });
+      expect(state.phase).toBe('playerTurns');
+      expect(state.dealerHand.map(card => card.faceUp)).toEqual([true, true]);
+    });
+
+    it('should lose a tie to the dealer', () => {
+      // 10-8 against dealer 10-8
+      const state = play(doubleExposureTable(['10', '8', '10', '8']), bet, { type: 'lockBets' }, { type: 'stand' });
+      expect(state.history[0].results[0]).toMatchObject({ outcome: 'loss', payout: 0 });
+    });
+
+    it('should pay a blackjack even money, even against a dealer blackjack', () => {
+      const state = play(doubleExposureTable(['A', 'K', 'A', 'Q']), bet, { type: 'lockBets' });
+      expect(state.history[0].results[0]).toMatchObject({ outcome: 'blackjack', payout: 200 });
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 100);
+    });
+  });
+
+  describe('player decisions', () => {
+    it('should reject decisions outside the player turns', () => {
+      const { state, events } = gameReducer(createGameState(), { type: 'hit' });
+      expect(state.phase).toBe('idle');
+      expect(state.message).toBe('Cannot hit during idle');
+      expect(events).toEqual([
+        { type: 'rejected', error: { code: 'WRONG_PHASE', action: 'hit', phase: 'idle', reason: 'Cannot hit during idle' } },
+      ]);
+    });
+
+    it('should reject a double the seat cannot afford', () => {
+      let state = play(stackedTable(['6', '5', '10', '7']), { type: 'placeBet', seatId: 'seat1', amount: 100 }, { type: 'lockBets' });
+      state = { ...state, playerSeats: { ...state.playerSeats, seat1: { ...state.playerSeats.seat1, balance: 50 } } };
+
+      const result = gameReducer(state, { type: 'double' });
+      expect(result.state.playerSeats.seat1.hands[0].isDouble).toBe(false);
+      expect(result.events[0]).toMatchObject({ type: 'rejected', error: { code: 'INVALID_MOVE', action: 'double' } });
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear the table into the discard tray and keep bankrolls', () => {
+      const settled = play(stackedTable(['10', '9', '10', '7']), { type: 'placeBet', seatId: 'seat1', amount: 100 }, { type: 'lockBets' }, { type: 'stand' });
+      const { state } = gameReducer(settled, { type: 'reset' });
+      expect(state.phase).toBe('bettingOpen');
+      expect(state.dealerHand).toEqual([]);
+      expect(state.roundEvents).toEqual([]);
+      expect(state.shoe.discardTray).toHaveLength(4);
+      expect(state.playerSeats.seat1.balance).toBe(INITIAL_BALANCE + 100);
+      expect(state.playerSeats.seat1.active).toBe(false);
+    });
+  });
+});
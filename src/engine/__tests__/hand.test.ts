@@ -9,7 +9,9 @@ import {
   splitHand,
   doubleDownHand,
   compareHands,
+  canSurrender,
 } from '../hand';
+import { createTableRules } from '../rules';
 import type { Card, Hand, Rank, Suit } from '../../types';
 
 const createCard = (rank: string, suit: string = '♠'): Card => ({
@@ -452,5 +454,104 @@ describe('Hand Functions', () => {
 
       expect(compareHands(playerHand, [createCard('9'), createCard('9')])).toBe('push');
     });
+
+    describe('Spanish 21', () => {
+      const spanish21 = createTableRules({ variant: 'spanish21' });
+      const standing = (...ranks: string[]): Hand => ({
+        cards: ranks.map(rank => createCard(rank)),
+        bet: 10,
+        status: 'stand',
+        isDouble: false,
+        isSplit: false,
+      });
+
+      it('should pay a player 21 against a dealer 21', () => {
+        expect(compareHands(standing('7', '7', '7'), [createCard('K'), createCard('5'), createCard('6')], spanish21)).toBe('win');
+        expect(compareHands(standing('7', '7', '7'), [createCard('K'), createCard('5'), createCard('6')])).toBe('push');
+      });
+
+      it('should let a player blackjack beat a dealer blackjack', () => {
+        expect(compareHands(standing('A', 'K'), [createCard('A'), createCard('Q')], spanish21)).toBe('blackjack');
+      });
+
+      it('should still lose a multi-card 21 to a dealer blackjack', () => {
+        expect(compareHands(standing('7', '7', '7'), [createCard('A'), createCard('Q')], spanish21)).toBe('loss');
+      });
+    });
+
+    describe('Blackjack Switch', () => {
+      const blackjackSwitch = createTableRules({ variant: 'switch', blackjackPayout: '1:1' });
+      const dealer22 = [createCard('K'), createCard('6'), createCard('6')];
+      const hand = (...ranks: string[]): Hand => ({
+        cards: ranks.map(rank => createCard(rank)),
+        bet: 10,
+        status: 'stand',
+        isDouble: false,
+        isSplit: false,
+      });
+
+      it('should push a dealer 22 against every standing hand but blackjack', () => {
+        expect(compareHands(hand('K', '9'), dealer22, blackjackSwitch)).toBe('push');
+        expect(compareHands(hand('K', '4'), dealer22, blackjackSwitch)).toBe('push');
+        expect(compareHands(hand('A', 'K'), dealer22, blackjackSwitch)).toBe('blackjack');
+        expect(compareHands(hand('K', '4'), dealer22)).toBe('win');
+      });
+
+      it('should still lose a busted hand and win on other dealer busts', () => {
+        expect(compareHands(hand('K', '6', '9'), dealer22, blackjackSwitch)).toBe('loss');
+        expect(compareHands(hand('K', '4'), [createCard('K'), createCard('6'), createCard('7')], blackjackSwitch)).toBe('win');
+      });
+
+      it('should push a dealer 22 in Free Bet Blackjack too', () => {
+        const freeBet = createTableRules({ variant: 'freeBet' });
+        expect(compareHands(hand('K', '9'), dealer22, freeBet)).toBe('push');
+        expect(compareHands(hand('A', 'K'), dealer22, freeBet)).toBe('blackjack');
+      });
+    });
+
+    describe('Double Exposure', () => {
+      const doubleExposure = createTableRules({ variant: 'doubleExposure', blackjackPayout: '1:1' });
+      const cardsOf = (...ranks: string[]) => ranks.map(rank => createCard(rank));
+
+      it('should lose ties', () => {
+        expect(compareHands(cardsOf('K', '8'), cardsOf('10', '8'), doubleExposure)).toBe('loss');
+        expect(compareHands(cardsOf('7', '4', 'K'), cardsOf('10', '5', '6'), doubleExposure)).toBe('loss');
+        expect(compareHands(cardsOf('K', '8'), cardsOf('10', '8'))).toBe('push');
+      });
+
+      it('should let a player blackjack win, even against a dealer blackjack', () => {
+        expect(compareHands(cardsOf('A', 'K'), cardsOf('A', 'Q'), doubleExposure)).toBe('blackjack');
+        expect(compareHands(cardsOf('A', 'K'), cardsOf('10', '9'), doubleExposure)).toBe('blackjack');
+      });
+
+      it('should still pay wins and dealer busts', () => {
+        expect(compareHands(cardsOf('K', '9'), cardsOf('10', '8'), doubleExposure)).toBe('win');
+        expect(compareHands(cardsOf('K', '4'), cardsOf('10', '6', '8'), doubleExposure)).toBe('win');
+      });
+    });
+  });
+
+  describe('Spanish 21 doubling', () => {
+    const spanish21 = createTableRules({ variant: 'spanish21' });
+    const doubled = (doubles: number): Hand => ({
+      ...createHand(10 * 2 ** doubles),
+      cards: [createCard('2'), createCard('3'), createCard('4')],
+      isDouble: true,
+      doubleCount: doubles,
+    });
+
+    it('should re-double up to three times', () => {
+      expect(canDouble(doubled(1), spanish21)).toBe(true);
+      expect(canDouble(doubled(2), spanish21)).toBe(true);
+      expect(canDouble(doubled(3), spanish21)).toBe(false);
+      expect(canDouble(doubled(1), true)).toBe(false);
+      expect(doubleDownHand(doubled(1), spanish21)).toMatchObject({ bet: 40, doubleCount: 2 });
+    });
+
+    it('should rescue a doubled hand still in play', () => {
+      expect(canSurrender(doubled(1), 1, spanish21)).toBe(true);
+      expect(canSurrender({ ...doubled(1), status: 'stand' }, 1, spanish21)).toBe(false);
+      expect(canSurrender(doubled(1), 1, createTableRules({ surrender: 'late' }))).toBe(false);
+    });
   });
 });
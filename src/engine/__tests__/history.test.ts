@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDealOrder,
+  createHandResults,
+  appendRoundRecord,
+  replayRound,
+  describeRoundEvent,
+  MAX_HISTORY_ROUNDS,
+} from '../history';
+import { createHand, addCardToHand } from '../hand';
+import { DEALER_ID } from '../roundProof';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, PlayerSeat, RoundEvent, RoundRecord, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠', faceUp: boolean = true): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp,
+});
+
+const deal = (recipient: string, rank: string, handIndex: number = 0, faceUp: boolean = true): RoundEvent => ({
+  type: 'deal',
+  recipient,
+  handIndex,
+  card: createCard(rank, '♠', faceUp),
+});
+
+const act = (type: 'hit' | 'stand' | 'double' | 'split' | 'surrender' | 'switch', handIndex: number = 0): RoundEvent => ({
+  type: 'action',
+  action: { type, seatId: 'seat1', handIndex },
+});
+
+const createRecord = (events: RoundEvent[], round: number = 1): RoundRecord => ({
+  round,
+  timestamp: 0,
+  rules: DEFAULT_TABLE_RULES,
+  bets: [{ seatId: 'seat1', amount: 100 }],
+  events,
+  dealerCards: [],
+  results: [],
+  insuranceBets: {},
+  insurancePayout: 0,
+  totalPayout: 0,
+  sideBetPayout: 0,
+  proof: null,
+});
+
+const openingDeal = (first: string, second: string): RoundEvent[] => [
+  deal('seat1', first),
+  deal('seat1', second),
+  deal(DEALER_ID, '10'),
+  deal(DEALER_ID, '7', 0, false),
+];
+
+describe('Round History', () => {
+  describe('getDealOrder', () => {
+    it('should list card recipients and skip other events', () => {
+      const events = [...openingDeal('5', '6'), act('hit'), deal('seat1', '9'), { type: 'reveal' } as RoundEvent];
+      expect(getDealOrder(events)).toEqual(['seat1', 'seat1', DEALER_ID, DEALER_ID, 'seat1']);
+    });
+  });
+
+  describe('createHandResults', () => {
+    it('should settle every hand of active seats', () => {
+      const seat: PlayerSeat = {
+        id: 'seat1',
+        hands: [addCardToHand(addCardToHand(createHand(100), createCard('K')), createCard('9'))],
+        active: true,
+        currentHandIndex: 0,
+        balance: 0,
+      };
+      const idle: PlayerSeat = { ...seat, id: 'seat2', active: false };
+      const dealer = [createCard('10'), createCard('7')];
+
+      const results = createHandResults({ seat1: seat, seat2: idle }, dealer, DEFAULT_TABLE_RULES, 42);
+      expect(results).toEqual([{ seatId: 'seat1', handIndex: 0, bet: 100, payout: 200, outcome: 'win', timestamp: 42 }]);
+    });
+  });
+
+  describe('appendRoundRecord', () => {
+    it('should keep only the most recent rounds', () => {
+      let history: RoundRecord[] = [];
+      for (let round = 1; round <= MAX_HISTORY_ROUNDS + 5; round++) {
+        history = appendRoundRecord(history, createRecord([], round));
+      }
+      expect(history).toHaveLength(MAX_HISTORY_ROUNDS);
+      expect(history[0].round).toBe(6);
+      expect(history[history.length - 1].round).toBe(MAX_HISTORY_ROUNDS + 5);
+    });
+  });
+
+  describe('replayRound', () => {
+    it('should start from the opening bets', () => {
+      const frame = replayRound(createRecord(openingDeal('5', '6')), 0);
+      expect(frame.dealerCards).toEqual([]);
+      expect(frame.seats.seat1).toEqual([createHand(100)]);
+      expect(frame.event).toBeNull();
+    });
+
+    it('should rebuild the opening deal with the hole card face down', () => {
+      const frame = replayRound(createRecord(openingDeal('5', '6')), 4);
+      expect(frame.seats.seat1[0].cards.map(card => card.rank)).toEqual(['5', '6']);
+      expect(frame.dealerCards.map(card => card.faceUp)).toEqual([true, false]);
+    });
+
+    it('should apply doubles with their single card', () => {
+      const record = createRecord([...openingDeal('5', '6'), act('double'), deal('seat1', '9')]);
+      const [hand] = replayRound(record, record.events.length).seats.seat1;
+      expect(hand.bet).toBe(200);
+      expect(hand.isDouble).toBe(true);
+      expect(hand.status).toBe('stand');
+      expect(hand.cards).toHaveLength(3);
+    });
+
+    it('should keep a Spanish 21 double open for a re-double', () => {
+      const record = {
+        ...createRecord([...openingDeal('5', '6'), act('double'), deal('seat1', '2'), act('double'), deal('seat1', '3'), act('stand')]),
+        rules: createTableRules({ variant: 'spanish21' }),
+      };
+
+      const [redoubled] = replayRound(record, 6).seats.seat1;
+      expect(redoubled).toMatchObject({ bet: 200, status: 'playing', canHit: false });
+
+      const [hand] = replayRound(record, record.events.length).seats.seat1;
+      expect(hand).toMatchObject({ bet: 400, doubleCount: 2, status: 'stand' });
+      expect(hand.cards).toHaveLength(4);
+    });
+
+    it('should replay a Spanish 21 rescue', () => {
+      const record = {
+        ...createRecord([...openingDeal('5', '6'), act('double'), deal('seat1', '3'), act('surrender')]),
+        rules: createTableRules({ variant: 'spanish21' }),
+      };
+      const [hand] = replayRound(record, record.events.length).seats.seat1;
+      expect(hand).toMatchObject({ bet: 200, isDouble: true, status: 'surrendered' });
+    });
+
+    it('should split a pair into two hands', () => {
+      const record = createRecord([
+        ...openingDeal('8', '8'),
+        act('split'),
+        deal('seat1', '3', 0),
+        deal('seat1', 'K', 1),
+        act('stand', 0),
+      ]);
+      const hands = replayRound(record, record.events.length).seats.seat1;
+      expect(hands.map(hand => hand.cards.map(card => card.rank))).toEqual([['8', '3'], ['8', 'K']]);
+      expect(hands.map(hand => hand.bet)).toEqual([100, 100]);
+      expect(hands[0].status).toBe('stand');
+    });
+
+    it('should deal two hands and switch their second cards in Blackjack Switch', () => {
+      const record = {
+        ...createRecord([
+          deal('seat1', '9', 0),
+          deal('seat1', '6', 0),
+          deal('seat1', '5', 1),
+          deal('seat1', 'K', 1),
+          act('switch'),
+        ]),
+        rules: createTableRules({ variant: 'switch', blackjackPayout: '1:1' }),
+      };
+      expect(replayRound(record, 0).seats.seat1).toEqual([createHand(100), createHand(100)]);
+
+      const hands = replayRound(record, record.events.length).seats.seat1;
+      expect(hands.map(hand => hand.cards.map(card => card.rank))).toEqual([['9', 'K'], ['5', '6']]);
+      expect(describeRoundEvent(act('switch'))).toBe('seat1 switches the second cards');
+    });
+
+    it('should reveal the hole card and replay dealer decisions', () => {
+      const decision = { action: 'stand' as const, handValue: 17, isSoft: false, reason: 'Hard 17' };
+      const record = createRecord([...openingDeal('K', '9'), act('stand'), { type: 'reveal' }, { type: 'dealer', decision }]);
+      const frame = replayRound(record, record.events.length);
+      expect(frame.dealerCards.every(card => card.faceUp)).toBe(true);
+      expect(frame.dealerDecisions).toEqual([decision]);
+    });
+
+    it('should clamp the step to the recorded events', () => {
+      const record = createRecord(openingDeal('5', '6'));
+      expect(replayRound(record, 99)).toEqual(replayRound(record, 4));
+      expect(replayRound(record, -1)).toEqual(replayRound(record, 0));
+    });
+  });
+
+  describe('describeRoundEvent', () => {
+    it('should describe deals, actions and reveals', () => {
+      expect(describeRoundEvent(deal('seat1', 'A'))).toBe('seat1 hand 1 receives A♠');
+      expect(describeRoundEvent(deal(DEALER_ID, '7', 0, false))).toBe('Dealer receives a face-down card');
+      expect(describeRoundEvent(act('double'))).toBe('seat1 doubles down');
+      expect(describeRoundEvent({ type: 'reveal' })).toBe('Dealer reveals the hole card');
+    });
+  });
+});
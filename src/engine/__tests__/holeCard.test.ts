@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dealsHoleCard,
+  shouldPeekForBlackjack,
+  peekForBlackjack,
+  getOriginalBet,
+  calculateNoHoleCardRefund,
+} from '../holeCard';
+import { createHand, addCardToHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Hand, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠', faceUp: boolean = true): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp,
+});
+
+const handOf = (ranks: string[], bet: number = 100, overrides: Partial<Hand> = {}): Hand => ({
+  ...ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(bet)),
+  ...overrides,
+});
+
+describe('Dealer Hole Card', () => {
+  const enhcOriginalBetsOnly = createTableRules({ holeCard: 'enhc', noHoleCardLoss: 'originalBetsOnly' });
+  const enhcLoseAll = createTableRules({ holeCard: 'enhc', noHoleCardLoss: 'all' });
+  const dealerBlackjack = [createCard('A'), createCard('K')];
+
+  describe('dealsHoleCard', () => {
+    it('should deal a hole card under peek rules', () => {
+      expect(dealsHoleCard(DEFAULT_TABLE_RULES)).toBe(true);
+    });
+
+    it('should not deal a hole card under ENHC', () => {
+      expect(dealsHoleCard(enhcOriginalBetsOnly)).toBe(false);
+    });
+  });
+
+  describe('shouldPeekForBlackjack', () => {
+    it('should peek when the upcard is an Ace', () => {
+      expect(shouldPeekForBlackjack(createCard('A'), DEFAULT_TABLE_RULES)).toBe(true);
+    });
+
+    it('should peek when the upcard is ten-valued', () => {
+      ['10', 'J', 'Q', 'K'].forEach(rank => {
+        expect(shouldPeekForBlackjack(createCard(rank), DEFAULT_TABLE_RULES)).toBe(true);
+      });
+    });
+
+    it('should not peek on other upcards', () => {
+      ['2', '5', '9'].forEach(rank => {
+        expect(shouldPeekForBlackjack(createCard(rank), DEFAULT_TABLE_RULES)).toBe(false);
+      });
+    });
+
+    it('should never peek under ENHC', () => {
+      expect(shouldPeekForBlackjack(createCard('A'), enhcOriginalBetsOnly)).toBe(false);
+    });
+  });
+
+  describe('peekForBlackjack', () => {
+    it('should find a dealer blackjack with the hole card face down', () => {
+      expect(peekForBlackjack([createCard('A'), createCard('Q', '♥', false)], DEFAULT_TABLE_RULES)).toBe(true);
+      expect(peekForBlackjack([createCard('10'), createCard('A', '♥', false)], DEFAULT_TABLE_RULES)).toBe(true);
+    });
+
+    it('should return false without blackjack', () => {
+      expect(peekForBlackjack([createCard('A'), createCard('9', '♥', false)], DEFAULT_TABLE_RULES)).toBe(false);
+    });
+
+    it('should return false when the dealer has no hole card', () => {
+      expect(peekForBlackjack([createCard('A')], DEFAULT_TABLE_RULES)).toBe(false);
+      expect(peekForBlackjack(dealerBlackjack, enhcOriginalBetsOnly)).toBe(false);
+    });
+  });
+
+  describe('getOriginalBet', () => {
+    it('should return the bet for undoubled hands', () => {
+      expect(getOriginalBet(createHand(100))).toBe(100);
+    });
+
+    it('should exclude the doubled portion', () => {
+      expect(getOriginalBet({ ...createHand(200), isDouble: true })).toBe(100);
+    });
+  });
+
+  describe('calculateNoHoleCardRefund', () => {
+    it('should refund the double stake under original bets only', () => {
+      const doubled = handOf(['6', '5', '9'], 200, { isDouble: true, status: 'stand' });
+      expect(calculateNoHoleCardRefund([doubled], dealerBlackjack, enhcOriginalBetsOnly)).toBe(100);
+    });
+
+    it('should refund split stakes under original bets only', () => {
+      const hand1 = handOf(['8', '3'], 100, { isSplit: true, status: 'stand' });
+      const hand2 = handOf(['8', '10'], 100, { isSplit: true, status: 'stand' });
+      expect(calculateNoHoleCardRefund([hand1, hand2], dealerBlackjack, enhcOriginalBetsOnly)).toBe(100);
+    });
+
+    it('should refund split and double stakes together', () => {
+      const hand1 = handOf(['8', '3', '10'], 200, { isSplit: true, isDouble: true, status: 'stand' });
+      const hand2 = handOf(['8', '10'], 100, { isSplit: true, status: 'stand' });
+      expect(calculateNoHoleCardRefund([hand1, hand2], dealerBlackjack, enhcOriginalBetsOnly)).toBe(200);
+    });
+
+    it('should refund nothing under lose all', () => {
+      const doubled = handOf(['6', '5', '9'], 200, { isDouble: true, status: 'stand' });
+      expect(calculateNoHoleCardRefund([doubled], dealerBlackjack, enhcLoseAll)).toBe(0);
+    });
+
+    it('should refund nothing when the dealer has no blackjack', () => {
+      const doubled = handOf(['6', '5', '9'], 200, { isDouble: true, status: 'stand' });
+      const dealer21 = [createCard('A'), createCard('5'), createCard('5')];
+      expect(calculateNoHoleCardRefund([doubled], dealer21, enhcOriginalBetsOnly)).toBe(0);
+    });
+
+    it('should refund nothing under peek rules', () => {
+      const doubled = handOf(['6', '5', '9'], 200, { isDouble: true, status: 'stand' });
+      expect(calculateNoHoleCardRefund([doubled], dealerBlackjack, DEFAULT_TABLE_RULES)).toBe(0);
+    });
+
+    it('should ignore a player blackjack push', () => {
+      const natural = handOf(['A', 'Q'], 100, { status: 'stand' });
+      expect(calculateNoHoleCardRefund([natural], dealerBlackjack, enhcOriginalBetsOnly)).toBe(0);
+    });
+  });
+});
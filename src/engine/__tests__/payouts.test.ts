@@ -6,8 +6,11 @@ import {
   validateBet,
   validateDoubleDown,
   calculateTotalBet,
+  calculateSurrenderRefund,
 } from '../payouts';
 import { createHand } from '../hand';
+import { createTableRules } from '../rules';
+import type { Card, Rank } from '../../types';
 
 describe('Payout Calculations', () => {
   describe('calculatePayout', () => {
@@ -83,6 +86,42 @@ describe('Payout Calculations', () => {
     });
   });
 
+  describe('Spanish 21', () => {
+    const spanish21 = createTableRules({ variant: 'spanish21' });
+    const cardsOf = (...ranks: string[]): Card[] => ranks.map(rank => ({ rank: rank as Rank, suit: '♦', faceUp: true }));
+
+    it('should pay the bonus on a winning bonus 21', () => {
+      const hand = { ...createHand(100), cards: cardsOf('2', '3', '4', '5', '7') };
+      expect(calculatePayout(hand, 'win', spanish21)).toBe(250);
+      expect(calculatePayout(hand, 'win')).toBe(200);
+    });
+
+    it('should return the doubled stake of a rescued hand', () => {
+      const once = { ...createHand(200), isDouble: true, doubleCount: 1 };
+      const twice = { ...createHand(400), isDouble: true, doubleCount: 2 };
+      expect(calculateSurrenderRefund(once)).toBe(100);
+      expect(calculateSurrenderRefund(twice)).toBe(300);
+      expect(calculateSurrenderRefund(createHand(100))).toBe(50);
+    });
+  });
+
+  describe('Free Bet Blackjack', () => {
+    it('should pay on a free stake without returning it', () => {
+      // $100 hand with a free double
+      const hand = { ...createHand(200), isDouble: true, freeBet: 100 };
+      expect(calculatePayout(hand, 'win')).toBe(300);
+      expect(calculatePayout(hand, 'push')).toBe(100);
+      expect(calculatePayout(hand, 'loss')).toBe(0);
+      expect(calculateProfit(hand, 300)).toBe(200);
+    });
+
+    it('should cost nothing to lose a hand staked entirely by the house', () => {
+      const hand = { ...createHand(100), isSplit: true, freeBet: 100 };
+      expect(calculatePayout(hand, 'win')).toBe(100);
+      expect(calculateProfit(hand, calculatePayout(hand, 'loss'))).toBe(0);
+    });
+  });
+
   describe('calculateInsurancePayout', () => {
     it('should pay 2:1 when dealer has blackjack', () => {
       const insuranceBet = 50;
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { PHASE_TRANSITIONS, checkAction, isLegalTransition, getPhaseActions } from '../phases';
+import { gameReducer, advanceGame, createGameState, type EngineAction, type EngineEvent } from '../game';
+import { createShoeState } from '../shoe';
+import { DEFAULT_TABLE_RULES } from '../rules';
+import type { Card, GamePhase, GameState, Rank } from '../../types';
+
+const createCard = (rank: string): Card => ({ rank: rank as Rank, suit: '♠', faceUp: true });
+
+const readyTable = (ranks: string[]): GameState => ({
+  ...createGameState(),
+  deck: [...ranks, ...Array(40).fill('10')].map(createCard),
+  shoe: { ...createShoeState(DEFAULT_TABLE_RULES), size: 312 },
+});
+
+const withPhase = (phase: GamePhase, update: Partial<GameState> = {}): GameState => ({
+  ...createGameState(),
+  phase,
+  ...update,
+});
+
+describe('Phase Transitions', () => {
+  describe('PHASE_TRANSITIONS', () => {
+    it('should only lead to phases that accept an action', () => {
+      for (const transition of Object.values(PHASE_TRANSITIONS)) {
+        for (const phase of transition.to) {
+          expect(phase === 'complete' || getPhaseActions(phase).length > 0).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('checkAction', () => {
+    it('should reject hitting during the dealer turn', () => {
+      expect(checkAction(withPhase('dealerTurn'), { type: 'hit' })).toEqual({
+        code: 'WRONG_PHASE',
+        action: 'hit',
+        phase: 'dealerTurn',
+        reason: 'Cannot hit during dealerTurn',
+      });
+    });
+
+    it('should run the guard once the phase allows the action', () => {
+      const error = checkAction(withPhase('playerTurns'), { type: 'stand' });
+      expect(error).toMatchObject({ code: 'GUARD_FAILED', reason: 'No hand is waiting for a decision' });
+      expect(checkAction(withPhase('playerTurns', { activeSeatId: 'seat1' }), { type: 'stand' })).toBeNull();
+    });
+
+    it('should not lock bets without a bet on the table', () => {
+      expect(checkAction(readyTable([]), { type: 'lockBets' })).toMatchObject({
+        code: 'GUARD_FAILED',
+        reason: 'Please place at least one bet',
+      });
+    });
+
+    it('should reject bets for unknown seats', () => {
+      expect(checkAction(createGameState(), { type: 'placeBet', seatId: 'seat9', amount: 100 })).toMatchObject({
+        code: 'GUARD_FAILED',
+        reason: 'Invalid seat',
+      });
+    });
+  });
+
+  describe('isLegalTransition', () => {
+    it('should follow the declared table', () => {
+      expect(isLegalTransition('lockBets', 'bettingOpen', 'bettingLocked')).toBe(true);
+      expect(isLegalTransition('settle', 'settlement', 'complete')).toBe(true);
+      expect(isLegalTransition('hit', 'playerTurns', 'playerTurns')).toBe(true);
+      expect(isLegalTransition('hit', 'dealerTurn', 'settlement')).toBe(false);
+      expect(isLegalTransition('reset', 'complete', 'idle')).toBe(false);
+    });
+  });
+
+  describe('getPhaseActions', () => {
+    it('should list the actions legal in a phase', () => {
+      expect(getPhaseActions('insurance')).toEqual(['insurance', 'declineInsurance']);
+      expect(getPhaseActions('complete')).toEqual(['reset']);
+    });
+  });
+
+  describe('a full round', () => {
+    it('should pass through every declared phase in order', () => {
+      // Player 10-9 stands on 19; dealer 10-7 stands on 17
+      const actions: EngineAction[] = [
+        { type: 'placeBet', seatId: 'seat1', amount: 100 },
+        { type: 'lockBets' },
+        { type: 'stand' },
+      ];
+      const events: EngineEvent[] = [];
+      actions.reduce((state, action) => {
+        const applied = gameReducer(state, action);
+        const advanced = advanceGame(applied.state);
+        events.push(...applied.events, ...advanced.events);
+        return advanced.state;
+      }, readyTable(['10', '9', '10', '7']));
+
+      const transitions = events.flatMap(event => (event.type === 'phase' ? [[event.action, event.from, event.to]] : []));
+      expect(transitions).toEqual([
+        ['placeBet', 'idle', 'bettingOpen'],
+        ['lockBets', 'bettingOpen', 'bettingLocked'],
+        ['deal', 'bettingLocked', 'dealing'],
+        ['completeDeal', 'dealing', 'sideBetEvaluation'],
+        ['checkDealer', 'sideBetEvaluation', 'playerTurns'],
+        ['stand', 'playerTurns', 'dealerTurn'],
+        ['dealerStep', 'dealerTurn', 'settlement'],
+        ['settle', 'settlement', 'complete'],
+      ]);
+      expect(transitions.every(([action, from, to]) => isLegalTransition(action as EngineAction['type'], from as GamePhase, to as GamePhase))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { RULE_PRESETS, estimateHouseEdge, findRulePreset, describeTableRules } from '../presets';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import { simulateRounds } from '../simulation';
+import { hasStrategyModel } from '../strategy';
+
+describe('Rule Presets', () => {
+  describe('estimateHouseEdge', () => {
+    it('should estimate the default six-deck game', () => {
+      expect(estimateHouseEdge(DEFAULT_TABLE_RULES)).toBe(0.004);
+    });
+
+    it('should add the cost of each worse rule', () => {
+      const base = estimateHouseEdge(DEFAULT_TABLE_RULES);
+      expect(estimateHouseEdge(createTableRules({ blackjackPayout: '6:5' }))).toBeCloseTo(base + 0.0139, 10);
+      expect(estimateHouseEdge(createTableRules({ hitOnSoft17: true }))).toBeCloseTo(base + 0.002, 10);
+      expect(estimateHouseEdge(createTableRules({ doubleAfterSplit: false }))).toBeCloseTo(base + 0.0014, 10);
+      expect(estimateHouseEdge(createTableRules({ surrender: 'late' }))).toBeCloseTo(base - 0.0008, 10);
+    });
+
+    it('should treat ENHC with original bets only like a peek game', () => {
+      const enhc = createTableRules({ holeCard: 'enhc' });
+      expect(estimateHouseEdge(enhc)).toBe(estimateHouseEdge(DEFAULT_TABLE_RULES));
+      expect(estimateHouseEdge({ ...enhc, noHoleCardLoss: 'all' })).toBeCloseTo(0.0051, 10);
+    });
+
+    it('should cost more the more decks are shuffled in', () => {
+      const edges = [1, 2, 4, 6, 8, 10].map(deckCount => estimateHouseEdge(createTableRules({ deckCount })));
+      expect(edges).toEqual([...edges].sort((a, b) => a - b));
+    });
+  });
+
+  describe('RULE_PRESETS', () => {
+    it.each(Object.values(RULE_PRESETS))('$name should be a valid rule set', preset => {
+      const rules = createTableRules(preset.rules);
+      expect(preset.houseEdge).toBe(estimateHouseEdge(rules));
+      expect(findRulePreset(rules)?.id).toBe(preset.id);
+    });
+
+    // The simulator plays classic basic strategy, so only presets it can play are checked.
+    // At 200,000 rounds the simulated edge has a standard error of about 0.26%
+    const simulated = Object.values(RULE_PRESETS).filter(preset => hasStrategyModel(createTableRules(preset.rules)));
+
+    it.each(simulated)('$name should be within half a percent of a seeded simulation', preset => {
+      const result = simulateRounds({ rules: createTableRules(preset.rules), rounds: 200000, seed: 7 });
+      expect(Math.abs(result.houseEdge - preset.houseEdge)).toBeLessThan(0.005);
+    });
+
+    it('should rank the presets by their rules', () => {
+      expect(RULE_PRESETS.vegasStrip.houseEdge).toBe(0.004);
+      expect(RULE_PRESETS.atlanticCity.houseEdge).toBe(0.0036);
+      expect(RULE_PRESETS.downtown.houseEdge).toBe(0.0041);
+      expect(RULE_PRESETS.european.houseEdge).toBe(0.0064);
+      expect(RULE_PRESETS.spanish21.houseEdge).toBe(0.0076);
+      expect(RULE_PRESETS.switch.houseEdge).toBe(0.0058);
+      expect(RULE_PRESETS.freeBet.houseEdge).toBe(0.0104);
+      expect(RULE_PRESETS.doubleExposure.houseEdge).toBe(0.0069);
+    });
+  });
+
+  describe('findRulePreset', () => {
+    it('should match the default rules to the Vegas Strip', () => {
+      expect(findRulePreset(DEFAULT_TABLE_RULES)?.id).toBe('vegasStrip');
+    });
+
+    it('should ignore penetration and side bet paytables', () => {
+      const rules = createTableRules({ penetration: 0.5, sideBetPaytables: { twentyOneThree: 'flat9' } });
+      expect(findRulePreset(rules)?.id).toBe('vegasStrip');
+    });
+
+    it('should not match custom rules', () => {
+      expect(findRulePreset(createTableRules({ blackjackPayout: '6:5' }))).toBeUndefined();
+    });
+  });
+
+  describe('describeTableRules', () => {
+    it('should summarize the rules', () => {
+      expect(describeTableRules(createTableRules(RULE_PRESETS.european.rules))).toBe(
+        '6 decks · S17 · DAS · BJ 3:2 · No surrender · No hole card'
+      );
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   generateSeed,
   hashSeed,
@@ -7,6 +7,11 @@ import {
   seededShuffle,
   verifyShuffleWithSeed,
   shuffleCardsWithSeed,
+  generateClientSeed,
+  validateClientSeed,
+  deriveShuffleSeed,
+  ALGORITHM_VERSION,
+  LEGACY_ALGORITHM_VERSION,
 } from '../probablyFair';
 import type { ShuffleProof } from '../probablyFair';
 
@@ -107,7 +112,7 @@ describe('ProbablyFair Implementation', () => {
 
     it('should have correct version', async () => {
       const proof = await generateShuffleProof();
-      expect(proof.version).toBe('PF-VL-1.0-A');
+      expect(proof.version).toBe('PF-VL-1.1-A');
     });
 
     it('should use provided seed', async () => {
@@ -343,6 +348,144 @@ describe('ProbablyFair Implementation', () => {
     });
   });
 
+  describe('Client Seed Mixing', () => {
+    const serverSeed = 'a'.repeat(64);
+    const deck = Array.from({ length: 52 }, (_, i) => i);
+
+    it('should generate 32-character hex client seeds', () => {
+      expect(generateClientSeed()).toMatch(/^[a-f0-9]{32}$/);
+      expect(generateClientSeed()).not.toBe(generateClientSeed());
+    });
+
+    it('should validate client seeds', () => {
+      expect(validateClientSeed('lucky-seven')).toBeNull();
+      expect(validateClientSeed('')).toContain('empty');
+      expect(validateClientSeed('x'.repeat(65))).toContain('at most 64');
+      expect(validateClientSeed('tab\there')).toContain('printable');
+    });
+
+    it('should derive a 64-character hex shuffle seed', async () => {
+      const derived = await deriveShuffleSeed(serverSeed, 'player', 0);
+      expect(derived).toMatch(/^[a-f0-9]{64}$/);
+      expect(derived).not.toBe(serverSeed);
+    });
+
+    it('should match HMAC-SHA256(serverSeed, clientSeed:nonce)', async () => {
+      const encoder = new TextEncoder();
+      const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(serverSeed),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      const expected = Array.from(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode('player:7'))))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+      expect(await deriveShuffleSeed(serverSeed, 'player', 7)).toBe(expected);
+    });
+
+    it('should change with the client seed and the nonce', async () => {
+      const base = await deriveShuffleSeed(serverSeed, 'player', 0);
+      expect(await deriveShuffleSeed(serverSeed, 'player', 1)).not.toBe(base);
+      expect(await deriveShuffleSeed(serverSeed, 'other', 0)).not.toBe(base);
+      expect(await deriveShuffleSeed(serverSeed, 'player', 0)).toBe(base);
+    });
+
+    it('should reject invalid nonces', async () => {
+      await expect(deriveShuffleSeed(serverSeed, 'player', -1)).rejects.toThrow('Nonce');
+      await expect(deriveShuffleSeed(serverSeed, 'player', 1.5)).rejects.toThrow('Nonce');
+    });
+
+    it('should shuffle with the derived seed', async () => {
+      const mixed = await seededShuffle(deck, serverSeed, 'player', 3);
+      const derived = await seededShuffle(deck, await deriveShuffleSeed(serverSeed, 'player', 3));
+      expect(mixed).toEqual(derived);
+      expect(mixed).not.toEqual(await seededShuffle(deck, serverSeed));
+    });
+
+    it('should verify mixed shuffles only with the same client seed and nonce', async () => {
+      const mixed = await seededShuffle(deck, serverSeed, 'player', 3);
+      expect(await verifyShuffleWithSeed(deck, mixed, serverSeed, 'player', 3)).toBe(true);
+      expect(await verifyShuffleWithSeed(deck, mixed, serverSeed, 'player', 4)).toBe(false);
+      expect(await verifyShuffleWithSeed(deck, mixed, serverSeed)).toBe(false);
+    });
+
+    it('should record the client seed and nonce in the proof', async () => {
+      const proof = await generateShuffleProof(serverSeed, 'player', 3);
+      expect(proof.clientSeed).toBe('player');
+      expect(proof.nonce).toBe(3);
+      expect((await verifyShuffleProof(proof)).valid).toBe(true);
+    });
+
+    it('should omit mixing fields from server-only proofs', async () => {
+      const proof = await generateShuffleProof(serverSeed);
+      expect(proof).not.toHaveProperty('clientSeed');
+      expect(proof).not.toHaveProperty('nonce');
+    });
+
+    it('should reject proofs with an invalid nonce', async () => {
+      const proof = await generateShuffleProof(serverSeed, 'player', 3);
+      const result = await verifyShuffleProof({ ...proof, nonce: -2 });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Nonce');
+    });
+  });
+
+  describe('Algorithm Versions', () => {
+    const seed = 'a'.repeat(64);
+    const deck = Array.from({ length: 10 }, (_, i) => i);
+
+    it('should match the PF-VL-1.1-A reference vector', async () => {
+      expect(ALGORITHM_VERSION).toBe('PF-VL-1.1-A');
+      expect(await seededShuffle(deck, seed)).toEqual([6, 5, 7, 2, 3, 0, 4, 9, 8, 1]);
+    });
+
+    it('should still reproduce PF-VL-1.0-A shuffles', async () => {
+      expect(LEGACY_ALGORITHM_VERSION).toBe('PF-VL-1.0-A');
+      expect(await seededShuffle(deck, seed, undefined, 0, LEGACY_ALGORITHM_VERSION)).toEqual([
+        6, 8, 4, 1, 0, 7, 5, 2, 9, 3,
+      ]);
+    });
+
+    it('should use far fewer hashes for a 6-deck shoe', async () => {
+      const digest = vi.spyOn(crypto.subtle, 'digest');
+      try {
+        await seededShuffle(Array.from({ length: 312 }, (_, i) => i), seed);
+        // 311 swaps at 4 bytes each fit in 39 blocks of 32 bytes; allow for rejections
+        expect(digest.mock.calls.length).toBeLessThan(45);
+      } finally {
+        digest.mockRestore();
+      }
+    });
+
+    it('should verify shuffles only under the version they were made with', async () => {
+      const legacy = await seededShuffle(deck, seed, undefined, 0, LEGACY_ALGORITHM_VERSION);
+      expect(await verifyShuffleWithSeed(deck, legacy, seed, undefined, 0, LEGACY_ALGORITHM_VERSION)).toBe(true);
+      expect(await verifyShuffleWithSeed(deck, legacy, seed)).toBe(false);
+    });
+
+    it('should accept legacy proofs', async () => {
+      const proof = { ...(await generateShuffleProof(seed)), version: LEGACY_ALGORITHM_VERSION };
+      const result = await verifyShuffleProof(proof);
+      expect(result.valid).toBe(true);
+      expect(result.details.versionSupported).toBe(true);
+    });
+
+    it('should reject unsupported versions', async () => {
+      await expect(seededShuffle(deck, seed, undefined, 0, 'PF-VL-9.9-Z')).rejects.toThrow('Unsupported version');
+    });
+
+    it('should mix client seeds under both versions', async () => {
+      const current = await seededShuffle(deck, seed, 'player', 0);
+      const legacy = await seededShuffle(deck, seed, 'player', 0, LEGACY_ALGORITHM_VERSION);
+      expect(current).toEqual(await seededShuffle(deck, await deriveShuffleSeed(seed, 'player', 0)));
+      expect(legacy).toEqual(
+        await seededShuffle(deck, await deriveShuffleSeed(seed, 'player', 0), undefined, 0, LEGACY_ALGORITHM_VERSION)
+      );
+    });
+  });
+
   describe('Integration Tests', () => {
     it('should support full shuffle-and-verify workflow', async () => {
       // Setup
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRoundProof,
+  revealRoundProofs,
+  verifyRoundProof,
+  reconstructDeal,
+  exportRoundProof,
+  parseRoundProof,
+  DEALER_ID,
+} from '../roundProof';
+import { createShoeState, shuffleNewShoe, markRoundStart } from '../shoe';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, RoundProof, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠'): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp: true,
+});
+
+const SEED = 'c0ffee'.repeat(10) + 'c0ff';
+const SETTLED_AT = Date.UTC(2026, 0, 1, 12);
+
+describe('Round Proofs', () => {
+  const singleDeck = createTableRules({ deckCount: 1 });
+
+  // Deal six cards from a committed single-deck shoe
+  const playRound = async () => {
+    const { deck, shoe } = await shuffleNewShoe(singleDeck, undefined, { seed: SEED, clientSeed: 'player', nonce: 2 });
+    const started = markRoundStart(deck, shoe);
+    const remaining = deck.slice(6);
+    return { dealt: deck.slice(0, 6), proof: createRoundProof(remaining, started, 1, SETTLED_AT) as RoundProof, shoe };
+  };
+
+  describe('createRoundProof', () => {
+    it('should record the commitment and the cards dealt', async () => {
+      const { proof, shoe } = await playRound();
+      expect(proof.round).toBe(1);
+      expect(proof.shoeNumber).toBe(1);
+      expect(proof.seedHash).toBe(shoe.proof?.seedHash);
+      expect(proof.deckCount).toBe(1);
+      expect(proof.firstCard).toBe(0);
+      expect(proof.lastCard).toBe(6);
+      expect(proof.timestamp).toBe('2026-01-01T12:00:00.000Z');
+    });
+
+    it('should withhold the seed', async () => {
+      const { proof } = await playRound();
+      expect(proof.seed).toBeNull();
+    });
+
+    it('should record the deal order when given', async () => {
+      const { deck, shoe } = await shuffleNewShoe(singleDeck, undefined, { seed: SEED });
+      const dealOrder = ['seat1', 'seat1', DEALER_ID, DEALER_ID];
+      const proof = createRoundProof(deck.slice(4), markRoundStart(deck, shoe), 1, SETTLED_AT, dealOrder);
+      expect(proof?.dealOrder).toEqual(dealOrder);
+    });
+
+    it('should return null for a shoe without a proof', () => {
+      expect(createRoundProof([], createShoeState(DEFAULT_TABLE_RULES), 1, SETTLED_AT)).toBeNull();
+    });
+  });
+
+  describe('revealRoundProofs', () => {
+    it('should reveal the seed on rounds from the retired shoe', async () => {
+      const { proof, shoe } = await playRound();
+      const [revealed] = revealRoundProofs([proof], shoe.proof!);
+      expect(revealed.seed).toBe(SEED);
+    });
+
+    it('should leave rounds from other shoes untouched', async () => {
+      const { proof } = await playRound();
+      const other = await shuffleNewShoe(singleDeck);
+      expect(revealRoundProofs([proof], other.shoe.proof!)[0].seed).toBeNull();
+    });
+  });
+
+  describe('verifyRoundProof', () => {
+    it('should reject a round whose seed is not revealed', async () => {
+      const { proof } = await playRound();
+      const result = await verifyRoundProof(proof);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('not revealed');
+    });
+
+    it('should rebuild the cards dealt in the round', async () => {
+      const { proof, dealt, shoe } = await playRound();
+      const [revealed] = revealRoundProofs([proof], shoe.proof!);
+      const result = await verifyRoundProof(revealed, dealt);
+      expect(result.valid).toBe(true);
+      expect(result.cards).toEqual(dealt);
+    });
+
+    it('should reject a seed that does not match the commitment', async () => {
+      const { proof } = await playRound();
+      const result = await verifyRoundProof({ ...proof, seed: 'ab'.repeat(32) });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Seed hash does not match');
+    });
+
+    it('should reject cards that the shoe did not deal', async () => {
+      const { proof, dealt, shoe } = await playRound();
+      const [revealed] = revealRoundProofs([proof], shoe.proof!);
+      const result = await verifyRoundProof(revealed, [...dealt].reverse());
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('do not match');
+    });
+  });
+
+  describe('reconstructDeal', () => {
+    it('should group cards by recipient in deal order', () => {
+      const cards = ['5', '6', 'K', '9', '10', '2'].map(rank => createCard(rank));
+      const dealOrder = ['seat1', 'seat1', 'seat2', 'seat2', DEALER_ID, 'seat1'];
+      const hands = reconstructDeal(cards, dealOrder);
+      expect(Object.keys(hands)).toEqual(['seat1', 'seat2', DEALER_ID]);
+      expect(hands.seat1.map(card => card.rank)).toEqual(['5', '6', '2']);
+      expect(hands.seat2.map(card => card.rank)).toEqual(['K', '9']);
+      expect(hands[DEALER_ID].map(card => card.rank)).toEqual(['10']);
+    });
+
+    it('should ignore deal order entries past the dealt cards', () => {
+      const hands = reconstructDeal([createCard('A')], ['seat1', DEALER_ID]);
+      expect(hands).toEqual({ seat1: [createCard('A')] });
+    });
+  });
+
+  describe('exportRoundProof / parseRoundProof', () => {
+    it('should round-trip a proof', async () => {
+      const { proof } = await playRound();
+      expect(parseRoundProof(exportRoundProof(proof))).toEqual(proof);
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => parseRoundProof('{ not json')).toThrow('not valid JSON');
+      expect(() => parseRoundProof('42')).toThrow('JSON object');
+    });
+
+    it('should reject missing or mistyped fields', async () => {
+      const { proof } = await playRound();
+      expect(() => parseRoundProof(JSON.stringify({ ...proof, seedHash: undefined }))).toThrow('"seedHash"');
+      expect(() => parseRoundProof(JSON.stringify({ ...proof, firstCard: '0' }))).toThrow('"firstCard"');
+      expect(() => parseRoundProof(JSON.stringify({ ...proof, dealOrder: [1] }))).toThrow('"dealOrder"');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TABLE_RULES,
+  createTableRules,
+  validateTableRules,
+  getBlackjackMultiplier,
+  getReshuffleThreshold,
+  isDoubleTotalAllowed,
+} from '../rules';
+import { canDouble, canSplit, splitHand, doubleDownHand, createHand, addCardToHand } from '../hand';
+import { calculatePayout } from '../payouts';
+import { shouldDealerHit } from '../dealer';
+import type { Card, Hand, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠'): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp: true,
+});
+
+const handOf = (ranks: string[], overrides: Partial<Hand> = {}): Hand => {
+  let hand = createHand(10);
+  for (const rank of ranks) {
+    hand = addCardToHand(hand, createCard(rank));
+  }
+  return { ...hand, ...overrides };
+};
+
+describe('Table Rules', () => {
+  describe('createTableRules', () => {
+    it('should return defaults when no overrides given', () => {
+      expect(createTableRules()).toEqual(DEFAULT_TABLE_RULES);
+    });
+
+    it('should merge overrides onto defaults', () => {
+      const rules = createTableRules({ deckCount: 2, hitOnSoft17: true });
+      expect(rules.deckCount).toBe(2);
+      expect(rules.hitOnSoft17).toBe(true);
+      expect(rules.blackjackPayout).toBe(DEFAULT_TABLE_RULES.blackjackPayout);
+    });
+
+    it('should not mutate the defaults', () => {
+      createTableRules({ deckCount: 8 });
+      expect(DEFAULT_TABLE_RULES.deckCount).toBe(6);
+    });
+
+    it('should throw on invalid rules', () => {
+      expect(() => createTableRules({ deckCount: 0 })).toThrow('Deck count must be a positive integer');
+      expect(() => createTableRules({ penetration: 1 })).toThrow('Penetration');
+    });
+
+    it('should refuse a Blackjack Switch table that pays 3:2', () => {
+      expect(() => createTableRules({ variant: 'switch' })).toThrow('Blackjack Switch pays blackjack 1:1');
+      expect(() => createTableRules({ variant: 'switch', blackjackPayout: '3:2' })).toThrow('Blackjack Switch pays blackjack 1:1');
+      expect(createTableRules({ variant: 'switch', blackjackPayout: '1:1' }).blackjackPayout).toBe('1:1');
+    });
+
+    it('should refuse a Double Exposure table that pays 3:2', () => {
+      expect(() => createTableRules({ variant: 'doubleExposure' })).toThrow('Double Exposure pays blackjack 1:1');
+      expect(() => createTableRules({ variant: 'doubleExposure', blackjackPayout: '3:2' })).toThrow('Double Exposure pays blackjack 1:1');
+      expect(createTableRules({ variant: 'doubleExposure', blackjackPayout: '1:1' }).blackjackPayout).toBe('1:1');
+    });
+  });
+
+  describe('validateTableRules', () => {
+    it('should accept the default rules', () => {
+      expect(validateTableRules(DEFAULT_TABLE_RULES)).toEqual({ valid: true });
+    });
+
+    it('should reject side bet paytables that do not exist', () => {
+      expect(validateTableRules({ ...DEFAULT_TABLE_RULES, sideBetPaytables: { twentyOneThree: 'flat9' } })).toEqual({ valid: true });
+      expect(validateTableRules({ ...DEFAULT_TABLE_RULES, sideBetPaytables: { twentyOneThree: 'flat8' } }).error).toBe(
+        'Unknown paytable for 21+3: flat8'
+      );
+      expect(validateTableRules({ ...DEFAULT_TABLE_RULES, sideBetPaytables: { dragonBonus: 'standard' } }).error).toBe(
+        'Unknown side bet: dragonBonus'
+      );
+    });
+
+    it('should reject invalid split limits', () => {
+      const result = validateTableRules({ ...DEFAULT_TABLE_RULES, maxSplitHands: 0 });
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject unknown blackjack payouts', () => {
+      const result = validateTableRules({
+        ...DEFAULT_TABLE_RULES,
+        blackjackPayout: '2:1' as never,
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('2:1');
+    });
+
+    it('should require even-money blackjack for Blackjack Switch', () => {
+      expect(validateTableRules({ ...DEFAULT_TABLE_RULES, variant: 'switch' }).error).toBe('Blackjack Switch pays blackjack 1:1');
+      expect(validateTableRules({ ...DEFAULT_TABLE_RULES, variant: 'switch', blackjackPayout: '1:1' }).valid).toBe(true);
+    });
+
+    it('should require even-money blackjack and a hole card for Double Exposure', () => {
+      const doubleExposure = { ...DEFAULT_TABLE_RULES, variant: 'doubleExposure' as const, blackjackPayout: '1:1' as const };
+      expect(validateTableRules({ ...doubleExposure, blackjackPayout: '3:2' }).error).toBe('Double Exposure pays blackjack 1:1');
+      expect(validateTableRules({ ...doubleExposure, holeCard: 'enhc' }).error).toBe('Double Exposure deals both dealer cards up front');
+      expect(validateTableRules(doubleExposure).valid).toBe(true);
+    });
+  });
+
+  describe('getBlackjackMultiplier', () => {
+    it('should map payouts to multipliers', () => {
+      expect(getBlackjackMultiplier(createTableRules({ blackjackPayout: '3:2' }))).toBe(1.5);
+      expect(getBlackjackMultiplier(createTableRules({ blackjackPayout: '6:5' }))).toBe(1.2);
+      expect(getBlackjackMultiplier(createTableRules({ blackjackPayout: '1:1' }))).toBe(1);
+    });
+  });
+
+  describe('getReshuffleThreshold', () => {
+    it('should place the cut card by penetration', () => {
+      expect(getReshuffleThreshold(DEFAULT_TABLE_RULES)).toBe(78);
+      expect(getReshuffleThreshold(createTableRules({ deckCount: 1, penetration: 0.5 }))).toBe(26);
+    });
+  });
+
+  describe('isDoubleTotalAllowed', () => {
+    it('should allow any total when unrestricted', () => {
+      expect(isDoubleTotalAllowed(17, true, DEFAULT_TABLE_RULES)).toBe(true);
+    });
+
+    it('should restrict to hard 9-11', () => {
+      const rules = createTableRules({ doubleOn: '9-11' });
+      expect(isDoubleTotalAllowed(9, false, rules)).toBe(true);
+      expect(isDoubleTotalAllowed(11, false, rules)).toBe(true);
+      expect(isDoubleTotalAllowed(8, false, rules)).toBe(false);
+      expect(isDoubleTotalAllowed(12, false, rules)).toBe(false);
+    });
+
+    it('should restrict to hard 10-11 and exclude soft totals', () => {
+      const rules = createTableRules({ doubleOn: '10-11' });
+      expect(isDoubleTotalAllowed(10, false, rules)).toBe(true);
+      expect(isDoubleTotalAllowed(9, false, rules)).toBe(false);
+      expect(isDoubleTotalAllowed(11, true, rules)).toBe(false);
+    });
+  });
+
+  describe('engine functions consuming rules', () => {
+    it('canDouble should honour DAS from rules', () => {
+      const splitHandCards = handOf(['6', '5'], { isSplit: true });
+      expect(canDouble(splitHandCards, createTableRules({ doubleAfterSplit: true }))).toBe(true);
+      expect(canDouble(splitHandCards, createTableRules({ doubleAfterSplit: false }))).toBe(false);
+    });
+
+    it('canDouble should honour the double restriction', () => {
+      const rules = createTableRules({ doubleOn: '10-11' });
+      expect(canDouble(handOf(['6', '5']), rules)).toBe(true);
+      expect(canDouble(handOf(['5', '4']), rules)).toBe(false);
+      expect(canDouble(handOf(['A', '7']), rules)).toBe(false);
+    });
+
+    it('doubleDownHand should throw when rules forbid the double', () => {
+      const rules = createTableRules({ doubleOn: '9-11' });
+      expect(() => doubleDownHand(handOf(['10', '2']), rules)).toThrow('Cannot double down this hand');
+      expect(doubleDownHand(handOf(['5', '4']), rules).bet).toBe(20);
+    });
+
+    it('canSplit should honour split limits from rules', () => {
+      const pair = handOf(['8', '8']);
+      const rules = createTableRules({ maxSplitHands: 2 });
+      expect(canSplit(pair, 1, rules)).toBe(true);
+      expect(canSplit(pair, 2, rules)).toBe(false);
+    });
+
+    it('canSplit should honour re-split Aces from rules', () => {
+      const splitAces = handOf(['A', 'A'], { isSplit: true, splitFromAces: true });
+      expect(canSplit(splitAces, 2, createTableRules({ resplitAces: false }))).toBe(false);
+      expect(canSplit(splitAces, 2, createTableRules({ resplitAces: true }))).toBe(true);
+    });
+
+    it('splitHand should accept rules', () => {
+      const { hand1, hand2 } = splitHand(handOf(['9', '9']), 1, DEFAULT_TABLE_RULES);
+      expect(hand1.cards).toHaveLength(1);
+      expect(hand2.cards).toHaveLength(1);
+      expect(() => splitHand(handOf(['9', '9']), 4, DEFAULT_TABLE_RULES)).toThrow('Cannot split this hand');
+    });
+
+    it('calculatePayout should pay blackjack per rules', () => {
+      const hand = createHand(100);
+      expect(calculatePayout(hand, 'blackjack')).toBe(250);
+      expect(calculatePayout(hand, 'blackjack', createTableRules({ blackjackPayout: '6:5' }))).toBe(220);
+      expect(calculatePayout(hand, 'blackjack', createTableRules({ blackjackPayout: '1:1' }))).toBe(200);
+      expect(calculatePayout(hand, 'win', createTableRules({ blackjackPayout: '6:5' }))).toBe(200);
+    });
+
+    it('shouldDealerHit should accept table rules', () => {
+      const soft17 = [createCard('A'), createCard('6')];
+      expect(shouldDealerHit(soft17, createTableRules({ hitOnSoft17: false }))).toBe(false);
+      expect(shouldDealerHit(soft17, createTableRules({ hitOnSoft17: true }))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createShoeState,
+  shuffleNewShoe,
+  needsShuffle,
+  markRoundStart,
+  updateCutCard,
+  discardCards,
+  reshuffleDiscards,
+  getShoePenetration,
+} from '../shoe';
+import { createShoe } from '../deck';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠', faceUp: boolean = true): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp,
+});
+
+describe('Shoe', () => {
+  describe('createShoeState', () => {
+    it('should size the shoe from the deck count', () => {
+      expect(createShoeState(DEFAULT_TABLE_RULES).size).toBe(312);
+      expect(createShoeState(createTableRules({ deckCount: 2 })).size).toBe(104);
+    });
+
+    it('should place the cut card from the penetration', () => {
+      expect(createShoeState(DEFAULT_TABLE_RULES).cutCardPosition).toBe(78);
+      expect(createShoeState(createTableRules({ deckCount: 1, penetration: 0.5 })).cutCardPosition).toBe(26);
+    });
+
+    it('should start with an empty discard tray', () => {
+      const shoe = createShoeState(DEFAULT_TABLE_RULES);
+      expect(shoe.discardTray).toEqual([]);
+      expect(shoe.cutCardReached).toBe(false);
+      expect(shoe.shuffleCount).toBe(0);
+    });
+  });
+
+  describe('shuffleNewShoe', () => {
+    it('should deal a full shuffled shoe', async () => {
+      const { deck, shoe } = await shuffleNewShoe(DEFAULT_TABLE_RULES);
+      expect(deck).toHaveLength(312);
+      expect(shoe.size).toBe(312);
+    });
+
+    it('should continue the shuffle count', async () => {
+      const first = await shuffleNewShoe(DEFAULT_TABLE_RULES);
+      const second = await shuffleNewShoe(DEFAULT_TABLE_RULES, first.shoe);
+      expect(first.shoe.shuffleCount).toBe(1);
+      expect(second.shoe.shuffleCount).toBe(2);
+    });
+
+    it('should clear the discard tray', async () => {
+      const previous = discardCards(createShoeState(DEFAULT_TABLE_RULES), [createCard('K')]);
+      expect((await shuffleNewShoe(DEFAULT_TABLE_RULES, previous)).shoe.discardTray).toEqual([]);
+    });
+
+    it('should commit to the shuffle seed', async () => {
+      const { shoe } = await shuffleNewShoe(DEFAULT_TABLE_RULES);
+      expect(shoe.proof?.seed).toMatch(/^[a-f0-9]{64}$/);
+      expect(shoe.proof?.seedHash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should produce the same shoe for the same seed', async () => {
+      const seed = 'ab'.repeat(32);
+      const first = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { seed });
+      const second = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { seed });
+      expect(second.deck).toEqual(first.deck);
+      expect(second.shoe.proof?.seedHash).toBe(first.shoe.proof?.seedHash);
+    });
+
+    it('should mix the client seed and nonce into the shoe order', async () => {
+      const seed = 'ab'.repeat(32);
+      const serverOnly = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { seed });
+      const mixed = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { seed, clientSeed: 'player', nonce: 0 });
+      const nextNonce = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { seed, clientSeed: 'player', nonce: 1 });
+      expect(mixed.deck).not.toEqual(serverOnly.deck);
+      expect(nextNonce.deck).not.toEqual(mixed.deck);
+      expect(mixed.shoe.proof?.seedHash).toBe(serverOnly.shoe.proof?.seedHash);
+      expect(mixed.shoe.proof?.clientSeed).toBe('player');
+      expect(mixed.shoe.proof?.nonce).toBe(0);
+    });
+  });
+
+  describe('markRoundStart', () => {
+    it('should record the shoe position of the next round', () => {
+      const shoe = createShoeState(DEFAULT_TABLE_RULES);
+      expect(markRoundStart(createShoe(6), shoe).roundStart).toBe(0);
+      expect(markRoundStart(createShoe(6).slice(0, 300), shoe).roundStart).toBe(12);
+    });
+  });
+
+  describe('needsShuffle', () => {
+    it('should require a shuffle for an empty shoe', () => {
+      expect(needsShuffle([], createShoeState(DEFAULT_TABLE_RULES))).toBe(true);
+    });
+
+    it('should require a shuffle once the cut card is reached', () => {
+      const shoe = { ...createShoeState(DEFAULT_TABLE_RULES), cutCardReached: true };
+      expect(needsShuffle(createShoe(6), shoe)).toBe(true);
+    });
+
+    it('should not require a shuffle mid-shoe', () => {
+      expect(needsShuffle(createShoe(6), createShoeState(DEFAULT_TABLE_RULES))).toBe(false);
+    });
+  });
+
+  describe('updateCutCard', () => {
+    const shoe = createShoeState(DEFAULT_TABLE_RULES);
+
+    it('should leave the shoe unchanged above the cut card', () => {
+      const deck = createShoe(6).slice(0, 100);
+      expect(updateCutCard(deck, shoe)).toBe(shoe);
+    });
+
+    it('should mark the cut card when the shoe is dealt down to it', () => {
+      const deck = createShoe(6).slice(0, 78);
+      expect(updateCutCard(deck, shoe).cutCardReached).toBe(true);
+    });
+
+    it('should stay reached once the cut card is out', () => {
+      const reached = { ...shoe, cutCardReached: true };
+      expect(updateCutCard(createShoe(6), reached).cutCardReached).toBe(true);
+    });
+  });
+
+  describe('discardCards', () => {
+    it('should add cards to the discard tray face up', () => {
+      const shoe = discardCards(createShoeState(DEFAULT_TABLE_RULES), [createCard('K'), createCard('5', '♥', false)]);
+      expect(shoe.discardTray).toHaveLength(2);
+      expect(shoe.discardTray.every(card => card.faceUp)).toBe(true);
+    });
+
+    it('should accumulate across rounds', () => {
+      const first = discardCards(createShoeState(DEFAULT_TABLE_RULES), [createCard('K')]);
+      const second = discardCards(first, [createCard('2'), createCard('3')]);
+      expect(second.discardTray).toHaveLength(3);
+    });
+
+    it('should return the same shoe when nothing is discarded', () => {
+      const shoe = createShoeState(DEFAULT_TABLE_RULES);
+      expect(discardCards(shoe, [])).toBe(shoe);
+    });
+  });
+
+  describe('reshuffleDiscards', () => {
+    it('should refill an empty shoe from the discard tray and retire it', () => {
+      const played = discardCards(createShoeState(DEFAULT_TABLE_RULES), [createCard('K'), createCard('2'), createCard('3')]);
+      const { deck, shoe } = reshuffleDiscards([], played);
+      expect(deck.map(card => card.rank).sort()).toEqual(['2', '3', 'K']);
+      expect(deck.every(card => !card.faceUp)).toBe(true);
+      expect(shoe).toMatchObject({ discardTray: [], cutCardReached: true, proof: null });
+    });
+
+    it('should throw when the discard tray is empty too', () => {
+      expect(() => reshuffleDiscards([], createShoeState(DEFAULT_TABLE_RULES))).toThrow('The shoe and the discard tray are both empty');
+    });
+  });
+
+  describe('getShoePenetration', () => {
+    const shoe = createShoeState(DEFAULT_TABLE_RULES);
+
+    it('should be 0 for a fresh shoe', () => {
+      expect(getShoePenetration(createShoe(6), shoe)).toBe(0);
+    });
+
+    it('should report the dealt fraction', () => {
+      expect(getShoePenetration(createShoe(6).slice(0, 156), shoe)).toBe(0.5);
+    });
+
+    it('should be 1 for an empty shoe', () => {
+      expect(getShoePenetration([], shoe)).toBe(1);
+    });
+  });
+});
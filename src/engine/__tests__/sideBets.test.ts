@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  registerSideBet,
+  getSideBetDefinition,
+  getSideBetDefinitions,
+  getSideBetPaytable,
+  isSideBetOffered,
+  isSideBetSettledAt,
+  evaluateSideBet,
+  calculateSideBetPayout,
+} from '../sideBets';
+import { createHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Rank, Suit } from '../../types';
+
+// Cards written as rank + suit letter, e.g. 'Qh' or '10s'
+const SUITS: Record<string, Suit> = { s: '♠', h: '♥', d: '♦', c: '♣' };
+const card = (code: string): Card => ({
+  rank: code.slice(0, -1) as Rank,
+  suit: SUITS[code.slice(-1)],
+  faceUp: true,
+});
+const cards = (...codes: string[]) => codes.map(card);
+
+const outcomeOf = (type: string, player: string[], dealer: string[] = [], paytableId?: string) =>
+  evaluateSideBet({ type, amount: 10 }, cards(...player), cards(...dealer), paytableId);
+
+describe('Side Bets', () => {
+  describe('registry', () => {
+    it('should ship the built-in side bets', () => {
+      expect(getSideBetDefinitions().map(definition => definition.type)).toEqual(
+        expect.arrayContaining(['twentyOneThree', 'perfectPairs', 'luckyLadies', 'busterBlackjack', 'royalMatch'])
+      );
+    });
+
+    it('should accept new side bets', () => {
+      registerSideBet({
+        type: 'testAnyPair',
+        name: 'Any Pair',
+        description: 'Your first two cards are a pair',
+        cardsNeeded: { player: 2, dealer: 'none' },
+        paytables: [{ id: 'standard', name: 'Standard', payouts: [{ outcome: 'pair', label: 'Pair', pays: 11 }] }],
+        evaluate: ([first, second]) => (first.rank === second.rank ? 'pair' : null),
+      });
+
+      expect(getSideBetDefinition('testAnyPair')?.name).toBe('Any Pair');
+      expect(outcomeOf('testAnyPair', ['4s', '4d'])).toMatchObject({ result: 'win', payout: 110 });
+    });
+
+    it('should refuse to evaluate an unknown side bet', () => {
+      expect(() => outcomeOf('nope', ['4s', '4d'])).toThrow('Unknown side bet: nope');
+    });
+
+    it('should default to the first paytable', () => {
+      const definition = getSideBetDefinition('twentyOneThree')!;
+      expect(getSideBetPaytable(definition)?.id).toBe('fiveTier');
+      expect(getSideBetPaytable(definition, 'flat9')?.name).toBe('Flat 9:1');
+      expect(getSideBetPaytable(definition, 'nope')).toBeUndefined();
+    });
+
+    it('should refuse a paytable the bet does not have', () => {
+      expect(() => outcomeOf('perfectPairs', ['4s', '4d'], [], 'flat9')).toThrow('Unknown paytable for Perfect Pairs: flat9');
+    });
+
+    it('should settle bets when their cards are known', () => {
+      const at = (type: string) => ['deal', 'dealer'].filter(stage =>
+        isSideBetSettledAt(getSideBetDefinition(type)!, stage as 'deal' | 'dealer')
+      );
+      expect(at('twentyOneThree')).toEqual(['deal']);
+      expect(at('perfectPairs')).toEqual(['deal']);
+      expect(at('luckyLadies')).toEqual(['dealer']);
+      expect(at('busterBlackjack')).toEqual(['dealer']);
+    });
+  });
+
+  describe('21+3', () => {
+    it.each([
+      [['7h', '7h'], '7h', 'suitedTrips', 1000],
+      [['9s', '10s'], 'Js', 'straightFlush', 400],
+      [['Qd', 'Kd'], 'Ad', 'straightFlush', 400],
+      [['7h', '7c'], '7h', 'threeOfAKind', 300],
+      [['Ac', '2h'], '3s', 'straight', 100],
+      [['2h', '8h'], 'Kh', 'flush', 50],
+    ])('%s with %s should pay %s on the 5-tier paytable', (player, upCard, outcome, payout) => {
+      expect(outcomeOf('twentyOneThree', player, [upCard, '10c'])).toMatchObject({ result: 'win', outcome, payout });
+    });
+
+    it('should pay every hand 9:1 on the flat paytable', () => {
+      expect(outcomeOf('twentyOneThree', ['7h', '7h'], ['7h'], 'flat9')).toMatchObject({ outcome: 'suitedTrips', payout: 90 });
+      expect(outcomeOf('twentyOneThree', ['2h', '8h'], ['Kh'], 'flat9')).toMatchObject({ outcome: 'flush', payout: 90 });
+    });
+
+    it('should not pay a pair', () => {
+      expect(outcomeOf('twentyOneThree', ['5c', '5h'], ['9s'])).toMatchObject({ result: 'loss' });
+    });
+
+    it('should only use the dealer upcard', () => {
+      expect(outcomeOf('twentyOneThree', ['2h', '9c'], ['Kd', '9s'])).toMatchObject({ result: 'loss', payout: 0 });
+    });
+
+    it('should not wrap a straight around the Ace', () => {
+      expect(outcomeOf('twentyOneThree', ['Kh', 'Ac'], ['2d'])).toMatchObject({ result: 'loss' });
+    });
+  });
+
+  describe('calculateSideBetPayout', () => {
+    it('should return winnings and stakes of winning bets only', () => {
+      const hand = {
+        ...createHand(100),
+        sideBets: [
+          { type: 'perfectPairs', amount: 10, result: 'win' as const, outcome: 'mixedPair', payout: 60 },
+          { type: 'twentyOneThree', amount: 5, result: 'loss' as const, payout: 0 },
+          { type: 'busterBlackjack', amount: 5 },
+        ],
+      };
+      expect(calculateSideBetPayout([hand, createHand(100)])).toBe(70);
+    });
+  });
+
+  describe('Perfect Pairs', () => {
+    it('should pay by how closely the pair matches', () => {
+      expect(outcomeOf('perfectPairs', ['8d', '8d'])).toMatchObject({ outcome: 'perfectPair', payout: 250 });
+      expect(outcomeOf('perfectPairs', ['8d', '8h'])).toMatchObject({ outcome: 'coloredPair', payout: 120 });
+      expect(outcomeOf('perfectPairs', ['8d', '8s'])).toMatchObject({ outcome: 'mixedPair', payout: 60 });
+      expect(outcomeOf('perfectPairs', ['Jd', 'Qd'])).toMatchObject({ result: 'loss' });
+    });
+
+    it('should ignore cards drawn after the first two', () => {
+      expect(outcomeOf('perfectPairs', ['3c', '9c', '3c'])).toMatchObject({ result: 'loss' });
+    });
+  });
+
+  describe('Lucky Ladies', () => {
+    it('should pay any 20 by how it is made', () => {
+      expect(outcomeOf('luckyLadies', ['Qh', 'Qh'], ['As', 'Kd'])).toMatchObject({ outcome: 'queensWithBlackjack', payout: 10000 });
+      expect(outcomeOf('luckyLadies', ['Qh', 'Qh'], ['9s', 'Kd'])).toMatchObject({ outcome: 'queenOfHeartsPair', payout: 2000 });
+      expect(outcomeOf('luckyLadies', ['Js', 'Js'], ['9s', 'Kd'])).toMatchObject({ outcome: 'matched20', payout: 250 });
+      expect(outcomeOf('luckyLadies', ['Ks', '10s'], ['9s', 'Kd'])).toMatchObject({ outcome: 'suited20', payout: 100 });
+      expect(outcomeOf('luckyLadies', ['Ac', '9h'], ['9s', 'Kd'])).toMatchObject({ outcome: 'any20', payout: 40 });
+      expect(outcomeOf('luckyLadies', ['Ac', '8h'], ['9s', 'Kd'])).toMatchObject({ result: 'loss' });
+    });
+  });
+
+  describe('Buster Blackjack', () => {
+    it('should pay on a dealer bust by the number of cards', () => {
+      expect(outcomeOf('busterBlackjack', [], ['10s', '6h', 'Kd'])).toMatchObject({ outcome: 'bust4', payout: 20 });
+      expect(outcomeOf('busterBlackjack', [], ['2s', '3h', '4d', '5c', '2h', 'Kd'])).toMatchObject({ outcome: 'bust6', payout: 120 });
+      expect(outcomeOf('busterBlackjack', [], ['2s', '2h', '2d', '2c', '3h', '3d', '3s', 'Kd'])).toMatchObject({ outcome: 'bust8', payout: 2500 });
+      expect(outcomeOf('busterBlackjack', [], ['10s', '7h'])).toMatchObject({ result: 'loss' });
+    });
+  });
+
+  describe('Super Match', () => {
+    it('should pay pairs among the four opening cards', () => {
+      expect(outcomeOf('superMatch', ['9s', '9h', '9d', '9c'])).toMatchObject({ outcome: 'fourOfAKind', payout: 400 });
+      expect(outcomeOf('superMatch', ['9s', '4h', '9d', '4c'])).toMatchObject({ outcome: 'twoPair', payout: 80 });
+      expect(outcomeOf('superMatch', ['9s', '4h', '9d', '9c'])).toMatchObject({ outcome: 'threeOfAKind', payout: 50 });
+      expect(outcomeOf('superMatch', ['Ks', '4h', '9d', 'Kc'])).toMatchObject({ outcome: 'pair', payout: 10 });
+      expect(outcomeOf('superMatch', ['Ks', '4h', '9d', 'Qc'])).toMatchObject({ result: 'loss' });
+    });
+
+    it('should only be offered at Blackjack Switch tables', () => {
+      const definition = getSideBetDefinition('superMatch')!;
+      expect(isSideBetOffered(definition, DEFAULT_TABLE_RULES)).toBe(false);
+      expect(isSideBetOffered(definition, createTableRules({ variant: 'switch', blackjackPayout: '1:1' }))).toBe(true);
+      expect(isSideBetOffered(getSideBetDefinition('perfectPairs')!, DEFAULT_TABLE_RULES)).toBe(true);
+    });
+  });
+
+  describe('Push 22', () => {
+    it('should pay when the dealer finishes on 22', () => {
+      expect(outcomeOf('push22', [], ['Ks', '6h', '6d'])).toMatchObject({ outcome: 'push22', payout: 110 });
+      expect(outcomeOf('push22', [], ['Ks', '6h', '7d'])).toMatchObject({ result: 'loss' });
+    });
+
+    it('should only be offered at Free Bet tables', () => {
+      const definition = getSideBetDefinition('push22')!;
+      expect(isSideBetOffered(definition, DEFAULT_TABLE_RULES)).toBe(false);
+      expect(isSideBetOffered(definition, createTableRules({ variant: 'freeBet' }))).toBe(true);
+    });
+  });
+
+  describe('Royal Match', () => {
+    it('should pay suited first cards, most for King and Queen', () => {
+      expect(outcomeOf('royalMatch', ['Kc', 'Qc'])).toMatchObject({ outcome: 'royalMatch', payout: 250 });
+      expect(outcomeOf('royalMatch', ['4c', 'Jc'])).toMatchObject({ outcome: 'easyMatch', payout: 25 });
+      expect(outcomeOf('royalMatch', ['Kc', 'Qd'])).toMatchObject({ result: 'loss' });
+    });
+  });
+});
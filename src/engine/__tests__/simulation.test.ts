@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRuleSpec,
+  simulateRounds,
+  formatSimulationReport,
+  SIMULATION_STRATEGIES,
+  type SimulationStrategy,
+} from '../simulation';
+import { createHand, addCardToHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const createCard = (rank: string): Card => ({ rank: rank as Rank, suit: '♠', faceUp: true });
+
+const handOf = (...ranks: string[]): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(1));
+
+const allOptions = { canDouble: true, canSplit: true, canSurrender: false };
+
+describe('Simulation', () => {
+  describe('parseRuleSpec', () => {
+    it('should build rules from dash-separated tokens', () => {
+      expect(parseRuleSpec('h17-2d-ndas-ls-6:5')).toEqual(
+        createTableRules({
+          hitOnSoft17: true,
+          deckCount: 2,
+          doubleAfterSplit: false,
+          surrender: 'late',
+          blackjackPayout: '6:5',
+        })
+      );
+    });
+
+    it('should return the default table for an empty spec', () => {
+      expect(parseRuleSpec('')).toEqual(DEFAULT_TABLE_RULES);
+    });
+
+    it('should reject unknown tokens and invalid rules', () => {
+      expect(() => parseRuleSpec('h17-wild')).toThrow('Unknown rule token: wild');
+      expect(() => parseRuleSpec('pen100')).toThrow('Penetration must be between 0 and 1');
+    });
+  });
+
+  describe('basic strategy', () => {
+    const basic = SIMULATION_STRATEGIES.basic;
+    const rules = DEFAULT_TABLE_RULES;
+
+    it('should play textbook hard, soft and pair decisions', () => {
+      expect(basic(handOf('10', '6'), createCard('10'), allOptions, rules)).toBe('hit');
+      expect(basic(handOf('10', '6'), createCard('6'), allOptions, rules)).toBe('stand');
+      expect(basic(handOf('6', '5'), createCard('9'), allOptions, rules)).toBe('double');
+      expect(basic(handOf('A', '7'), createCard('9'), allOptions, rules)).toBe('hit');
+      expect(basic(handOf('8', '8'), createCard('10'), allOptions, rules)).toBe('split');
+      expect(basic(handOf('10', 'K'), createCard('6'), allOptions, rules)).toBe('stand');
+    });
+
+    it('should fall back when doubling or surrender is not allowed', () => {
+      const noDouble = { ...allOptions, canDouble: false };
+      expect(basic(handOf('6', '5'), createCard('9'), noDouble, rules)).toBe('hit');
+      expect(basic(handOf('A', '7'), createCard('4'), noDouble, rules)).toBe('stand');
+      const surrenderRules = { ...rules, surrender: 'late' as const };
+      expect(basic(handOf('10', '6'), createCard('10'), { ...allOptions, canSurrender: true }, surrenderRules)).toBe('surrender');
+    });
+  });
+
+  describe('simulateRounds', () => {
+    const rules = parseRuleSpec('s17-6d-das');
+
+    it('should replay the same shoes for the same seed', () => {
+      const first = simulateRounds({ rules, rounds: 2000, seed: 7 });
+      const second = simulateRounds({ rules, rounds: 2000, seed: 7 });
+      expect(second).toEqual(first);
+    });
+
+    it('should measure a basic strategy game close to the known edge', () => {
+      const result = simulateRounds({ rules, rounds: 20000, seed: 42 });
+      expect(result.rounds).toBe(20000);
+      expect(result.handsPlayed).toBeGreaterThanOrEqual(20000);
+      expect(result.totalWagered).toBeGreaterThan(result.rounds);
+      // Six-deck S17 DAS is about 0.4%; allow several standard errors
+      expect(Math.abs(result.houseEdge)).toBeLessThan(0.05);
+      expect(result.standardDeviation).toBeCloseTo(Math.sqrt(result.variance));
+      expect(result.blackjackFrequency).toBeGreaterThan(0.03);
+      expect(result.blackjackFrequency).toBeLessThan(0.065);
+      expect(result.winRate + result.pushRate + result.lossRate).toBeCloseTo(1);
+    });
+
+    it('should accept a custom strategy', () => {
+      const alwaysStand: SimulationStrategy = () => 'stand';
+      const result = simulateRounds({ rules, rounds: 5000, strategy: alwaysStand, seed: 3 });
+      expect(result.playerBustRate).toBe(0);
+      expect(result.doubleRate).toBe(0);
+      // Standing on everything gives the house a large edge
+      expect(result.houseEdge).toBeGreaterThan(0.1);
+    });
+
+    it('should not run out of cards on a deeply dealt single deck', () => {
+      // Split whenever possible and hit to hard 17 to use as many cards as a round can
+      const cardHungry: SimulationStrategy = (hand, upCard, options, handRules) =>
+        options.canSplit ? 'split' : SIMULATION_STRATEGIES.mimicDealer(hand, upCard, options, handRules);
+      const result = simulateRounds({ rules: parseRuleSpec('1d-pen99-sp4-rsa'), rounds: 20000, strategy: cardHungry, seed: 5 });
+      expect(result.rounds).toBe(20000);
+      expect(Number.isFinite(result.houseEdge)).toBe(true);
+    });
+
+    it('should report progress and reject empty runs', () => {
+      const progress: number[] = [];
+      simulateRounds({ rules, rounds: 200000, strategy: 'neverBust', seed: 1, onProgress: played => progress.push(played) });
+      expect(progress).toEqual([100000, 200000]);
+      expect(() => simulateRounds({ rules, rounds: 0 })).toThrow('Rounds must be a positive integer');
+    });
+  });
+
+  describe('formatSimulationReport', () => {
+    it('should list the headline statistics', () => {
+      const report = formatSimulationReport(simulateRounds({ rules: DEFAULT_TABLE_RULES, rounds: 1000, seed: 5 }));
+      expect(report).toContain('House edge');
+      expect(report).toContain('Standard deviation');
+      expect(report).toContain('Player blackjacks');
+      expect(report).toContain('Dealer bust rate');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getSpanish21Bonus } from '../spanish21';
+import { createHand } from '../hand';
+import type { Card, Hand, Rank, Suit } from '../../types';
+
+// Cards written as rank + suit letter, e.g. 'Qh' or '7s'
+const SUITS: Record<string, Suit> = { s: '♠', h: '♥', d: '♦', c: '♣' };
+const handOf = (...codes: string[]): Hand => ({
+  ...createHand(10),
+  cards: codes.map((code): Card => ({ rank: code.slice(0, -1) as Rank, suit: SUITS[code.slice(-1)], faceUp: true })),
+  status: 'stand',
+});
+
+describe('Spanish 21', () => {
+  describe('getSpanish21Bonus', () => {
+    it('should pay more the more cards make the 21', () => {
+      expect(getSpanish21Bonus(handOf('2s', '3h', '4d', '5c', '7s'))).toMatchObject({ id: 'fiveCard', pays: 1.5 });
+      expect(getSpanish21Bonus(handOf('2s', '3h', '4d', '5c', '2h', '5s'))).toMatchObject({ id: 'sixCard', pays: 2 });
+      expect(getSpanish21Bonus(handOf('2s', '3h', '2d', '3c', '2h', '3s', '6d'))).toMatchObject({ id: 'sevenCard', pays: 3 });
+    });
+
+    it('should pay 6-7-8 and 7-7-7 by suit', () => {
+      expect(getSpanish21Bonus(handOf('6s', '8s', '7s'))).toMatchObject({ id: 'spades', label: '6-7-8 in spades', pays: 3 });
+      expect(getSpanish21Bonus(handOf('7h', '7h', '7h'))).toMatchObject({ id: 'suited', label: 'Suited 7-7-7', pays: 2 });
+      expect(getSpanish21Bonus(handOf('7h', '7c', '7s'))).toMatchObject({ id: 'mixed', pays: 1.5 });
+    });
+
+    it('should not pay an ordinary 21', () => {
+      expect(getSpanish21Bonus(handOf('Ks', '5h', '6d'))).toBeNull();
+      expect(getSpanish21Bonus(handOf('Ks', '4h', '2d', '5c'))).toBeNull();
+    });
+
+    it('should not pay a doubled 21 or a hand short of 21', () => {
+      expect(getSpanish21Bonus({ ...handOf('2s', '3h', '4d', '5c', '7s'), isDouble: true })).toBeNull();
+      expect(getSpanish21Bonus(handOf('6s', '7s', '5s'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getStrategyChart,
+  getStrategyAction,
+  getActionValues,
+  getChartCode,
+  resolveChartCode,
+  hasStrategyModel,
+  DEALER_UPCARDS,
+  type ChartCode,
+  type StrategyChart,
+} from '../strategy';
+import { createHand, addCardToHand } from '../hand';
+import { DEFAULT_TABLE_RULES, createTableRules } from '../rules';
+import type { Card, Hand, Rank } from '../../types';
+
+const createCard = (rank: string): Card => ({ rank: rank as Rank, suit: '♠', faceUp: true });
+
+const handOf = (...ranks: string[]): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(100));
+
+const codesFor = (chart: StrategyChart, section: keyof StrategyChart, total: number): string =>
+  chart[section].find(row => row.total === total)!.codes.join(' ');
+
+const cell = (chart: StrategyChart, section: keyof StrategyChart, total: number, upCard: Rank): ChartCode =>
+  chart[section].find(row => row.total === total)!.codes[DEALER_UPCARDS.indexOf(upCard)];
+
+const noOptions = { canDouble: false, canSplit: false, canSurrender: false };
+
+describe('Basic Strategy', () => {
+  describe('getStrategyChart', () => {
+    const chart = getStrategyChart(DEFAULT_TABLE_RULES);
+
+    it('should cover hard 5-20, A,2 to A,9 and every pair', () => {
+      expect(chart.hard.map(row => row.total)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+      expect(chart.soft.map(row => row.label)).toEqual(['A,2', 'A,3', 'A,4', 'A,5', 'A,6', 'A,7', 'A,8', 'A,9']);
+      expect(chart.pairs.map(row => row.label)).toEqual(['2,2', '3,3', '4,4', '5,5', '6,6', '7,7', '8,8', '9,9', '10,10', 'A,A']);
+      expect([...chart.hard, ...chart.soft, ...chart.pairs].every(row => row.codes.length === DEALER_UPCARDS.length)).toBe(true);
+    });
+
+    it('should match the published six-deck S17 DAS chart', () => {
+      expect(codesFor(chart, 'hard', 9)).toBe('H D D D D H H H H H');
+      expect(codesFor(chart, 'hard', 11)).toBe('D D D D D D D D D H');
+      expect(codesFor(chart, 'hard', 12)).toBe('H H S S S H H H H H');
+      expect(codesFor(chart, 'hard', 16)).toBe('S S S S S H H H H H');
+      expect(codesFor(chart, 'soft', 18)).toBe('S Ds Ds Ds Ds S S H H H');
+      expect(codesFor(chart, 'pairs', 9)).toBe('P P P P P S P P S S');
+      expect(codesFor(chart, 'pairs', 4)).toBe('H H H P P H H H H H');
+    });
+
+    it('should follow the dealer soft 17 rule', () => {
+      const h17 = getStrategyChart(createTableRules({ hitOnSoft17: true }));
+      expect(cell(h17, 'hard', 11, 'A')).toBe('D');
+      expect(cell(h17, 'soft', 18, '2')).toBe('Ds');
+      expect(cell(h17, 'soft', 19, '6')).toBe('Ds');
+    });
+
+    it('should add surrender when the table offers it', () => {
+      expect(cell(chart, 'hard', 16, '10')).toBe('H');
+      const lateSurrender = getStrategyChart(createTableRules({ hitOnSoft17: true, surrender: 'late' }));
+      expect(cell(lateSurrender, 'hard', 16, '10')).toBe('R');
+      expect(cell(lateSurrender, 'hard', 17, 'A')).toBe('Rs');
+      expect(cell(lateSurrender, 'pairs', 8, 'A')).toBe('R');
+    });
+
+    it('should split less without double after split', () => {
+      const noDas = getStrategyChart(createTableRules({ doubleAfterSplit: false }));
+      expect(cell(noDas, 'pairs', 4, '5')).toBe('H');
+      expect(cell(noDas, 'pairs', 2, '2')).toBe('H');
+    });
+
+    it('should not double totals the table restricts', () => {
+      const tenEleven = getStrategyChart(createTableRules({ doubleOn: '10-11' }));
+      expect(cell(tenEleven, 'hard', 9, '5')).toBe('H');
+      expect(cell(tenEleven, 'soft', 17, '5')).toBe('H');
+      expect(cell(tenEleven, 'hard', 10, '5')).toBe('D');
+    });
+
+    it('should stop doubling into a no-hole-card ten when every stake is lost', () => {
+      const enhc = getStrategyChart(createTableRules({ holeCard: 'enhc', noHoleCardLoss: 'all' }));
+      expect(cell(enhc, 'hard', 11, '10')).toBe('H');
+      expect(cell(enhc, 'pairs', 8, '10')).toBe('H');
+    });
+  });
+
+  describe('getStrategyAction', () => {
+    const rules = DEFAULT_TABLE_RULES;
+
+    it('should return the chart play when every option is open', () => {
+      expect(getStrategyAction(handOf('6', '5'), createCard('6'), rules)).toBe('double');
+      expect(getStrategyAction(handOf('8', '8'), createCard('K'), rules)).toBe('split');
+      expect(getStrategyAction(handOf('10', '2'), createCard('4'), rules)).toBe('stand');
+    });
+
+    it('should fall back when an option is closed', () => {
+      expect(getStrategyAction(handOf('A', '7'), createCard('4'), rules, noOptions)).toBe('stand');
+      expect(getStrategyAction(handOf('6', '5'), createCard('6'), rules, noOptions)).toBe('hit');
+      // Unsplittable eights play as hard 16
+      expect(getStrategyAction(handOf('8', '8'), createCard('K'), rules, noOptions)).toBe('hit');
+    });
+
+    it('should play multi-card hands by their total', () => {
+      expect(getStrategyAction(handOf('4', '3', '4'), createCard('6'), rules)).toBe('hit');
+      expect(getStrategyAction(handOf('A', '2', '4'), createCard('9'), rules)).toBe('hit');
+      expect(getStrategyAction(handOf('5', '5', '6'), createCard('4'), rules)).toBe('stand');
+      expect(getStrategyAction(handOf('2', '2'), createCard('8'), rules, noOptions)).toBe('hit');
+    });
+  });
+
+  describe('getActionValues', () => {
+    it('should rank the chart play highest', () => {
+      const values = getActionValues(handOf('10', '6'), createCard('10'), createTableRules({ surrender: 'late' }));
+      expect(values.surrender).toBe(-0.5);
+      expect(values.hit!).toBeLessThan(-0.5);
+      expect(values.stand!).toBeLessThan(values.hit!);
+      expect(values.double).toBeDefined();
+      expect(values.split).toBeUndefined();
+    });
+
+    it('should value a hard 20 standing as a strong favourite', () => {
+      const values = getActionValues(handOf('K', 'K'), createCard('6'), DEFAULT_TABLE_RULES);
+      expect(values.stand!).toBeGreaterThan(0.6);
+      expect(values.split!).toBeLessThan(values.stand!);
+    });
+  });
+
+  describe('getChartCode', () => {
+    it('should treat face cards as ten-value upcards', () => {
+      expect(getChartCode(handOf('10', '6'), createCard('Q'), DEFAULT_TABLE_RULES)).toBe('H');
+      expect(getChartCode(handOf('A', 'A'), createCard('7'), DEFAULT_TABLE_RULES)).toBe('P');
+      expect(getChartCode(handOf('A', 'A'), createCard('7'), DEFAULT_TABLE_RULES, false)).toBe('H');
+    });
+  });
+
+  describe('resolveChartCode', () => {
+    it('should use the fallback written into the code', () => {
+      expect(resolveChartCode('Ds', noOptions)).toBe('stand');
+      expect(resolveChartCode('D', noOptions)).toBe('hit');
+      expect(resolveChartCode('Rs', noOptions)).toBe('stand');
+      expect(resolveChartCode('R', { ...noOptions, canSurrender: true })).toBe('surrender');
+    });
+  });
+
+  describe('hasStrategyModel', () => {
+    it('should not claim a strategy for Spanish 21, Blackjack Switch, Free Bet Blackjack or Double Exposure', () => {
+      expect(hasStrategyModel(DEFAULT_TABLE_RULES)).toBe(true);
+      expect(hasStrategyModel(createTableRules({ variant: 'spanish21' }))).toBe(false);
+      expect(hasStrategyModel(createTableRules({ variant: 'switch', blackjackPayout: '1:1' }))).toBe(false);
+      expect(hasStrategyModel(createTableRules({ variant: 'freeBet' }))).toBe(false);
+      expect(hasStrategyModel(createTableRules({ variant: 'doubleExposure', blackjackPayout: '1:1' }))).toBe(false);
+    });
+  });
+});
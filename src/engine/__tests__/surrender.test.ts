@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canSurrender,
+  surrenderHand,
+  shouldOfferEarlySurrender,
+  compareHands,
+  createHand,
+  addCardToHand,
+} from '../hand';
+import { calculatePayout, calculateSurrenderRefund } from '../payouts';
+import { createTableRules } from '../rules';
+import type { Card, Hand, Rank, Suit } from '../../types';
+
+const createCard = (rank: string, suit: string = '♠'): Card => ({
+  rank: rank as Rank,
+  suit: suit as Suit,
+  faceUp: true,
+});
+
+const handOf = (ranks: string[], bet: number = 100): Hand =>
+  ranks.reduce((hand, rank) => addCardToHand(hand, createCard(rank)), createHand(bet));
+
+describe('Surrender', () => {
+  const noSurrender = createTableRules({ surrender: 'none' });
+  const lateSurrender = createTableRules({ surrender: 'late' });
+  const earlySurrender = createTableRules({ surrender: 'early' });
+
+  describe('canSurrender', () => {
+    it('should allow surrender on original two-card hand when rules permit', () => {
+      expect(canSurrender(handOf(['10', '6']), 1, lateSurrender)).toBe(true);
+      expect(canSurrender(handOf(['10', '6']), 1, earlySurrender)).toBe(true);
+    });
+
+    it('should not allow surrender when rules disable it', () => {
+      expect(canSurrender(handOf(['10', '6']), 1, noSurrender)).toBe(false);
+    });
+
+    it('should not allow surrender after hitting', () => {
+      expect(canSurrender(handOf(['5', '6', '2']), 1, lateSurrender)).toBe(false);
+    });
+
+    it('should not allow surrender after split', () => {
+      const hand = { ...handOf(['8', '3']), isSplit: true };
+      expect(canSurrender(hand, 2, lateSurrender)).toBe(false);
+      expect(canSurrender(handOf(['8', '3']), 2, lateSurrender)).toBe(false);
+    });
+
+    it('should not allow surrender after double', () => {
+      const hand = { ...handOf(['8', '3']), isDouble: true };
+      expect(canSurrender(hand, 1, lateSurrender)).toBe(false);
+    });
+
+    it('should not allow surrender on a completed hand', () => {
+      expect(canSurrender(handOf(['A', 'K']), 1, lateSurrender)).toBe(false);
+      expect(canSurrender({ ...handOf(['10', '6']), status: 'stand' }, 1, lateSurrender)).toBe(false);
+    });
+  });
+
+  describe('surrenderHand', () => {
+    it('should mark the hand as surrendered without changing the bet', () => {
+      const surrendered = surrenderHand(handOf(['10', '6']), 1, lateSurrender);
+      expect(surrendered.status).toBe('surrendered');
+      expect(surrendered.bet).toBe(100);
+    });
+
+    it('should throw when surrender is not allowed', () => {
+      expect(() => surrenderHand(handOf(['10', '6']), 1, noSurrender)).toThrow('Cannot surrender this hand');
+    });
+  });
+
+  describe('shouldOfferEarlySurrender', () => {
+    it('should offer on Ace or ten-value upcards with early surrender', () => {
+      expect(shouldOfferEarlySurrender(createCard('A'), earlySurrender)).toBe(true);
+      expect(shouldOfferEarlySurrender(createCard('K'), earlySurrender)).toBe(true);
+      expect(shouldOfferEarlySurrender(createCard('10'), earlySurrender)).toBe(true);
+    });
+
+    it('should not offer on low upcards', () => {
+      expect(shouldOfferEarlySurrender(createCard('9'), earlySurrender)).toBe(false);
+    });
+
+    it('should not offer under late or no surrender', () => {
+      expect(shouldOfferEarlySurrender(createCard('A'), lateSurrender)).toBe(false);
+      expect(shouldOfferEarlySurrender(createCard('A'), noSurrender)).toBe(false);
+    });
+  });
+
+  describe('settlement', () => {
+    it('should settle surrendered hands as surrender regardless of dealer hand', () => {
+      const surrendered = surrenderHand(handOf(['10', '6']), 1, earlySurrender);
+      expect(compareHands(surrendered, [createCard('A'), createCard('K')])).toBe('surrender');
+      expect(compareHands(surrendered, [createCard('10'), createCard('6'), createCard('K')])).toBe('surrender');
+    });
+
+    it('should refund half the bet', () => {
+      const hand = createHand(100);
+      expect(calculateSurrenderRefund(hand)).toBe(50);
+      expect(calculatePayout(hand, 'surrender')).toBe(50);
+    });
+
+    it('should handle odd bet amounts', () => {
+      expect(calculateSurrenderRefund(createHand(25))).toBe(12.5);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import type { Hand } from '../types';
+import type { Hand, PlayerSeat } from '../types';
 import { validateBet } from './payouts';
 
 /**
@@ -409,3 +409,19 @@ export function addToBalance(balance: number, amount: number): number {
 
   return balance + amount;
 }
+
+/**
+ * Total bankroll held by the seats at the table.
+ * Each seat plays from its own balance; the table total is what the header shows.
+ *
+ * @param seats - Player seats keyed by seat id
+ * @returns Sum of every seat's balance
+ *
+ * @example
+ * ```typescript
+ * const total = getTableBalance(state.playerSeats); // 20000 for two fresh seats
+ * ```
+ */
+export function getTableBalance(seats: Record<string, PlayerSeat>): number {
+  return Object.values(seats).reduce((sum, seat) => sum + seat.balance, 0);
+}
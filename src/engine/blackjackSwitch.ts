@@ -0,0 +1,53 @@
+import type { GameState, Hand } from '../types';
+import { evaluateHand } from './hand';
+
+/**
+ * Whether the active seat still has to decide on a Blackjack Switch
+ *
+ * @param state - Current game state
+ * @returns True while the seat's turn is at its switch decision
+ *
+ * @example
+ * ```typescript
+ * if (isSwitchPending(state)) dispatch({ type: 'switch' });
+ * ```
+ */
+export function isSwitchPending(state: Pick<GameState, 'phase' | 'turnQueue' | 'currentTurnIndex'>): boolean {
+  return state.phase === 'playerTurns' && state.turnQueue[state.currentTurnIndex]?.decision === 'switch';
+}
+
+/**
+ * Swap the second cards of a seat's two Blackjack Switch hands
+ *
+ * Both hands are marked as switched: a two-card 21 made by the swap is not a
+ * blackjack, so it stands at once and is paid even money like any 21. Every
+ * other hand goes back into play.
+ *
+ * @param hands - The seat's two opening hands
+ * @returns The hands with their second cards exchanged
+ * @throws {Error} If the seat does not hold exactly two two-card hands
+ *
+ * @example
+ * ```typescript
+ * // A-6 and 7-K become A-K and 7-6
+ * const [first, second] = switchSecondCards(seat.hands);
+ * ```
+ */
+export function switchSecondCards(hands: Hand[]): Hand[] {
+  if (hands.length !== 2 || hands.some(hand => hand.cards.length !== 2)) {
+    throw new Error('Only two opening hands can switch cards');
+  }
+
+  const [first, second] = hands;
+  const withCards = (hand: Hand, cards: Hand['cards']): Hand => ({
+    ...hand,
+    cards,
+    switched: true,
+    status: evaluateHand(cards).value === 21 ? 'stand' : 'playing',
+  });
+
+  return [
+    withCards(first, [first.cards[0], second.cards[1]]),
+    withCards(second, [second.cards[0], first.cards[1]]),
+  ];
+}
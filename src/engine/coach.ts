@@ -0,0 +1,122 @@
+import type { Card, Hand, TableRules } from '../types';
+import { evaluateHand } from './hand';
+import {
+  getActionValues,
+  getAvailableActions,
+  getStrategyAction,
+  type AvailableActions,
+  type StrategyAction,
+} from './strategy';
+
+/**
+ * One graded playing decision
+ */
+export interface CoachDecision {
+  cards: Card[]; // The hand as it stood when the player acted
+  total: number;
+  soft: boolean;
+  upCard: Card;
+  chosen: StrategyAction;
+  correct: StrategyAction;
+  evCost: number; // Expected value given up, in units of the hand's original bet
+}
+
+/**
+ * Running score for a training session
+ */
+export interface CoachSession {
+  decisions: number;
+  correct: number;
+  evLost: number;
+  mistakes: CoachDecision[]; // Most recent first
+  lastDecision: CoachDecision | null;
+}
+
+/**
+ * Mistakes kept in the session list
+ */
+export const MAX_COACH_MISTAKES = 50;
+
+/**
+ * Create an empty coach session
+ *
+ * @returns Session with no decisions graded
+ */
+export function createCoachSession(): CoachSession {
+  return {
+    decisions: 0,
+    correct: 0,
+    evLost: 0,
+    mistakes: [],
+    lastDecision: null,
+  };
+}
+
+/**
+ * Grade a playing decision against basic strategy for the table rules
+ *
+ * @param hand - Hand before the decision
+ * @param upCard - Dealer upcard
+ * @param chosen - Action the player took
+ * @param rules - Table rules
+ * @param available - Decisions open to the hand (defaults to what the rules allow)
+ * @returns The decision with the basic strategy play and its EV cost
+ *
+ * @example
+ * gradeDecision(hand16, tenCard, 'stand', rules)
+ * // → { chosen: 'stand', correct: 'hit', evCost: 0.01..., ... }
+ */
+export function gradeDecision(
+  hand: Hand,
+  upCard: Card,
+  chosen: StrategyAction,
+  rules: TableRules,
+  available: AvailableActions = getAvailableActions(hand, rules)
+): CoachDecision {
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+  const correct = getStrategyAction(hand, upCard, rules, available);
+  const values = getActionValues(hand, upCard, rules, available);
+  const correctValue = values[correct];
+  const chosenValue = values[chosen];
+
+  return {
+    cards: hand.cards,
+    total: value,
+    soft: isSoft,
+    upCard,
+    chosen,
+    correct,
+    evCost: chosen === correct || correctValue === undefined || chosenValue === undefined
+      ? 0
+      : Math.max(0, correctValue - chosenValue),
+  };
+}
+
+/**
+ * Add a graded decision to the session score
+ *
+ * @param session - Current session
+ * @param decision - Decision from gradeDecision()
+ * @returns Updated session (the original is not modified)
+ */
+export function recordDecision(session: CoachSession, decision: CoachDecision): CoachSession {
+  const isCorrect = decision.chosen === decision.correct;
+
+  return {
+    decisions: session.decisions + 1,
+    correct: session.correct + (isCorrect ? 1 : 0),
+    evLost: session.evLost + decision.evCost,
+    mistakes: isCorrect ? session.mistakes : [decision, ...session.mistakes].slice(0, MAX_COACH_MISTAKES),
+    lastDecision: decision,
+  };
+}
+
+/**
+ * Share of decisions that matched basic strategy
+ *
+ * @param session - Coach session
+ * @returns Accuracy from 0 to 1, or null before any decision is graded
+ */
+export function getCoachAccuracy(session: CoachSession): number | null {
+  return session.decisions === 0 ? null : session.correct / session.decisions;
+}
@@ -0,0 +1,255 @@
+import type { Card, GameState } from '../types';
+import { getCardValue } from './hand';
+import { getUnseenCards } from './expectedValue';
+import { getDeckSize } from './deck';
+
+/**
+ * Supported card counting systems
+ */
+export type CountSystemId = 'hiLo' | 'ko' | 'omegaII' | 'zen';
+
+/**
+ * Tag values for a counting system
+ */
+export interface CountSystem {
+  id: CountSystemId;
+  name: string;
+  balanced: boolean; // Balanced systems start at 0 and sum to 0 over a full shoe
+  tags: Record<number, number>; // Tag by card value (10 for tens and faces, 11 for Aces)
+}
+
+/**
+ * Counts at one point in the shoe
+ */
+export interface CountSnapshot {
+  runningCount: number;
+  trueCount: number;
+  decksRemaining: number;
+  cardsSeen: number;
+}
+
+/**
+ * A trainee's answer to a count check
+ */
+export interface CountAnswer {
+  runningCount: number;
+  trueCount: number;
+}
+
+/**
+ * A graded count check
+ */
+export interface CountCheck {
+  answer: CountAnswer;
+  actual: CountSnapshot;
+  runningCorrect: boolean;
+  trueCorrect: boolean;
+}
+
+/**
+ * Running score for a counting session
+ */
+export interface CountSession {
+  checks: number;
+  runningCorrect: number;
+  trueCorrect: number;
+  lastCheck: CountCheck | null;
+}
+
+/**
+ * Cards per classic deck, for converting the cards left into decks remaining
+ * (use getDeckSize() for a variant's deck)
+ */
+export const CARDS_PER_DECK = 52;
+
+/**
+ * True count answers within this distance of the exact value are accepted
+ */
+export const TRUE_COUNT_TOLERANCE = 0.5;
+
+/**
+ * Tag tables for every supported system
+ */
+export const COUNT_SYSTEMS: Record<CountSystemId, CountSystem> = {
+  hiLo: {
+    id: 'hiLo',
+    name: 'Hi-Lo',
+    balanced: true,
+    tags: { 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 0, 8: 0, 9: 0, 10: -1, 11: -1 },
+  },
+  ko: {
+    id: 'ko',
+    name: 'KO',
+    balanced: false,
+    tags: { 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 1, 8: 0, 9: 0, 10: -1, 11: -1 },
+  },
+  omegaII: {
+    id: 'omegaII',
+    name: 'Omega II',
+    balanced: true,
+    tags: { 2: 1, 3: 1, 4: 2, 5: 2, 6: 2, 7: 1, 8: 0, 9: -1, 10: -2, 11: 0 },
+  },
+  zen: {
+    id: 'zen',
+    name: 'Zen',
+    balanced: true,
+    tags: { 2: 1, 3: 1, 4: 2, 5: 2, 6: 2, 7: 1, 8: 0, 9: 0, 10: -2, 11: -1 },
+  },
+};
+
+/**
+ * Get a card's tag in a counting system
+ *
+ * @param card - The card
+ * @param systemId - Counting system
+ * @returns Tag value
+ *
+ * @example
+ * ```typescript
+ * getCountTag({ rank: 'K', suit: '♠', faceUp: true }, 'omegaII'); // -2
+ * ```
+ */
+export function getCountTag(card: Card, systemId: CountSystemId): number {
+  return COUNT_SYSTEMS[systemId].tags[getCardValue(card.rank)];
+}
+
+/**
+ * Running count at the start of a shoe
+ *
+ * Balanced systems start at 0. KO starts at 4 - 4 × decks, so its running
+ * count reaches +4 (its key count) at about the same advantage in any shoe.
+ *
+ * @param systemId - Counting system
+ * @param deckCount - Decks in the shoe
+ * @returns Initial running count
+ */
+export function getInitialRunningCount(systemId: CountSystemId, deckCount: number): number {
+  return COUNT_SYSTEMS[systemId].balanced ? 0 : 4 - 4 * deckCount;
+}
+
+/**
+ * Running count after a sequence of cards
+ *
+ * @param cards - Cards seen since the shuffle
+ * @param systemId - Counting system
+ * @param deckCount - Decks in the shoe (sets the KO starting count)
+ * @returns Running count
+ */
+export function getRunningCount(cards: Card[], systemId: CountSystemId, deckCount: number): number {
+  return cards.reduce(
+    (count, card) => count + getCountTag(card, systemId),
+    getInitialRunningCount(systemId, deckCount)
+  );
+}
+
+/**
+ * Convert a running count into a true count
+ *
+ * @param runningCount - Running count
+ * @param cardsRemaining - Cards not yet seen
+ * @param cardsPerDeck - Cards in one deck (default: 52; 48 for Spanish 21)
+ * @returns Running count per deck remaining (the running count itself once less than a deck is left)
+ *
+ * @example
+ * ```typescript
+ * getTrueCount(6, 156); // 2 (three decks left)
+ * ```
+ */
+export function getTrueCount(runningCount: number, cardsRemaining: number, cardsPerDeck: number = CARDS_PER_DECK): number {
+  return runningCount / Math.max(cardsRemaining / cardsPerDeck, 1);
+}
+
+/**
+ * Cards the player has seen since the shuffle: the discard tray plus face-up cards on the table
+ *
+ * @param state - Game state
+ * @returns Seen cards
+ */
+export function getSeenCards(state: Pick<GameState, 'shoe' | 'playerSeats' | 'dealerHand'>): Card[] {
+  const tableCards = [
+    ...Object.values(state.playerSeats).flatMap(seat => seat.hands.flatMap(hand => hand.cards)),
+    ...state.dealerHand,
+  ];
+  return [...state.shoe.discardTray, ...tableCards.filter(card => card.faceUp)];
+}
+
+/**
+ * Count the current shoe
+ *
+ * Decks remaining come from the cards left in `state.deck` plus the dealer's
+ * hole card, which has not been seen either, in decks of the table's variant.
+ *
+ * @param state - Game state
+ * @param systemId - Counting system
+ * @returns Running count, true count and shoe depth
+ *
+ * @example
+ * ```typescript
+ * const { runningCount, trueCount } = getCountSnapshot(useGameStore.getState(), 'hiLo');
+ * ```
+ */
+export function getCountSnapshot(
+  state: Pick<GameState, 'deck' | 'shoe' | 'playerSeats' | 'dealerHand' | 'rules'>,
+  systemId: CountSystemId
+): CountSnapshot {
+  const seen = getSeenCards(state);
+  const cardsRemaining = getUnseenCards(state).length;
+  const runningCount = getRunningCount(seen, systemId, state.rules.deckCount);
+  const cardsPerDeck = getDeckSize(state.rules.variant);
+
+  return {
+    runningCount,
+    trueCount: getTrueCount(runningCount, cardsRemaining, cardsPerDeck),
+    decksRemaining: cardsRemaining / cardsPerDeck,
+    cardsSeen: seen.length,
+  };
+}
+
+/**
+ * Create an empty counting session
+ *
+ * @returns Session with no checks
+ */
+export function createCountSession(): CountSession {
+  return {
+    checks: 0,
+    runningCorrect: 0,
+    trueCorrect: 0,
+    lastCheck: null,
+  };
+}
+
+/**
+ * Grade a count answer
+ *
+ * The running count must be exact; the true count may be off by up to
+ * TRUE_COUNT_TOLERANCE to allow for estimating the decks left.
+ *
+ * @param answer - Counts given by the trainee
+ * @param actual - Counts at the time of the check
+ * @returns The graded check
+ */
+export function gradeCountAnswer(answer: CountAnswer, actual: CountSnapshot): CountCheck {
+  return {
+    answer,
+    actual,
+    runningCorrect: answer.runningCount === actual.runningCount,
+    trueCorrect: Math.abs(answer.trueCount - actual.trueCount) <= TRUE_COUNT_TOLERANCE,
+  };
+}
+
+/**
+ * Add a graded check to the session score
+ *
+ * @param session - Current session
+ * @param check - Check from gradeCountAnswer()
+ * @returns Updated session (the original is not modified)
+ */
+export function recordCountCheck(session: CountSession, check: CountCheck): CountSession {
+  return {
+    checks: session.checks + 1,
+    runningCorrect: session.runningCorrect + (check.runningCorrect ? 1 : 0),
+    trueCorrect: session.trueCorrect + (check.trueCorrect ? 1 : 0),
+    lastCheck: check,
+  };
+}
@@ -3,6 +3,8 @@ import { evaluateHand } from './hand';
 
 /**
  * Configuration rules for dealer behavior
+ *
+ * TableRules satisfies this interface, so the full table rules can be passed directly.
  */
 export interface DealerRules {
   /**
@@ -110,6 +112,43 @@ export function shouldDealerHit(cards: Card[], rules: DealerRules): boolean {
   return false;
 }
 
+/**
+ * The dealer's next decision for the cards in hand, with the reason
+ *
+ * @param cards - The dealer's current cards
+ * @param rules - The dealer rules configuration
+ * @returns A hit decision, or a stand decision once the dealer is done
+ *
+ * @example
+ * ```ts
+ * const decision = getDealerDecision(dealerHand, { hitOnSoft17: true });
+ * console.log(decision.reason); // "Hand value 17 (soft) is less than 18 (hitting on soft 17)"
+ * ```
+ */
+export function getDealerDecision(cards: Card[], rules: DealerRules): DealerDecision {
+  const handValue = evaluateHand(cards);
+
+  if (shouldDealerHit(cards, rules)) {
+    return {
+      action: 'hit',
+      handValue: handValue.value,
+      isSoft: handValue.isSoft,
+      reason: `Hand value ${handValue.value}${handValue.isSoft ? ' (soft)' : ''} is less than ${
+        handValue.isSoft && handValue.value === 17 && rules.hitOnSoft17 ? '18 (hitting on soft 17)' : '17'
+      }`,
+    };
+  }
+
+  return {
+    action: 'stand',
+    handValue: handValue.value,
+    isSoft: handValue.isSoft,
+    reason: handValue.isBust
+      ? `Hand is bust (${handValue.value})`
+      : `Hand value ${handValue.value}${handValue.isSoft ? ' (soft)' : ''} is 17 or higher`,
+  };
+}
+
 /**
  * Play out the dealer's hand automatically according to blackjack rules
  *
@@ -150,17 +189,7 @@ export function playDealerHand(
 
   // Play until dealer must stand
   while (shouldDealerHit(currentCards, rules)) {
-    const handValue = evaluateHand(currentCards);
-
-    // Log the hit decision
-    decisions.push({
-      action: 'hit',
-      handValue: handValue.value,
-      isSoft: handValue.isSoft,
-      reason: `Hand value ${handValue.value}${handValue.isSoft ? ' (soft)' : ''} is less than ${
-        handValue.isSoft && handValue.value === 17 && rules.hitOnSoft17 ? '18 (hitting on soft 17)' : '17'
-      }`,
-    });
+    decisions.push(getDealerDecision(currentCards, rules));
 
     // Check if we have cards available
     if (cardIndex >= availableCards.length) {
@@ -176,18 +205,31 @@ export function playDealerHand(
   }
 
   // Log the final stand decision
-  const finalHandValue = evaluateHand(currentCards);
-  decisions.push({
-    action: 'stand',
-    handValue: finalHandValue.value,
-    isSoft: finalHandValue.isSoft,
-    reason: finalHandValue.isBust
-      ? `Hand is bust (${finalHandValue.value})`
-      : `Hand value ${finalHandValue.value}${finalHandValue.isSoft ? ' (soft)' : ''} is 17 or higher`,
-  });
+  decisions.push(getDealerDecision(currentCards, rules));
 
   return {
     finalCards: currentCards,
     decisions,
   };
 }
+
+/**
+ * Describe a dealer decision as a short sentence for display
+ *
+ * @param decision - A decision from the dealer's play log
+ * @returns Player-facing explanation such as "Dealer hits soft 17"
+ *
+ * @example
+ * ```ts
+ * describeDealerDecision({ action: 'hit', handValue: 17, isSoft: true, reason: '...' });
+ * // "Dealer hits soft 17"
+ * ```
+ */
+export function describeDealerDecision(decision: DealerDecision): string {
+  if (decision.handValue > 21) {
+    return `Dealer busts with ${decision.handValue}`;
+  }
+
+  const total = `${decision.isSoft ? 'soft' : 'hard'} ${decision.handValue}`;
+  return decision.action === 'hit' ? `Dealer hits ${total}` : `Dealer stands on ${total}`;
+}
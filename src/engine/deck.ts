@@ -1,4 +1,4 @@
-import type { Card, Rank, Suit } from '../types';
+import type { Card, GameVariant, Rank, Suit } from '../types';
 import { shuffleCardsWithSeed, generateShuffleProof } from './probablyFair';
 import type { ShuffleProof } from './probablyFair';
 
@@ -21,25 +21,48 @@ export const DECK_CONFIG = {
 const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
 const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
 
+// Ranks taken out of every deck by a variant (Spanish 21 plays without the tens)
+const REMOVED_RANKS: Record<GameVariant, Rank[]> = {
+  classic: [],
+  spanish21: ['10'],
+  switch: [],
+  freeBet: [],
+  doubleExposure: [],
+};
+
+/**
+ * Number of cards in one deck of a variant
+ *
+ * @param variant - The game variant (default: 'classic')
+ * @returns 52 for classic decks, 48 for Spanish 21
+ */
+export function getDeckSize(variant: GameVariant = 'classic'): number {
+  return (RANKS.length - REMOVED_RANKS[variant].length) * SUITS.length;
+}
+
 /**
  * Create a standard 52-card deck
  *
  * Creates a new deck with all cards face down by default.
- * The deck contains 4 suits (♠, ♥, ♦, ♣) with 13 ranks each (A-K).
+ * The deck contains 4 suits (♠, ♥, ♦, ♣) with 13 ranks each (A-K),
+ * less any ranks the variant removes.
  *
- * @returns A new array of 52 Card objects, all face down
+ * @param variant - The game variant (default: 'classic')
+ * @returns A new array of 52 Card objects (48 for Spanish 21), all face down
  *
  * @example
  * ```typescript
  * const deck = createDeck();
  * console.log(deck.length); // 52
+ * console.log(createDeck('spanish21').length); // 48
  * ```
  */
-export function createDeck(): Card[] {
+export function createDeck(variant: GameVariant = 'classic'): Card[] {
   const deck: Card[] = [];
+  const ranks = RANKS.filter(rank => !REMOVED_RANKS[variant].includes(rank));
 
   for (const suit of SUITS) {
-    for (const rank of RANKS) {
+    for (const rank of ranks) {
       deck.push({
         suit,
         rank,
@@ -58,6 +81,7 @@ export function createDeck(): Card[] {
  * Standard practice is to use 6 or 8 decks in a "shoe".
  *
  * @param deckCount - Number of decks to include (default: 6)
+ * @param variant - The game variant, which sets the deck composition (default: 'classic')
  * @returns A new array containing the specified number of decks
  * @throws {Error} If deckCount is less than 1
  *
@@ -65,9 +89,10 @@ export function createDeck(): Card[] {
  * ```typescript
  * const shoe = createShoe(6); // 312 cards (6 × 52)
  * const smallShoe = createShoe(1); // 52 cards (single deck)
+ * const spanishShoe = createShoe(6, 'spanish21'); // 288 cards (6 × 48)
  * ```
  */
-export function createShoe(deckCount: number = DECK_CONFIG.DEFAULT_SHOE_SIZE): Card[] {
+export function createShoe(deckCount: number = DECK_CONFIG.DEFAULT_SHOE_SIZE, variant: GameVariant = 'classic'): Card[] {
   if (deckCount < 1) {
     throw new Error('Deck count must be at least 1');
   }
@@ -75,7 +100,7 @@ export function createShoe(deckCount: number = DECK_CONFIG.DEFAULT_SHOE_SIZE): C
   const shoe: Card[] = [];
 
   for (let i = 0; i < deckCount; i++) {
-    shoe.push(...createDeck());
+    shoe.push(...createDeck(variant));
   }
 
   return shoe;
@@ -125,6 +150,8 @@ export async function shuffleDeckWithSeed(deck: Card[], seed: string): Promise<C
  *
  * @param deck The card deck to shuffle
  * @param providedSeed Optional seed. If not provided, a new one is generated.
+ * @param clientSeed Optional player-supplied seed to mix into the shuffle
+ * @param nonce Shuffle counter for the client seed (default: 0)
  * @returns Promise resolving to object containing shuffled deck and shuffle proof
  *
  * @example
@@ -134,10 +161,12 @@ export async function shuffleDeckWithSeed(deck: Card[], seed: string): Promise<C
  */
 export async function shuffleDeckWithProof(
   deck: Card[],
-  providedSeed?: string
+  providedSeed?: string,
+  clientSeed?: string,
+  nonce: number = 0
 ): Promise<{ shuffled: Card[]; proof: ShuffleProof }> {
-  const proof = await generateShuffleProof(providedSeed);
-  const shuffled = await shuffleCardsWithSeed(deck, proof.seed);
+  const proof = await generateShuffleProof(providedSeed, clientSeed, nonce);
+  const shuffled = await shuffleCardsWithSeed(deck, proof.seed, clientSeed, nonce);
 
   return {
     shuffled,
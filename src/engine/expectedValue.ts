@@ -0,0 +1,286 @@
+import type { Card, GameState, Hand, TableRules } from '../types';
+import { evaluateHand, getCardValue } from './hand';
+import { isDoubleTotalAllowed } from './rules';
+import { getAvailableActions, type AvailableActions, type StrategyAction } from './strategy';
+
+/**
+ * Unseen cards by value: index 2-10, Aces at 11 (indexes 0 and 1 unused)
+ */
+export type ShoeComposition = number[];
+
+// Card values in draw order; the Ace counts as 11 until it would bust the hand
+const CARD_VALUES = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Dealer outcomes are indexed by final total; a bust goes in the last slot
+const DEALER_BUST = 22;
+
+// Memo keys pack the cards drawn so far, five bits per card value
+const KEY_WEIGHTS = CARD_VALUES.reduce<number[]>((weights, value) => {
+  weights[value] = 32 ** (value - 2);
+  return weights;
+}, []);
+
+interface Total {
+  total: number;
+  soft: boolean;
+}
+
+const addCardValue = ({ total, soft }: Total, value: number): Total => {
+  let next = total + value;
+  let aces = (soft ? 1 : 0) + (value === 11 ? 1 : 0);
+  while (next > 21 && aces > 0) {
+    next -= 10;
+    aces--;
+  }
+  return { total: next, soft: aces > 0 };
+};
+
+const dealerStands = ({ total, soft }: Total, rules: TableRules) =>
+  total > 17 || (total === 17 && !(soft && rules.hitOnSoft17));
+
+/**
+ * Composition-dependent evaluator for one decision
+ *
+ * Cards are drawn without replacement from the unseen composition, so every
+ * value reflects exactly what is left in the shoe. The shoe is mutated while
+ * recursing and restored afterwards; results are memoized by the cards drawn
+ * so far, which lets the player and dealer recursions share work.
+ */
+const createEvaluator = (shoe: ShoeComposition, upCard: number, rules: TableRules) => {
+  let remaining = shoe.reduce((sum, count) => sum + count, 0);
+  let drawnKey = 0;
+
+  const draw = (value: number) => {
+    shoe[value]--;
+    remaining--;
+    drawnKey += KEY_WEIGHTS[value];
+  };
+
+  const undraw = (value: number) => {
+    shoe[value]++;
+    remaining++;
+    drawnKey -= KEY_WEIGHTS[value];
+  };
+
+  // Dealer final totals from a partial hand; stands early only if the shoe runs dry
+  const dealerMemo = new Map<string, number[]>();
+  const drawDealer = (hand: Total): number[] => {
+    const outcomes = Array(DEALER_BUST + 1).fill(0);
+    if (hand.total > 21) {
+      outcomes[DEALER_BUST] = 1;
+      return outcomes;
+    }
+    if (dealerStands(hand, rules) || remaining === 0) {
+      outcomes[hand.total] = 1;
+      return outcomes;
+    }
+
+    const key = `${drawnKey}:${hand.total}${hand.soft ? 's' : 'h'}`;
+    const cached = dealerMemo.get(key);
+    if (cached) return cached;
+
+    const total = remaining;
+    for (const value of CARD_VALUES) {
+      const count = shoe[value];
+      if (count === 0) continue;
+      draw(value);
+      const next = drawDealer(addCardValue(hand, value));
+      undraw(value);
+      next.forEach((chance, i) => {
+        outcomes[i] += (count / total) * chance;
+      });
+    }
+
+    dealerMemo.set(key, outcomes);
+    return outcomes;
+  };
+
+  // The hole card cannot complete a blackjack once the dealer has checked for it
+  const blackjackCard = upCard === 11 ? 10 : upCard === 10 ? 11 : 0;
+  const upHand = { total: upCard, soft: upCard === 11 };
+
+  const dealerWithoutBlackjack = (): number[] => {
+    const outcomes = Array(DEALER_BUST + 1).fill(0);
+    const total = remaining - (blackjackCard ? shoe[blackjackCard] : 0);
+    if (total === 0) return drawDealer(upHand);
+
+    for (const value of CARD_VALUES) {
+      const count = shoe[value];
+      if (count === 0 || value === blackjackCard) continue;
+      draw(value);
+      const next = drawDealer(addCardValue(upHand, value));
+      undraw(value);
+      next.forEach((chance, i) => {
+        outcomes[i] += (count / total) * chance;
+      });
+    }
+    return outcomes;
+  };
+
+  const blackjack = blackjackCard && remaining > 0 ? shoe[blackjackCard] / remaining : 0;
+
+  const standMemo = new Map<string, number>();
+  const stand = (total: number): number => {
+    if (total > 21) return -1;
+
+    const key = `${drawnKey}:${total}`;
+    const cached = standMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    const dealer = dealerWithoutBlackjack();
+    let value = dealer[DEALER_BUST];
+    for (let final = 0; final <= 21; final++) {
+      if (dealer[final]) value += dealer[final] * Math.sign(total - final);
+    }
+
+    standMemo.set(key, value);
+    return value;
+  };
+
+  // Expected value of one more card, playing on from there at its best
+  const hitMemo = new Map<string, number>();
+  const hit = (hand: Total): number => {
+    if (remaining === 0) return stand(hand.total);
+
+    const key = `${drawnKey}:${hand.total}${hand.soft ? 's' : 'h'}`;
+    const cached = hitMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    const total = remaining;
+    let value = 0;
+    for (const card of CARD_VALUES) {
+      const count = shoe[card];
+      if (count === 0) continue;
+      draw(card);
+      const next = addCardValue(hand, card);
+      const best = next.total >= 21 ? stand(next.total) : Math.max(stand(next.total), hit(next));
+      undraw(card);
+      value += (count / total) * best;
+    }
+
+    hitMemo.set(key, value);
+    return value;
+  };
+
+  const double = (hand: Total): number => {
+    if (remaining === 0) return 2 * stand(hand.total);
+
+    const total = remaining;
+    let value = 0;
+    for (const card of CARD_VALUES) {
+      const count = shoe[card];
+      if (count === 0) continue;
+      draw(card);
+      value += (count / total) * stand(addCardValue(hand, card).total);
+      undraw(card);
+    }
+    return 2 * value;
+  };
+
+  // Approximation: each split hand is played on its own from the current shoe, so the cards
+  // the other hand draws are not removed, and neither hand re-splits
+  const split = (pairValue: number): number => {
+    const total = remaining;
+    let handValue = 0;
+    for (const card of CARD_VALUES) {
+      const count = shoe[card];
+      if (count === 0) continue;
+      draw(card);
+      const hand = addCardValue({ total: pairValue, soft: pairValue === 11 }, card);
+      if (pairValue === 11 || hand.total === 21) {
+        handValue += (count / total) * stand(hand.total);
+      } else {
+        const canDoubleSplit = rules.doubleAfterSplit && isDoubleTotalAllowed(hand.total, hand.soft, rules);
+        handValue += (count / total) * Math.max(stand(hand.total), hit(hand), canDoubleSplit ? double(hand) : -Infinity);
+      }
+      undraw(card);
+    }
+    return 2 * handValue;
+  };
+
+  return { blackjack, stand, hit, double, split };
+};
+
+/**
+ * Count cards by value
+ *
+ * @param cards - Cards to count
+ * @returns Composition indexed by card value (face cards count as 10, Aces as 11)
+ *
+ * @example
+ * ```typescript
+ * getShoeComposition(state.deck)[10]; // Tens and face cards left in the shoe
+ * ```
+ */
+export function getShoeComposition(cards: Card[]): ShoeComposition {
+  const shoe: ShoeComposition = Array(12).fill(0);
+  for (const card of cards) {
+    shoe[getCardValue(card.rank)]++;
+  }
+  return shoe;
+}
+
+/**
+ * Cards the player has not seen: the undealt shoe plus the dealer's hole card
+ *
+ * @param state - Game state
+ * @returns Unseen cards
+ */
+export function getUnseenCards(state: Pick<GameState, 'deck' | 'dealerHand'>): Card[] {
+  return [...state.deck, ...state.dealerHand.filter(card => !card.faceUp)];
+}
+
+/**
+ * Expected value of each decision open to a hand, in units of its bet
+ *
+ * Every card is drawn without replacement from `unseen`, so stand, hit and
+ * double follow the shoe's actual composition exactly rather than a full shoe. With a peeking dealer
+ * the values are conditioned on the dealer not having blackjack; without a hole
+ * card a dealer blackjack still takes the original bet (and doubles and splits
+ * too unless only original bets are lost). The split value is an
+ * approximation: the two hands are valued independently from the same shoe,
+ * without re-splitting, and split Aces take one card each.
+ *
+ * The full recursion can take seconds on a deep eight-deck shoe; the UI runs
+ * it in `expectedValue.worker.ts` rather than on the render path.
+ *
+ * @param hand - The player's hand
+ * @param upCard - The dealer's upcard
+ * @param unseen - Cards not yet seen, e.g. from getUnseenCards(state)
+ * @param rules - The table rules
+ * @param available - Decisions open to the hand (default: derived from the hand and rules)
+ * @returns Expected value per available decision
+ *
+ * @example
+ * ```typescript
+ * const values = calculateExpectedValues(hand, state.dealerHand[0], getUnseenCards(state), state.rules);
+ * values.stand; // e.g. -0.54
+ * ```
+ */
+export function calculateExpectedValues(
+  hand: Hand,
+  upCard: Card,
+  unseen: Card[],
+  rules: TableRules,
+  available: AvailableActions = getAvailableActions(hand, rules)
+): Partial<Record<StrategyAction, number>> {
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+  const current = { total: value, soft: isSoft };
+  const isPair = hand.cards.length === 2 && hand.cards[0].rank === hand.cards[1].rank;
+  const evaluator = createEvaluator(getShoeComposition(unseen), getCardValue(upCard.rank), rules);
+
+  const blackjack = rules.holeCard === 'enhc' ? evaluator.blackjack : 0;
+  const doubledLoss = rules.holeCard === 'enhc' && rules.noHoleCardLoss === 'originalBetsOnly' ? -1 : -2;
+  const withBlackjack = (ev: number, loss: number) => blackjack * loss + (1 - blackjack) * ev;
+
+  const values: Partial<Record<StrategyAction, number>> = {
+    stand: withBlackjack(evaluator.stand(current.total), -1),
+    hit: withBlackjack(evaluator.hit(current), -1),
+  };
+  if (available.canDouble) values.double = withBlackjack(evaluator.double(current), doubledLoss);
+  if (available.canSplit && isPair) {
+    values.split = withBlackjack(evaluator.split(getCardValue(hand.cards[0].rank)), doubledLoss);
+  }
+  if (available.canSurrender) values.surrender = -0.5;
+  return values;
+}
@@ -0,0 +1,20 @@
+import type { Card, Hand, TableRules } from '../types';
+import type { AvailableActions } from './strategy';
+import { calculateExpectedValues } from './expectedValue';
+
+/**
+ * One decision to evaluate off the main thread
+ */
+export interface ExpectedValueRequest {
+  hand: Hand;
+  upCard: Card;
+  unseen: Card[];
+  rules: TableRules;
+  available: AvailableActions;
+}
+
+// A deep shoe can take seconds to evaluate; the panel terminates the worker when the decision changes
+self.onmessage = (event: MessageEvent<ExpectedValueRequest>) => {
+  const { hand, upCard, unseen, rules, available } = event.data;
+  self.postMessage(calculateExpectedValues(hand, upCard, unseen, rules, available));
+};
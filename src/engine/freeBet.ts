@@ -0,0 +1,53 @@
+import type { Hand, TableRules } from '../types';
+import { evaluateHand, getCardValue } from './hand';
+
+/**
+ * Whether the house stakes a double at a Free Bet Blackjack table
+ *
+ * Doubles are free on a two-card hard 9, 10 or 11; any other double the
+ * rules allow is paid for as usual.
+ *
+ * @param hand - The hand about to double
+ * @param rules - The table rules
+ * @returns True if the doubled stake is a free bet
+ *
+ * @example
+ * ```typescript
+ * isFreeDouble(sixFive, createTableRules({ variant: 'freeBet' })); // true
+ * ```
+ */
+export function isFreeDouble(hand: Hand, rules: TableRules): boolean {
+  if (rules.variant !== 'freeBet' || hand.cards.length !== 2 || hand.isDouble) return false;
+
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+  return !isSoft && value >= 9 && value <= 11;
+}
+
+/**
+ * Whether the house stakes a split at a Free Bet Blackjack table
+ *
+ * Every pair but ten-value cards splits for free, re-splits included.
+ *
+ * @param hand - The pair about to split
+ * @param rules - The table rules
+ * @returns True if the new hand's stake is a free bet
+ */
+export function isFreeSplit(hand: Hand, rules: TableRules): boolean {
+  return rules.variant === 'freeBet' && hand.cards.length === 2 && getCardValue(hand.cards[0].rank) !== 10;
+}
+
+/**
+ * The part of a hand's stake the player paid for
+ *
+ * @param hand - The player's hand
+ * @returns The bet less any free bet the house put up
+ *
+ * @example
+ * ```typescript
+ * // $100 hand with a free double
+ * getFundedBet({ ...hand, bet: 200, freeBet: 100 }); // 100
+ * ```
+ */
+export function getFundedBet(hand: Hand): number {
+  return hand.bet - (hand.freeBet ?? 0);
+}
@@ -0,0 +1,1009 @@
+import type {
+  Card,
+  GameAction,
+  GamePhase,
+  GameState,
+  Hand,
+  PlayerSeat,
+  RoundEvent,
+  RoundRecord,
+  SideBet,
+  TableRules,
+  TurnQueueEntry,
+} from '../types';
+import { dealCard } from './deck';
+import {
+  createHand,
+  addCardToHand,
+  evaluateHand,
+  splitHand,
+  doubleDownHand,
+  surrenderHand,
+  shouldOfferEarlySurrender,
+  canHit,
+} from './hand';
+import {
+  dealsHoleCard,
+  shouldPeekForBlackjack,
+  peekForBlackjack,
+  calculateNoHoleCardRefund,
+  getOriginalBet,
+} from './holeCard';
+import { getDealerDecision, describeDealerDecision } from './dealer';
+import {
+  placeBet,
+  cancelBet,
+  settleAllBets,
+  deductFromBalance,
+  validateDoubleBet,
+  validateSplitBet,
+  validateInsuranceBet,
+  getTableBalance,
+} from './betting';
+import { calculateInsurancePayout } from './insurance';
+import { createShoeState, needsShuffle, markRoundStart, updateCutCard, discardCards, reshuffleDiscards } from './shoe';
+import { createRoundProof, revealRoundProofs, revealRoundRecords, DEALER_ID } from './roundProof';
+import { getDealOrder, createHandResults, appendRoundRecord } from './history';
+import { generateClientSeed } from './probablyFair';
+import { DEFAULT_TABLE_RULES, getOpeningHandCount } from './rules';
+import { checkAction, isLegalTransition, type GameError } from './phases';
+import {
+  calculateSideBetPayout,
+  evaluateSideBet,
+  getSideBetDefinition,
+  isSideBetOffered,
+  isSideBetSettledAt,
+  type SideBetStage,
+} from './sideBets';
+import { isSwitchPending, switchSecondCards } from './blackjackSwitch';
+import { isFreeDouble, isFreeSplit } from './freeBet';
+import { finishDouble } from './spanish21';
+
+/**
+ * Starting bankroll for each seat
+ */
+export const INITIAL_BALANCE = 10000;
+
+/**
+ * Seat ids in table order
+ */
+export const SEAT_IDS = ['seat1', 'seat2', 'seat3', 'seat4', 'seat5'] as const;
+
+/**
+ * Input to the game engine: a player decision or the next automatic step of the round
+ */
+export type EngineAction =
+  | { type: 'placeBet'; seatId: string; amount: number; sideBetAmount?: number; sideBets?: Record<string, number> }
+  | { type: 'lockBets' }
+  | { type: 'deal' }
+  | { type: 'completeDeal' }
+  | { type: 'insurance'; seatId: string }
+  | { type: 'declineInsurance' }
+  | { type: 'checkDealer' }
+  | { type: 'surrender'; seatId?: string }
+  | { type: 'declineSurrender' }
+  | { type: 'nextTurn' }
+  | { type: 'switch' }
+  | { type: 'declineSwitch' }
+  | { type: 'hit' }
+  | { type: 'stand' }
+  | { type: 'double' }
+  | { type: 'split' }
+  | { type: 'advance' }
+  | { type: 'dealerStep' }
+  | { type: 'settle'; timestamp: number } // Settlement time in ms; the reducer never reads the clock
+  | { type: 'reset' };
+
+/**
+ * Something that happened while the engine applied an action
+ *
+ * Round events (cards, player actions, dealer decisions) are emitted as they
+ * are logged to `roundEvents`. Every phase change is reported with the action
+ * that caused it.
+ */
+export type EngineEvent =
+  | RoundEvent
+  | { type: 'phase'; from: GamePhase; to: GamePhase; action: EngineAction['type'] }
+  | { type: 'settled'; record: RoundRecord }
+  | { type: 'shuffle'; cards: number } // The shoe ran out mid-round and the discards went back in
+  | { type: 'rejected'; error: GameError };
+
+/**
+ * New state and the events produced by one engine step
+ */
+export interface EngineResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+/**
+ * Create empty seats for a table
+ *
+ * @param numPlayers - Number of seats (1-5)
+ * @param previous - Seats whose bankrolls carry over (default: none, every seat starts fresh)
+ * @returns Seats keyed by seat id
+ *
+ * @example
+ * ```typescript
+ * const seats = createInitialSeats(2, state.playerSeats);
+ * ```
+ */
+export function createInitialSeats(
+  numPlayers: number,
+  previous: Record<string, PlayerSeat> = {}
+): Record<string, PlayerSeat> {
+  const seats: Record<string, PlayerSeat> = {};
+  for (const seatId of SEAT_IDS.slice(0, numPlayers)) {
+    seats[seatId] = {
+      id: seatId,
+      hands: [createHand()],
+      active: false,
+      currentHandIndex: 0,
+      betLocked: false,
+      balance: previous[seatId]?.balance ?? INITIAL_BALANCE,
+    };
+  }
+  return seats;
+}
+
+/**
+ * Create the state of a new table with no shoe shuffled yet
+ *
+ * @param numPlayers - Number of seats (default: 1)
+ * @param rules - The table rules (default: DEFAULT_TABLE_RULES)
+ * @returns A fresh game state in the idle phase
+ *
+ * @example
+ * ```typescript
+ * const state = createGameState(2);
+ * ```
+ */
+export function createGameState(numPlayers: number = 1, rules: TableRules = DEFAULT_TABLE_RULES): GameState {
+  const playerSeats = createInitialSeats(numPlayers);
+  return {
+    phase: 'idle',
+    deck: [],
+    shoe: createShoeState(rules),
+    roundProofs: [],
+    clientSeed: generateClientSeed(),
+    nonce: 0,
+    dealerHand: [],
+    dealerDecisions: [],
+    roundEvents: [],
+    history: [],
+    playerSeats,
+    numPlayers,
+    rules,
+    activeSeatId: null,
+    insuranceBets: {},
+    balance: getTableBalance(playerSeats),
+    message: 'Place your bets',
+    turnQueue: [],
+    currentTurnIndex: 0,
+  };
+}
+
+// Round log entries
+const dealEvent = (recipient: string, handIndex: number, card: Card): RoundEvent => ({
+  type: 'deal',
+  recipient,
+  handIndex,
+  card,
+});
+
+const actionEvent = (type: GameAction['type'], seatId: string, handIndex: number): RoundEvent => ({
+  type: 'action',
+  action: { type, seatId, handIndex },
+});
+
+const revealDealer = (cards: Card[]) => cards.map(card => ({ ...card, faceUp: true }));
+
+const updateSeat = (state: GameState, seatId: string, update: Partial<PlayerSeat>) => ({
+  ...state.playerSeats,
+  [seatId]: { ...state.playerSeats[seatId], ...update },
+});
+
+const replaceHand = (hands: Hand[], index: number, hand: Hand) => hands.map((h, i) => (i === index ? hand : h));
+
+// The transition guards make sure a seat is up before a player decision reaches the reducer
+const getActiveSeat = (state: GameState) => state.playerSeats[state.activeSeatId as string];
+
+/**
+ * Whether the hand in play can take no further decisions
+ */
+// A Spanish 21 double stays open until the player stands, re-doubles or rescues it
+const isHandFinished = (hand: Hand) =>
+  hand.status !== 'playing' || evaluateHand(hand.cards, hand.isSplit).value === 21 || (!hand.canHit && !hand.isDouble);
+
+// One reduction in progress: handlers log round events and rejections here
+interface Step {
+  events: EngineEvent[];
+  log: (state: GameState, ...entries: RoundEvent[]) => RoundEvent[];
+  reject: (state: GameState, reason: string, code?: GameError['code']) => GameState;
+}
+
+const createStep = (action: EngineAction): Step => {
+  const events: EngineEvent[] = [];
+  return {
+    events,
+    log: (state, ...entries) => {
+      events.push(...entries);
+      return [...state.roundEvents, ...entries];
+    },
+    reject: (state, reason, code = 'INVALID_MOVE') => {
+      events.push({ type: 'rejected', error: { code, action: action.type, phase: state.phase, reason } });
+      return { ...state, message: reason };
+    },
+  };
+};
+
+// The parts of the state a card draw touches
+type ShoeTable = Pick<GameState, 'deck' | 'shoe' | 'roundProofs' | 'history'>;
+
+// Deal the next card. A shoe that runs dry mid-round is refilled from the discard tray; the
+// committed cards are all dealt by then, so the shoe's seed is revealed on the rounds it dealt
+const drawCard = (table: ShoeTable, step: Step, faceUp = true): { card: Card; table: ShoeTable } => {
+  if (table.deck.length > 0) {
+    const { card, remainingDeck } = dealCard(table.deck, faceUp);
+    const { shoe, roundProofs, history } = table;
+    return { card, table: { deck: remainingDeck, shoe, roundProofs, history } };
+  }
+
+  const proof = table.shoe.proof;
+  const { deck, shoe } = reshuffleDiscards(table.deck, table.shoe);
+  step.events.push({ type: 'shuffle', cards: deck.length });
+
+  const refilled = {
+    deck,
+    shoe,
+    roundProofs: proof ? revealRoundProofs(table.roundProofs, proof) : table.roundProofs,
+    history: proof ? revealRoundRecords(table.history, proof) : table.history,
+  };
+  return drawCard(refilled, step, faceUp);
+};
+
+// Dealer's initial cards: upcard plus a face-down hole card unless playing ENHC.
+// Double Exposure deals the hole card face up too
+const dealDealerCards = (table: ShoeTable, step: Step, rules: TableRules) => {
+  const upCard = drawCard(table, step);
+  if (!dealsHoleCard(rules)) {
+    return { cards: [upCard.card], table: upCard.table };
+  }
+
+  const holeCard = drawCard(upCard.table, step, rules.variant === 'doubleExposure');
+  return { cards: [upCard.card, holeCard.card], table: holeCard.table };
+};
+
+const startDealerTurn = (state: GameState): GameState => ({
+  ...state,
+  phase: 'dealerTurn',
+  dealerDecisions: [],
+  message: 'Dealer playing',
+});
+
+const moveToNextTurn = (state: GameState): GameState => {
+  let nextIndex = state.currentTurnIndex + 1;
+
+  // Skip hands that are already resolved (blackjack, surrender), and switch decisions with nothing left to play
+  while (nextIndex < state.turnQueue.length) {
+    const entry = state.turnQueue[nextIndex];
+    const hands = state.playerSeats[entry.seatId].hands;
+    const isOpen = entry.decision === 'switch'
+      ? hands.some(hand => hand.status === 'playing')
+      : hands[entry.handIndex]?.status === 'playing';
+    if (isOpen) break;
+    nextIndex++;
+  }
+
+  if (nextIndex >= state.turnQueue.length) {
+    // All turns complete, move to dealer
+    return startDealerTurn({ ...state, activeSeatId: null });
+  }
+
+  const nextEntry = state.turnQueue[nextIndex];
+  return {
+    ...state,
+    currentTurnIndex: nextIndex,
+    activeSeatId: nextEntry.seatId,
+    playerSeats: updateSeat(state, nextEntry.seatId, { currentHandIndex: nextEntry.handIndex }),
+    message: nextEntry.decision === 'switch' ? `${nextEntry.seatId}: switch the second cards?` : `${nextEntry.seatId}'s turn`,
+  };
+};
+
+const moveToNextHand = (state: GameState): GameState => {
+  if (!state.activeSeatId) return state;
+
+  const seat = state.playerSeats[state.activeSeatId];
+
+  // Check if there are more hands for this seat
+  if (seat.currentHandIndex < seat.hands.length - 1) {
+    return {
+      ...state,
+      playerSeats: updateSeat(state, seat.id, { currentHandIndex: seat.currentHandIndex + 1 }),
+      message: 'Next hand',
+    };
+  }
+
+  // All hands for this seat complete, move to next player turn
+  return moveToNextTurn(state);
+};
+
+const peek = (state: GameState, step: Step): GameState => {
+  const isPeeking = shouldPeekForBlackjack(state.dealerHand[0], state.rules);
+  const dealerHasBlackjack = peekForBlackjack(state.dealerHand, state.rules);
+
+  let hasAnyPlayerBlackjack = false;
+  let hasAnyPlayableHand = false;
+
+  // Naturals stand immediately; they are paid (or pushed) at settlement
+  const playerSeats: Record<string, PlayerSeat> = {};
+  for (const [seatId, seat] of Object.entries(state.playerSeats)) {
+    if (!seat.active) {
+      playerSeats[seatId] = seat;
+      continue;
+    }
+
+    playerSeats[seatId] = {
+      ...seat,
+      hands: seat.hands.map(hand => {
+        if (hand.status !== 'blackjack') {
+          if (hand.status === 'playing') hasAnyPlayableHand = true;
+          return hand;
+        }
+
+        hasAnyPlayerBlackjack = true;
+        return { ...hand, status: 'stand' as const };
+      }),
+    };
+  }
+
+  if (dealerHasBlackjack) {
+    return {
+      ...state,
+      playerSeats,
+      dealerHand: revealDealer(state.dealerHand),
+      roundEvents: step.log(state, { type: 'reveal' }),
+      phase: 'settlement',
+      message: hasAnyPlayerBlackjack ? 'Dealer Blackjack! Blackjack push on matching hands' : 'Dealer Blackjack!',
+    };
+  }
+
+  const peekMessage = isPeeking ? 'Dealer checked: no Blackjack. ' : '';
+
+  if (!hasAnyPlayableHand) {
+    const settled = { ...state, playerSeats, message: `${peekMessage}Blackjack pays ${state.rules.blackjackPayout}!` };
+
+    // Without a hole card the dealer still draws to see if the naturals push
+    if (!dealsHoleCard(state.rules)) {
+      return startDealerTurn(settled);
+    }
+
+    return {
+      ...settled,
+      dealerHand: revealDealer(state.dealerHand),
+      roundEvents: step.log(state, { type: 'reveal' }),
+      phase: 'settlement',
+    };
+  }
+
+  return {
+    ...state,
+    playerSeats,
+    phase: 'playerTurns',
+    message: hasAnyPlayerBlackjack
+      ? `${peekMessage}Blackjack pays ${state.rules.blackjackPayout}. Continue playing.`
+      : `${peekMessage}Players' turn`,
+  };
+};
+
+// The cards a seat was dealt before anyone acted, which side bets are settled on even after a split or switch
+const getOpeningCards = (state: GameState, seatId: string): Card[] => {
+  const firstAction = state.roundEvents.findIndex(event => event.type === 'action');
+  const opening = firstAction === -1 ? state.roundEvents : state.roundEvents.slice(0, firstAction);
+  return opening.flatMap(event => (event.type === 'deal' && event.recipient === seatId ? [event.card] : []));
+};
+
+// Settle the side bets whose cards are all known at this stage of the round
+const evaluateSideBets = (state: GameState, stage: SideBetStage): Record<string, PlayerSeat> => {
+  const playerSeats: Record<string, PlayerSeat> = {};
+
+  for (const [seatId, seat] of Object.entries(state.playerSeats)) {
+    playerSeats[seatId] = !seat.active ? seat : {
+      ...seat,
+      hands: seat.hands.map(hand => {
+        if (!hand.sideBets || hand.sideBets.length === 0) return hand;
+
+        const playerCards = hand.isSplit || state.rules.variant === 'switch' ? getOpeningCards(state, seatId) : hand.cards;
+        const sideBets = hand.sideBets.map(bet => {
+          const definition = getSideBetDefinition(bet.type);
+          if (!definition || !isSideBetSettledAt(definition, stage)) return bet;
+          return evaluateSideBet(bet, playerCards, state.dealerHand, state.rules.sideBetPaytables[bet.type]);
+        });
+
+        return { ...hand, sideBets };
+      }),
+    };
+  }
+
+  return playerSeats;
+};
+
+// Side bets for a new hand: the named bets plus the legacy 21+3 amount
+const createSideBets = (action: Extract<EngineAction, { type: 'placeBet' }>): SideBet[] => {
+  const amounts = { ...action.sideBets };
+  if (action.sideBetAmount) {
+    amounts.twentyOneThree = (amounts.twentyOneThree ?? 0) + action.sideBetAmount;
+  }
+  return Object.entries(amounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([type, amount]) => ({ type, amount }));
+};
+
+// Phases and guards are checked against PHASE_TRANSITIONS before an action gets here
+const reduce = (state: GameState, action: EngineAction, step: Step): GameState => {
+  switch (action.type) {
+    case 'placeBet': {
+      const seat = state.playerSeats[action.seatId];
+
+      // A new bet replaces the seat's previous one, which goes back to its bankroll first
+      const previousStake = seat.active
+        ? seat.hands.reduce(
+          (sum, hand) => sum + hand.bet + (hand.sideBets ?? []).reduce((sideSum, sideBet) => sideSum + sideBet.amount, 0),
+          0
+        )
+        : 0;
+      const sideBets = createSideBets(action);
+      for (const sideBet of sideBets) {
+        const definition = getSideBetDefinition(sideBet.type);
+        if (!definition) {
+          return step.reject(state, `Unknown side bet: ${sideBet.type}`);
+        }
+        if (!isSideBetOffered(definition, state.rules)) {
+          return step.reject(state, `${definition.name} is not offered at this table`);
+        }
+      }
+
+      // Blackjack Switch stakes the bet on each of the seat's two hands
+      const handCount = getOpeningHandCount(state.rules);
+      const totalCost = action.amount * handCount + sideBets.reduce((sum, sideBet) => sum + sideBet.amount, 0);
+      const result = placeBet(cancelBet(seat.balance, previousStake), totalCost);
+
+      if (!result.success) {
+        return step.reject(state, result.error ?? 'Insufficient balance');
+      }
+
+      // Side bets ride on the first hand
+      const hands = Array.from({ length: handCount }, () => createHand(action.amount));
+      if (sideBets.length > 0) {
+        hands[0].sideBets = sideBets;
+      }
+
+      return {
+        ...state,
+        playerSeats: updateSeat(state, seat.id, { hands, active: true, balance: result.newBalance }),
+        phase: 'bettingOpen',
+        message: 'Bet placed',
+      };
+    }
+
+    case 'lockBets': {
+      const playerSeats: Record<string, PlayerSeat> = {};
+      for (const [seatId, seat] of Object.entries(state.playerSeats)) {
+        playerSeats[seatId] = seat.active ? { ...seat, betLocked: true } : seat;
+      }
+
+      return { ...state, playerSeats, phase: 'bettingLocked', message: 'Bets locked' };
+    }
+
+    case 'deal': {
+      let table: ShoeTable = { ...state, shoe: markRoundStart(state.deck, state.shoe) };
+      const playerSeats = { ...state.playerSeats };
+      const turnQueue: TurnQueueEntry[] = [];
+      const roundEvents: RoundEvent[] = [];
+
+      // Deal initial cards - 2 to each hand of every active seat, 2 to dealer
+      for (const [seatId, seat] of Object.entries(playerSeats)) {
+        if (!seat.active) continue;
+
+        const hands: Hand[] = [];
+        for (const [handIndex, hand] of seat.hands.entries()) {
+          const result1 = drawCard(table, step);
+          const result2 = drawCard(result1.table, step);
+          hands.push(addCardToHand(addCardToHand(hand, result1.card), result2.card));
+          roundEvents.push(dealEvent(seatId, handIndex, result1.card), dealEvent(seatId, handIndex, result2.card));
+          table = result2.table;
+        }
+        playerSeats[seatId] = { ...seat, hands };
+
+        // Add to turn queue for sequential play; a Switch seat decides on the switch first
+        if (state.rules.variant === 'switch') {
+          turnQueue.push({ seatId, handIndex: 0, decision: 'switch' });
+        }
+        turnQueue.push(...hands.map((_, handIndex) => ({ seatId, handIndex })));
+      }
+
+      // Deal dealer cards (1 up, 1 down; no hole card under ENHC)
+      const dealerDeal = dealDealerCards(table, step, state.rules);
+      roundEvents.push(...dealerDeal.cards.map(card => dealEvent(DEALER_ID, 0, card)));
+      step.events.push(...roundEvents);
+
+      return {
+        ...state,
+        ...dealerDeal.table,
+        dealerHand: dealerDeal.cards,
+        dealerDecisions: [],
+        roundEvents,
+        playerSeats,
+        turnQueue,
+        currentTurnIndex: -1, // Will be incremented before first turn
+        phase: 'dealing',
+        message: 'Dealing cards...',
+      };
+    }
+
+    case 'completeDeal': {
+      // Check for dealer ace (insurance opportunity); there is nothing to insure against when both cards show
+      const shouldOfferInsurance = state.dealerHand[0].rank === 'A' && state.rules.variant !== 'doubleExposure';
+
+      return {
+        ...state,
+        activeSeatId: shouldOfferInsurance ? state.turnQueue[0].seatId : null,
+        phase: shouldOfferInsurance ? 'insurance' : 'sideBetEvaluation',
+        message: shouldOfferInsurance ? 'Dealer showing Ace. Insurance?' : 'Evaluating side bets...',
+      };
+    }
+
+    case 'insurance': {
+      const seat = state.playerSeats[action.seatId];
+      // Insurance covers every hand the seat was dealt
+      const stake = seat.hands.reduce((sum, hand) => sum + hand.bet, 0);
+      const insuranceAmount = stake / 2;
+      const validation = validateInsuranceBet(insuranceAmount, stake, seat.balance);
+      if (!validation.valid) {
+        return step.reject(state, validation.error ?? 'Insufficient balance for insurance');
+      }
+
+      return {
+        ...state,
+        insuranceBets: { ...state.insuranceBets, [seat.id]: insuranceAmount },
+        roundEvents: step.log(state, actionEvent('insurance', seat.id, 0)),
+        playerSeats: updateSeat(state, seat.id, { balance: deductFromBalance(seat.balance, insuranceAmount) }),
+        activeSeatId: null,
+        phase: 'sideBetEvaluation',
+        message: 'Insurance placed',
+      };
+    }
+
+    case 'declineInsurance':
+      return { ...state, activeSeatId: null, phase: 'sideBetEvaluation', message: 'Insurance declined' };
+
+    case 'checkDealer': {
+      const evaluated = { ...state, playerSeats: evaluateSideBets(state, 'deal') };
+
+      // Early surrender is decided before the dealer checks for blackjack
+      if (shouldOfferEarlySurrender(state.dealerHand[0], state.rules)) {
+        return { ...evaluated, phase: 'earlySurrender', message: 'Surrender before the dealer checks for Blackjack?' };
+      }
+
+      return peek(evaluated, step);
+    }
+
+    case 'declineSurrender':
+      return peek({ ...state, message: 'Checking dealer for Blackjack...' }, step);
+
+    case 'surrender': {
+      const isEarly = state.phase === 'earlySurrender';
+      const seat = isEarly ? state.playerSeats[action.seatId as string] : getActiveSeat(state);
+      const seatId = seat.id;
+      const handIndex = isEarly ? 0 : seat.currentHandIndex;
+
+      let surrendered;
+      try {
+        surrendered = surrenderHand(seat.hands[handIndex], seat.hands.length, state.rules);
+      } catch (error) {
+        return step.reject(state, error instanceof Error ? error.message : 'Cannot surrender');
+      }
+
+      const next = {
+        ...state,
+        roundEvents: step.log(state, actionEvent('surrender', seatId, handIndex)),
+        playerSeats: updateSeat(state, seatId, { hands: replaceHand(seat.hands, handIndex, surrendered) }),
+        message: surrendered.isDouble
+          ? `${seatId} rescued the double. Doubled stake returned.`
+          : `${seatId} surrendered. Half the bet returned.`,
+      };
+
+      return isEarly ? next : moveToNextHand(next);
+    }
+
+    case 'nextTurn':
+      return moveToNextTurn(state);
+
+    case 'switch': {
+      const seat = getActiveSeat(state);
+      let hands;
+      try {
+        hands = switchSecondCards(seat.hands);
+      } catch (error) {
+        return step.reject(state, error instanceof Error ? error.message : 'Cannot switch');
+      }
+
+      return moveToNextTurn({
+        ...state,
+        roundEvents: step.log(state, actionEvent('switch', seat.id, 0)),
+        playerSeats: updateSeat(state, seat.id, { hands }),
+      });
+    }
+
+    case 'declineSwitch':
+      return moveToNextTurn(state);
+
+    case 'advance':
+      return moveToNextHand(state);
+
+    case 'hit': {
+      const seat = getActiveSeat(state);
+      const currentHand = seat.hands[seat.currentHandIndex];
+
+      // Check if hand can hit (prevents hitting on split Aces or completed hands)
+      if (!canHit(currentHand)) {
+        return moveToNextHand({
+          ...state,
+          message: currentHand.splitFromAces ? 'Split Aces receive only one card' : 'Cannot hit this hand',
+        });
+      }
+
+      const result = drawCard(state, step);
+      const updatedHand = addCardToHand(currentHand, result.card);
+      const handValue = evaluateHand(updatedHand.cards, updatedHand.isSplit);
+
+      return {
+        ...state,
+        ...result.table,
+        roundEvents: step.log(
+          state,
+          actionEvent('hit', seat.id, seat.currentHandIndex),
+          dealEvent(seat.id, seat.currentHandIndex, result.card)
+        ),
+        playerSeats: updateSeat(state, seat.id, { hands: replaceHand(seat.hands, seat.currentHandIndex, updatedHand) }),
+        message: handValue.isBust ? 'Bust!' : `Hand value: ${handValue.value}`,
+      };
+    }
+
+    case 'stand': {
+      const seat = getActiveSeat(state);
+      const updatedHand = { ...seat.hands[seat.currentHandIndex], status: 'stand' as const };
+
+      return moveToNextHand({
+        ...state,
+        roundEvents: step.log(state, actionEvent('stand', seat.id, seat.currentHandIndex)),
+        playerSeats: updateSeat(state, seat.id, { hands: replaceHand(seat.hands, seat.currentHandIndex, updatedHand) }),
+        message: 'Standing',
+      });
+    }
+
+    case 'double': {
+      const seat = getActiveSeat(state);
+      const currentHand = seat.hands[seat.currentHandIndex];
+      // Free Bet Blackjack: the house stakes doubles on hard 9-11
+      const isFree = isFreeDouble(currentHand, state.rules);
+
+      const validation = isFree ? { valid: true } : validateDoubleBet(currentHand.bet, seat.balance);
+      if (!validation.valid) {
+        return step.reject(state, validation.error ?? 'Insufficient balance to double');
+      }
+
+      let doubledHand;
+      try {
+        doubledHand = doubleDownHand(currentHand, state.rules);
+      } catch (error) {
+        return step.reject(state, error instanceof Error ? error.message : 'Cannot double');
+      }
+
+      const result = drawCard(state, step);
+      // Spanish 21 keeps a live double open for a re-double or rescue; it takes no more hits
+      const finalHand = finishDouble(addCardToHand(doubledHand, result.card), state.rules);
+      const staysOpen = finalHand.status === 'playing';
+
+      return {
+        ...state,
+        ...result.table,
+        roundEvents: step.log(
+          state,
+          actionEvent('double', seat.id, seat.currentHandIndex),
+          dealEvent(seat.id, seat.currentHandIndex, result.card)
+        ),
+        playerSeats: updateSeat(state, seat.id, {
+          hands: replaceHand(seat.hands, seat.currentHandIndex, finalHand),
+          balance: isFree ? seat.balance : deductFromBalance(seat.balance, currentHand.bet),
+        }),
+        message: staysOpen ? 'Doubled down. Stand, re-double or rescue' : isFree ? 'Free double' : 'Doubled down',
+      };
+    }
+
+    case 'split': {
+      const seat = getActiveSeat(state);
+      const currentHand = seat.hands[seat.currentHandIndex];
+
+      // The second hand is staked from the seat's own bankroll, or by the house for a Free Bet Blackjack free split
+      const isFree = isFreeSplit(currentHand, state.rules);
+      const validation = isFree ? { valid: true } : validateSplitBet(currentHand.bet, currentHand.bet, seat.balance);
+      if (!validation.valid) {
+        return step.reject(state, validation.error ?? 'Insufficient balance to split');
+      }
+
+      // Split the hand (max hands and re-split Aces come from table rules)
+      let split;
+      try {
+        split = splitHand(currentHand, seat.hands.length, state.rules);
+      } catch (error) {
+        return step.reject(state, error instanceof Error ? error.message : 'Cannot split');
+      }
+
+      const isSplittingAces = currentHand.cards[0].rank === 'A';
+
+      // Deal one card to each split hand
+      const result1 = drawCard(state, step);
+      const result2 = drawCard(result1.table, step);
+
+      // Side bets stay with the first hand
+      let newHand1 = addCardToHand({ ...split.hand1, sideBets: currentHand.sideBets }, result1.card);
+      let newHand2 = addCardToHand(split.hand2, result2.card);
+
+      // Auto-stand split Aces (they can only receive one card)
+      if (isSplittingAces) {
+        newHand1 = { ...newHand1, status: 'stand' as const };
+        newHand2 = { ...newHand2, status: 'stand' as const };
+      }
+
+      const hands = [...seat.hands];
+      hands.splice(seat.currentHandIndex, 1, newHand1, newHand2);
+
+      return {
+        ...state,
+        ...result2.table,
+        roundEvents: step.log(
+          state,
+          actionEvent('split', seat.id, seat.currentHandIndex),
+          dealEvent(seat.id, seat.currentHandIndex, result1.card),
+          dealEvent(seat.id, seat.currentHandIndex + 1, result2.card)
+        ),
+        playerSeats: updateSeat(state, seat.id, {
+          hands,
+          balance: isFree ? seat.balance : deductFromBalance(seat.balance, currentHand.bet),
+        }),
+        message: isSplittingAces ? 'Aces split (one card each)' : isFree ? 'Free split' : 'Hand split',
+      };
+    }
+
+    case 'dealerStep': {
+      // The first step flips the hole card; each step after a hit draws one card
+      const lastDecision = state.dealerDecisions[state.dealerDecisions.length - 1];
+      let table: ShoeTable = state;
+      let dealerHand = state.dealerHand;
+      const entries: RoundEvent[] = [];
+
+      if (!lastDecision) {
+        dealerHand = revealDealer(dealerHand);
+        entries.push({ type: 'reveal' });
+      } else if (lastDecision.action === 'hit') {
+        const result = drawCard(table, step);
+        dealerHand = [...dealerHand, result.card];
+        table = result.table;
+        entries.push(dealEvent(DEALER_ID, 0, result.card));
+      }
+
+      const decision = getDealerDecision(dealerHand, state.rules);
+      entries.push({ type: 'dealer', decision });
+
+      return {
+        ...state,
+        ...table,
+        dealerHand,
+        dealerDecisions: [...state.dealerDecisions, decision],
+        roundEvents: step.log(state, ...entries),
+        phase: decision.action === 'hit' ? 'dealerTurn' : 'settlement',
+        message: describeDealerDecision(decision),
+      };
+    }
+
+    case 'settle': {
+      const { timestamp } = action;
+      // Side bets on the dealer's hand are settled once it is finished
+      const playerSeats = evaluateSideBets(state, 'dealer');
+      const results = createHandResults(playerSeats, state.dealerHand, state.rules, timestamp);
+      let totalPayout = 0;
+      let insuranceNet = 0;
+      let sideBetPayout = 0;
+
+      // Each seat is paid into its own bankroll; stakes were deducted when they were placed
+      for (const seat of Object.values(playerSeats)) {
+        if (!seat.active) continue;
+
+        const handPayouts = results.filter(result => result.seatId === seat.id).map(result => result.payout);
+        // ENHC "original bets only": doubled and split stakes come back on a dealer blackjack
+        const refund = calculateNoHoleCardRefund(seat.hands, state.dealerHand, state.rules);
+        // Insurance pays 2:1 plus the stake when the dealer has blackjack
+        const insurancePayout = calculateInsurancePayout(state.insuranceBets[seat.id] ?? 0, state.dealerHand);
+        const sideBetReturn = calculateSideBetPayout(seat.hands);
+
+        const settlement = settleAllBets(seat.balance, [...handPayouts, refund, insurancePayout, sideBetReturn]);
+        playerSeats[seat.id] = { ...seat, balance: settlement.newBalance };
+        totalPayout += settlement.payout - insurancePayout - sideBetReturn;
+        insuranceNet += insurancePayout;
+        sideBetPayout += sideBetReturn;
+      }
+
+      const shoe = updateCutCard(state.deck, state.shoe);
+      const cutCardMessage = shoe.cutCardReached && !state.shoe.cutCardReached ? ' Cut card reached: shuffling before next round.' : '';
+      const roundProof = createRoundProof(
+        state.deck,
+        state.shoe,
+        state.roundProofs.length + 1,
+        timestamp,
+        getDealOrder(state.roundEvents)
+      );
+      const activeSeats = Object.values(state.playerSeats).filter(seat => seat.active);
+
+      const record: RoundRecord = {
+        round: (state.history[state.history.length - 1]?.round ?? 0) + 1,
+        timestamp,
+        rules: state.rules,
+        bets: activeSeats.map(seat => ({ seatId: seat.id, amount: getOriginalBet(seat.hands[0]) })),
+        events: state.roundEvents,
+        dealerCards: state.dealerHand,
+        results,
+        insuranceBets: state.insuranceBets,
+        insurancePayout: insuranceNet,
+        totalPayout,
+        sideBetPayout,
+        proof: roundProof,
+      };
+      step.events.push({ type: 'settled', record });
+
+      return {
+        ...state,
+        playerSeats,
+        insuranceBets: {},
+        shoe,
+        roundProofs: roundProof ? [...state.roundProofs, roundProof] : state.roundProofs,
+        history: appendRoundRecord(state.history, record),
+        phase: 'complete',
+        message: `Round complete. Payout: ${totalPayout}${insuranceNet !== 0 ? `, Insurance: ${insuranceNet}` : ''}${sideBetPayout !== 0 ? `, Side bets: ${sideBetPayout}` : ''}${cutCardMessage}`,
+      };
+    }
+
+    case 'reset': {
+      // Clear the table into the discard tray; the shoe itself carries over
+      const tableCards = [
+        ...state.dealerHand,
+        ...Object.values(state.playerSeats).flatMap(seat => seat.hands.flatMap(hand => hand.cards)),
+      ];
+
+      return {
+        ...state,
+        phase: 'bettingOpen',
+        shoe: discardCards(state.shoe, tableCards),
+        dealerHand: [],
+        dealerDecisions: [],
+        roundEvents: [],
+        playerSeats: createInitialSeats(state.numPlayers, state.playerSeats),
+        activeSeatId: null,
+        insuranceBets: {},
+        turnQueue: [],
+        currentTurnIndex: 0,
+        message: needsShuffle(state.deck, state.shoe) ? 'Shuffling new shoe. Place your bets' : 'Place your bets',
+      };
+    }
+  }
+};
+
+/**
+ * Apply one action to the game
+ *
+ * The reducer is pure: it never schedules timers or shuffles. Every action is
+ * checked against PHASE_TRANSITIONS first; an action that is illegal in the
+ * current phase, fails its guard or breaks the rules sets the table message
+ * and emits a `rejected` event carrying a typed GameError.
+ *
+ * @param state - Current game state
+ * @param action - Player decision or automatic step
+ * @returns The next state and the events it produced
+ *
+ * @example
+ * ```typescript
+ * const { state: next, events } = gameReducer(state, { type: 'hit' });
+ * ```
+ */
+export function gameReducer(state: GameState, action: EngineAction): EngineResult {
+  const step = createStep(action);
+  const error = checkAction(state, action);
+  if (error) {
+    return { state: step.reject(state, error.reason, error.code), events: step.events };
+  }
+
+  const reduced = reduce(state, action, step);
+  if (reduced === state) {
+    return { state, events: step.events };
+  }
+
+  if (!isLegalTransition(action.type, state.phase, reduced.phase)) {
+    throw new Error(`Illegal transition from ${state.phase} to ${reduced.phase} on ${action.type}`);
+  }
+
+  // Seat bankrolls are the source of truth; the table balance always reconciles to them
+  const next = { ...reduced, balance: getTableBalance(reduced.playerSeats) };
+  if (next.phase !== state.phase) {
+    step.events.push({ type: 'phase', from: state.phase, to: next.phase, action: action.type });
+  }
+
+  return { state: next, events: step.events };
+}
+
+/**
+ * The automatic step the round takes next, if any
+ *
+ * Dealing, the insurance offer, the dealer check, turn order, the dealer's draws and settlement
+ * advance without player input. Adapters decide when to apply them (the
+ * store waits for animations; a server can apply them at once). Settlement is
+ * stamped with the time the step is taken, so the reducer stays pure.
+ *
+ * @param state - Current game state
+ * @returns The next automatic action, or null when the table waits for a player
+ *
+ * @example
+ * ```typescript
+ * const next = getNextAction(state);
+ * if (next) state = gameReducer(state, next).state;
+ * ```
+ */
+export function getNextAction(state: GameState): EngineAction | null {
+  switch (state.phase) {
+    case 'bettingLocked':
+      return { type: 'deal' };
+    case 'dealing':
+      return { type: 'completeDeal' };
+    case 'sideBetEvaluation':
+      return { type: 'checkDealer' };
+    case 'playerTurns': {
+      if (!state.activeSeatId) return { type: 'nextTurn' };
+      if (isSwitchPending(state)) return null;
+      const seat = state.playerSeats[state.activeSeatId];
+      return isHandFinished(seat.hands[seat.currentHandIndex]) ? { type: 'advance' } : null;
+    }
+    case 'dealerTurn':
+      return { type: 'dealerStep' };
+    case 'settlement':
+      return { type: 'settle', timestamp: Date.now() };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply automatic steps until the table needs a player decision
+ *
+ * @param state - Current game state
+ * @returns The state waiting for input and every event produced on the way
+ *
+ * @example
+ * ```typescript
+ * let { state } = gameReducer(table, { type: 'lockBets' });
+ * ({ state } = advanceGame(state)); // dealt, checked and waiting on the first player
+ * ```
+ */
+export function advanceGame(state: GameState): EngineResult {
+  const events: EngineEvent[] = [];
+  let current = state;
+
+  for (let action = getNextAction(current); action; action = getNextAction(current)) {
+    const result = gameReducer(current, action);
+    events.push(...result.events);
+    const stalled = result.state === current || result.events.some(event => event.type === 'rejected');
+    current = result.state;
+    // A rejected automatic step (e.g. the shoe needs shuffling) waits for the adapter
+    if (stalled) break;
+  }
+
+  return { state: current, events };
+}
@@ -1,4 +1,6 @@
-import type { Card, Hand, HandValue } from '../types';
+import type { Card, Hand, HandOutcome, HandValue, TableRules } from '../types';
+import { isDealer22Push, isDoubleTotalAllowed, SPANISH_21_MAX_DOUBLES } from './rules';
+import { isFreeDouble, isFreeSplit } from './freeBet';
 
 /**
  * Get the numeric value of a card rank
@@ -51,18 +53,23 @@ export function evaluateHand(cards: Card[], isSplitHand: boolean = false): HandV
 
 /**
  * Check if a hand can be split (pair of same rank)
+ *
+ * Accepts either a TableRules object or the legacy positional limits.
+ *
  * @param hand - The hand to check
  * @param currentHandCount - Current number of hands (to enforce max limit)
- * @param maxHands - Maximum number of hands allowed (default: 4)
- * @param allowResplitAces - Whether Aces can be re-split (default: false)
+ * @param maxHandsOrRules - Maximum number of hands allowed (default: 4), or the table rules
+ * @param allowResplitAces - Whether Aces can be re-split (default: false, ignored when rules are passed)
  * @returns True if the hand can be split
  */
 export function canSplit(
   hand: Hand,
   currentHandCount: number = 1,
-  maxHands: number = 4,
+  maxHandsOrRules: number | TableRules = 4,
   allowResplitAces: boolean = false
 ): boolean {
+  const { maxHands, resplitAces } = resolveSplitLimits(maxHandsOrRules, allowResplitAces);
+
   // Must have exactly 2 cards
   if (hand.cards.length !== 2) return false;
 
@@ -73,28 +80,95 @@ export function canSplit(
   if (currentHandCount >= maxHands) return false;
 
   // Split Aces typically cannot be re-split
-  if (hand.splitFromAces && !allowResplitAces) return false;
+  if (hand.splitFromAces && !resplitAces) return false;
 
   // Cannot split Aces that were already split (unless house rules allow)
-  if (hand.isSplit && hand.cards[0].rank === 'A' && !allowResplitAces) return false;
+  if (hand.isSplit && hand.cards[0].rank === 'A' && !resplitAces) return false;
 
   return true;
 }
 
 /**
  * Check if a hand can double down
+ *
+ * Accepts either a TableRules object (DAS and double restriction) or the legacy DAS flag.
+ * Spanish 21 hands may re-double after a double, up to SPANISH_21_MAX_DOUBLES in all.
+ *
  * @param hand - The hand to check
- * @param allowDoubleAfterSplit - Whether doubling is allowed after split (default: false)
+ * @param dasOrRules - Whether doubling is allowed after split (default: false), or the table rules
  * @returns True if the hand can be doubled down
  */
-export function canDouble(hand: Hand, allowDoubleAfterSplit: boolean = false): boolean {
+export function canDouble(hand: Hand, dasOrRules: boolean | TableRules = false): boolean {
+  const allowDoubleAfterSplit = typeof dasOrRules === 'boolean' ? dasOrRules : dasOrRules.doubleAfterSplit;
+
+  if (typeof dasOrRules !== 'boolean' && dasOrRules.variant === 'spanish21' && hand.isDouble) {
+    return hand.status === 'playing' && (hand.doubleCount ?? 1) < SPANISH_21_MAX_DOUBLES;
+  }
+
   if (hand.cards.length !== 2) return false;
   if (hand.isDouble) return false;
   if (hand.isSplit && !allowDoubleAfterSplit) return false;
 
+  // Restricted doubling (e.g. 9-11 only) applies when full table rules are supplied
+  if (typeof dasOrRules !== 'boolean') {
+    const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+    if (!isDoubleTotalAllowed(value, isSoft, dasOrRules)) return false;
+  }
+
   return true;
 }
 
+/**
+ * Check if a hand can be surrendered
+ *
+ * Surrender is only available on the original two-card hand, before any
+ * other action (no surrender after split or double). Spanish 21 adds the
+ * double-down rescue: a doubled hand may be surrendered for its doubled stake.
+ *
+ * @param hand - The hand to check
+ * @param currentHandCount - Current number of hands for the seat
+ * @param rules - The table rules
+ * @returns True if the hand can be surrendered
+ */
+export function canSurrender(hand: Hand, currentHandCount: number, rules: TableRules): boolean {
+  if (rules.variant === 'spanish21' && hand.isDouble) return hand.status === 'playing';
+  if (rules.surrender === 'none') return false;
+  if (currentHandCount !== 1) return false;
+  if (hand.status !== 'playing') return false;
+  if (hand.cards.length !== 2) return false;
+  if (hand.isSplit || hand.isDouble) return false;
+  return true;
+}
+
+/**
+ * Surrender a hand, forfeiting half the bet (the original bet for a rescued double)
+ * @param hand - The hand to surrender
+ * @param currentHandCount - Current number of hands for the seat
+ * @param rules - The table rules
+ * @returns A new Hand object with surrendered status
+ */
+export function surrenderHand(hand: Hand, currentHandCount: number, rules: TableRules): Hand {
+  if (!canSurrender(hand, currentHandCount, rules)) {
+    throw new Error('Cannot surrender this hand');
+  }
+
+  return {
+    ...hand,
+    status: 'surrendered',
+  };
+}
+
+/**
+ * Check if early surrender should be offered before the dealer checks for blackjack
+ * @param dealerUpCard - The dealer's visible card
+ * @param rules - The table rules
+ * @returns True if rules allow early surrender and the upcard could make a dealer blackjack
+ */
+export function shouldOfferEarlySurrender(dealerUpCard: Card, rules: TableRules): boolean {
+  if (rules.surrender !== 'early') return false;
+  return getCardValue(dealerUpCard.rank) >= 10;
+}
+
 /**
  * Check if a hand can hit (receive another card)
  * @param hand - The hand to check
@@ -160,22 +234,24 @@ export function addCardToHand(hand: Hand, card: Card): Hand {
  * Split a hand into two hands
  * @param hand - The hand to split
  * @param currentHandCount - Current number of hands (for validation)
- * @param maxHands - Maximum allowed hands (default: 4)
- * @param allowResplitAces - Whether Aces can be re-split (default: false)
- * @returns Object containing the two new hands
+ * @param maxHandsOrRules - Maximum allowed hands (default: 4), or the table rules
+ * @param allowResplitAces - Whether Aces can be re-split (default: false, ignored when rules are passed)
+ * @returns Object containing the two new hands; a Free Bet Blackjack free split stakes the second one with a free bet
  */
 export function splitHand(
   hand: Hand,
   currentHandCount: number = 1,
-  maxHands: number = 4,
+  maxHandsOrRules: number | TableRules = 4,
   allowResplitAces: boolean = false
 ): { hand1: Hand; hand2: Hand } {
-  if (!canSplit(hand, currentHandCount, maxHands, allowResplitAces)) {
+  const { maxHands, resplitAces } = resolveSplitLimits(maxHandsOrRules, allowResplitAces);
+  if (!canSplit(hand, currentHandCount, maxHands, resplitAces)) {
     throw new Error('Cannot split this hand');
   }
 
   const [card1, card2] = hand.cards;
   const isSplittingAces = card1.rank === 'A';
+  const isFree = typeof maxHandsOrRules === 'object' && isFreeSplit(hand, maxHandsOrRules);
 
   return {
     hand1: {
@@ -186,6 +262,7 @@ export function splitHand(
       isSplit: true,
       splitFromAces: isSplittingAces,
       canHit: !isSplittingAces, // Split Aces can only receive one card
+      ...(hand.freeBet ? { freeBet: hand.freeBet } : {}),
     },
     hand2: {
       cards: [card2],
@@ -195,6 +272,7 @@ export function splitHand(
       isSplit: true,
       splitFromAces: isSplittingAces,
       canHit: !isSplittingAces, // Split Aces can only receive one card
+      ...(isFree ? { freeBet: hand.bet } : {}),
     },
   };
 }
@@ -202,33 +280,48 @@ export function splitHand(
 /**
  * Double down a hand (double bet, will receive exactly one more card)
  * @param hand - The hand to double down
- * @param allowDoubleAfterSplit - Whether doubling is allowed after split (default: false)
- * @returns A new Hand object with doubled bet
+ * @param dasOrRules - Whether doubling is allowed after split (default: false), or the table rules
+ * @returns A new Hand object with doubled bet; a Free Bet Blackjack free double adds the stake as a free bet
  */
-export function doubleDownHand(hand: Hand, allowDoubleAfterSplit: boolean = false): Hand {
-  if (!canDouble(hand, allowDoubleAfterSplit)) {
+export function doubleDownHand(hand: Hand, dasOrRules: boolean | TableRules = false): Hand {
+  if (!canDouble(hand, dasOrRules)) {
     throw new Error('Cannot double down this hand');
   }
 
-  return {
+  const doubled = {
     ...hand,
     bet: hand.bet * 2,
     isDouble: true,
+    doubleCount: (hand.doubleCount ?? (hand.isDouble ? 1 : 0)) + 1,
   };
+  return typeof dasOrRules === 'object' && isFreeDouble(hand, dasOrRules)
+    ? { ...doubled, freeBet: (hand.freeBet ?? 0) + hand.bet }
+    : doubled;
 }
 
 /**
  * Compare player hand to dealer hand and determine outcome
+ *
+ * In Spanish 21 a player blackjack beats a dealer blackjack and any other
+ * player 21 wins unless the dealer has blackjack. In Blackjack Switch and
+ * Free Bet Blackjack a dealer 22 pushes every hand that has not busted,
+ * except a blackjack; a 21 made by switching cards is never a blackjack. In
+ * Double Exposure the dealer wins ties, except against a player blackjack.
+ *
  * @param playerHand - The player's hand
  * @param dealerCards - The dealer's cards
+ * @param rules - The table rules (default: classic comparison)
  * @returns The outcome of the comparison
  */
-export function compareHands(
-  playerHand: Card[] | Hand,
-  dealerCards: Card[]
-): 'win' | 'loss' | 'push' | 'blackjack' {
+export function compareHands(playerHand: Card[] | Hand, dealerCards: Card[], rules?: TableRules): HandOutcome {
+  // Surrendered hands are settled for half the bet regardless of the dealer's hand
+  if (!Array.isArray(playerHand) && playerHand.status === 'surrendered') {
+    return 'surrender';
+  }
+
   const playerCards = Array.isArray(playerHand) ? playerHand : playerHand.cards;
-  const playerIsSplit = !Array.isArray(playerHand) && playerHand.isSplit;
+  // Like a split hand, a switched hand's two-card 21 is not a blackjack
+  const playerIsSplit = !Array.isArray(playerHand) && (playerHand.isSplit || !!playerHand.switched);
   const playerValue = evaluateHand(playerCards, playerIsSplit);
   const dealerValue = evaluateHand(dealerCards, false); // Dealer never splits
 
@@ -237,11 +330,25 @@ export function compareHands(
     return 'loss';
   }
 
+  if (rules && isDealer22Push(rules) && dealerValue.value === 22) {
+    return playerValue.isBlackjack ? 'blackjack' : 'push';
+  }
+
   // Dealer bust, player wins
   if (dealerValue.isBust) {
     return 'win';
   }
 
+  if (rules?.variant === 'spanish21') {
+    if (playerValue.isBlackjack) return 'blackjack';
+    if (playerValue.value === 21 && !dealerValue.isBlackjack) return 'win';
+  }
+
+  if (rules?.variant === 'doubleExposure') {
+    if (playerValue.isBlackjack) return 'blackjack';
+    if (playerValue.value === dealerValue.value) return 'loss';
+  }
+
   // Player blackjack (only possible on non-split hands)
   if (playerValue.isBlackjack) {
     if (dealerValue.isBlackjack) {
@@ -264,3 +371,16 @@ export function compareHands(
     return 'push';
   }
 }
+
+/**
+ * Normalize split limits from either TableRules or legacy positional arguments
+ */
+function resolveSplitLimits(
+  maxHandsOrRules: number | TableRules,
+  allowResplitAces: boolean
+): { maxHands: number; resplitAces: boolean } {
+  if (typeof maxHandsOrRules === 'number') {
+    return { maxHands: maxHandsOrRules, resplitAces: allowResplitAces };
+  }
+  return { maxHands: maxHandsOrRules.maxSplitHands, resplitAces: maxHandsOrRules.resplitAces };
+}
@@ -0,0 +1,216 @@
+import type { Card, GameAction, GameResult, Hand, PlayerSeat, RoundEvent, RoundRecord, TableRules } from '../types';
+import { describeDealerDecision, type DealerDecision } from './dealer';
+import { addCardToHand, compareHands, createHand, doubleDownHand, splitHand } from './hand';
+import { calculatePayout } from './payouts';
+import { DEALER_ID } from './roundProof';
+import { getOpeningHandCount } from './rules';
+import { switchSecondCards } from './blackjackSwitch';
+import { getFundedBet } from './freeBet';
+import { finishDouble } from './spanish21';
+
+/** Settled rounds kept in the session history */
+export const MAX_HISTORY_ROUNDS = 100;
+
+/**
+ * Table state at one step of a round replay
+ */
+export interface ReplayFrame {
+  /** Dealer's cards at this step */
+  dealerCards: Card[];
+  /** Hands per seat at this step */
+  seats: Record<string, Hand[]>;
+  /** Dealer decisions made so far */
+  dealerDecisions: DealerDecision[];
+  /** The event that produced this frame (null before the first event) */
+  event: RoundEvent | null;
+}
+
+/**
+ * List who received each card of a round, in deal order
+ *
+ * @param events - The round's events
+ * @returns Recipient of each dealt card ('dealer' or a seat id)
+ *
+ * @example
+ * ```typescript
+ * getDealOrder(state.roundEvents); // ['seat1', 'seat1', 'dealer', 'dealer', 'seat1']
+ * ```
+ */
+export function getDealOrder(events: RoundEvent[]): string[] {
+  return events.flatMap(event => (event.type === 'deal' ? [event.recipient] : []));
+}
+
+/**
+ * Settle every player hand against the dealer
+ *
+ * @param seats - Player seats at the end of the round (side bets already settled)
+ * @param dealerCards - The dealer's final hand
+ * @param rules - The table rules
+ * @param timestamp - Settlement time (ms since epoch)
+ * @returns One result per hand of every active seat
+ */
+export function createHandResults(
+  seats: Record<string, PlayerSeat>,
+  dealerCards: Card[],
+  rules: TableRules,
+  timestamp: number = Date.now()
+): GameResult[] {
+  return Object.values(seats)
+    .filter(seat => seat.active)
+    .flatMap(seat =>
+      seat.hands.map((hand, handIndex) => {
+        const outcome = compareHands(hand, dealerCards, rules);
+        return {
+          seatId: seat.id,
+          handIndex,
+          bet: getFundedBet(hand),
+          payout: calculatePayout(hand, outcome, rules),
+          outcome,
+          timestamp,
+          sideBets: hand.sideBets,
+        };
+      })
+    );
+}
+
+/**
+ * Add a settled round to the history, dropping the oldest past the limit
+ *
+ * @param history - Rounds recorded so far
+ * @param record - The round just settled
+ * @returns Updated history, oldest first
+ */
+export function appendRoundRecord(history: RoundRecord[], record: RoundRecord): RoundRecord[] {
+  return [...history, record].slice(-MAX_HISTORY_ROUNDS);
+}
+
+const ACTION_VERBS: Record<GameAction['type'], string> = {
+  hit: 'hits',
+  stand: 'stands',
+  double: 'doubles down',
+  split: 'splits',
+  surrender: 'surrenders',
+  insurance: 'takes insurance',
+  switch: 'switches the second cards',
+};
+
+/**
+ * Describe a round event for the replay log
+ *
+ * @param event - The event to describe
+ * @returns One line of text
+ *
+ * @example
+ * ```typescript
+ * describeRoundEvent({ type: 'action', action: { type: 'hit', seatId: 'seat1', handIndex: 0 } });
+ * // 'seat1 hits'
+ * ```
+ */
+export function describeRoundEvent(event: RoundEvent): string {
+  switch (event.type) {
+    case 'deal': {
+      const card = event.card.faceUp ? `${event.card.rank}${event.card.suit}` : 'a face-down card';
+      if (event.recipient === DEALER_ID) return `Dealer receives ${card}`;
+      return `${event.recipient} hand ${event.handIndex + 1} receives ${card}`;
+    }
+    case 'action':
+      return `${event.action.seatId} ${ACTION_VERBS[event.action.type]}`;
+    case 'reveal':
+      return 'Dealer reveals the hole card';
+    case 'dealer':
+      return describeDealerDecision(event.decision);
+  }
+}
+
+/**
+ * Apply one round event to a replay frame
+ */
+function applyRoundEvent(frame: ReplayFrame, event: RoundEvent, rules: TableRules): ReplayFrame {
+  const updateHands = (seatId: string, update: (hands: Hand[]) => Hand[]) => ({
+    ...frame,
+    seats: { ...frame.seats, [seatId]: update(frame.seats[seatId] ?? []) },
+    event,
+  });
+
+  switch (event.type) {
+    case 'deal':
+      if (event.recipient === DEALER_ID) {
+        return { ...frame, dealerCards: [...frame.dealerCards, event.card], event };
+      }
+      return updateHands(event.recipient, hands =>
+        hands.map((hand, i) => {
+          if (i !== event.handIndex) return hand;
+          const dealt = addCardToHand(hand, event.card);
+          // A doubled hand takes exactly one card, then stands or waits on a Spanish 21 re-double or rescue
+          return hand.isDouble ? finishDouble(dealt, rules) : dealt;
+        })
+      );
+
+    case 'action': {
+      const { type, seatId, handIndex = 0 } = event.action;
+      switch (type) {
+        case 'stand':
+          return updateHands(seatId, hands =>
+            hands.map((hand, i) => (i === handIndex ? { ...hand, status: 'stand' as const } : hand))
+          );
+        case 'double':
+          return updateHands(seatId, hands =>
+            hands.map((hand, i) => (i === handIndex ? doubleDownHand(hand, rules) : hand))
+          );
+        case 'surrender':
+          return updateHands(seatId, hands =>
+            hands.map((hand, i) => (i === handIndex ? { ...hand, status: 'surrendered' as const } : hand))
+          );
+        case 'split':
+          return updateHands(seatId, hands => {
+            const { hand1, hand2 } = splitHand(hands[handIndex], hands.length, rules);
+            return [...hands.slice(0, handIndex), hand1, hand2, ...hands.slice(handIndex + 1)];
+          });
+        case 'switch':
+          return updateHands(seatId, switchSecondCards);
+        default:
+          // Hits are shown by the card that follows; insurance does not change the hands
+          return { ...frame, event };
+      }
+    }
+
+    case 'reveal':
+      return { ...frame, dealerCards: frame.dealerCards.map(card => ({ ...card, faceUp: true })), event };
+
+    case 'dealer':
+      return { ...frame, dealerDecisions: [...frame.dealerDecisions, event.decision], event };
+  }
+}
+
+/**
+ * Rebuild the table as it stood after a number of round events
+ *
+ * Step 0 shows the opening bets; step record.events.length shows the
+ * round as it was settled.
+ *
+ * @param record - The recorded round
+ * @param step - Number of events to apply
+ * @returns The table state at that step
+ *
+ * @example
+ * ```typescript
+ * const frame = replayRound(history[0], 4);
+ * console.log(frame.dealerCards.length); // after the opening deal
+ * ```
+ */
+export function replayRound(record: RoundRecord, step: number): ReplayFrame {
+  const initial: ReplayFrame = {
+    dealerCards: [],
+    seats: Object.fromEntries(
+      record.bets.map(({ seatId, amount }) => [
+        seatId,
+        Array.from({ length: getOpeningHandCount(record.rules) }, () => createHand(amount)),
+      ])
+    ),
+    dealerDecisions: [],
+    event: null,
+  };
+
+  const steps = Math.max(0, Math.min(step, record.events.length));
+  return record.events.slice(0, steps).reduce((frame, event) => applyRoundEvent(frame, event, record.rules), initial);
+}
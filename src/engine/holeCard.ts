@@ -0,0 +1,122 @@
+import type { Card, Hand, TableRules } from '../types';
+import { evaluateHand, getCardValue, compareHands } from './hand';
+import { getFundedBet } from './freeBet';
+
+/**
+ * Determines if the dealer deals a face-down hole card during the initial deal.
+ * Under European no-hole-card (ENHC) rules the dealer receives a single card
+ * and draws the second one after all players have acted.
+ *
+ * @param rules - The table rules
+ * @returns True if the dealer receives a hole card
+ *
+ * @example
+ * ```typescript
+ * dealsHoleCard(DEFAULT_TABLE_RULES); // true
+ * dealsHoleCard(createTableRules({ holeCard: 'enhc' })); // false
+ * ```
+ */
+export function dealsHoleCard(rules: TableRules): boolean {
+  return rules.holeCard === 'peek';
+}
+
+/**
+ * Determines if the dealer should peek at the hole card for blackjack.
+ * American-style peek happens when the upcard is an Ace or ten-value card,
+ * after insurance has been resolved and before any player acts.
+ *
+ * @param dealerUpCard - The dealer's visible card
+ * @param rules - The table rules
+ * @returns True if the dealer should check for blackjack
+ *
+ * @example
+ * ```typescript
+ * const upCard = { rank: 'K', suit: '♠', faceUp: true };
+ * shouldPeekForBlackjack(upCard, DEFAULT_TABLE_RULES); // true
+ * ```
+ */
+export function shouldPeekForBlackjack(dealerUpCard: Card, rules: TableRules): boolean {
+  if (!dealsHoleCard(rules)) {
+    return false;
+  }
+
+  return getCardValue(dealerUpCard.rank) >= 10;
+}
+
+/**
+ * Peek at the dealer's hand for blackjack.
+ *
+ * @param dealerCards - The dealer's upcard and hole card
+ * @param rules - The table rules
+ * @returns True if the dealer peeks and has blackjack
+ *
+ * @example
+ * ```typescript
+ * const dealerCards = [
+ *   { rank: 'A', suit: '♠', faceUp: true },
+ *   { rank: 'Q', suit: '♥', faceUp: false }
+ * ];
+ * peekForBlackjack(dealerCards, DEFAULT_TABLE_RULES); // true
+ * ```
+ */
+export function peekForBlackjack(dealerCards: Card[], rules: TableRules): boolean {
+  if (dealerCards.length !== 2 || !shouldPeekForBlackjack(dealerCards[0], rules)) {
+    return false;
+  }
+
+  return evaluateHand(dealerCards).isBlackjack;
+}
+
+/**
+ * Get the stake a hand started with, before any double down.
+ *
+ * @param hand - The player's hand
+ * @returns The hand's bet excluding the doubled portion (and any Spanish 21 re-doubles)
+ *
+ * @example
+ * ```typescript
+ * const hand = { ...createHand(200), isDouble: true };
+ * getOriginalBet(hand); // 100
+ * ```
+ */
+export function getOriginalBet(hand: Hand): number {
+  return hand.bet / 2 ** (hand.doubleCount ?? (hand.isDouble ? 1 : 0));
+}
+
+/**
+ * Calculates the stake returned to a seat that lost to an ENHC dealer blackjack.
+ *
+ * Under "original bets only" the player loses just the initial wager; any
+ * money added by doubling or splitting is returned. Under "lose all" nothing
+ * is returned. Hands that do not lose to the dealer (player blackjack push,
+ * surrender) are not affected.
+ *
+ * @param hands - All hands of a single seat
+ * @param dealerCards - The dealer's final hand
+ * @param rules - The table rules
+ * @returns Amount to refund to the seat (0 when no refund applies)
+ *
+ * @example
+ * ```typescript
+ * // Split 8s into two $100 hands, dealer draws to blackjack
+ * calculateNoHoleCardRefund([hand1, hand2], dealerBlackjack, enhcRules); // 100
+ * ```
+ */
+export function calculateNoHoleCardRefund(hands: Hand[], dealerCards: Card[], rules: TableRules): number {
+  if (rules.holeCard !== 'enhc' || rules.noHoleCardLoss !== 'originalBetsOnly') {
+    return 0;
+  }
+
+  if (!evaluateHand(dealerCards).isBlackjack) {
+    return 0;
+  }
+
+  const losingHands = hands.filter(hand => compareHands(hand, dealerCards, rules) === 'loss');
+  if (losingHands.length === 0) {
+    return 0;
+  }
+
+  // Split hands all carry the original wager, so the first losing hand defines it
+  const staked = losingHands.reduce((total, hand) => total + getFundedBet(hand), 0);
+  return staked - getOriginalBet(losingHands[0]);
+}
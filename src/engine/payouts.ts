@@ -1,40 +1,57 @@
-import type { Hand } from '../types';
+import type { Hand, HandOutcome, TableRules } from '../types';
+import { DEFAULT_TABLE_RULES, getBlackjackMultiplier } from './rules';
+import { getOriginalBet } from './holeCard';
+import { getSpanish21Bonus } from './spanish21';
+import { getFundedBet } from './freeBet';
 
 /**
  * Calculate payout for a hand based on the game outcome.
  *
  * Payout Rules:
- * - Blackjack: 3:2 (e.g., $100 bet returns $250)
- * - Win: 1:1 (e.g., $100 bet returns $200)
+ * - Blackjack: per rules.blackjackPayout (3:2 default, e.g., $100 bet returns $250)
+ * - Win: 1:1 (e.g., $100 bet returns $200), or the Spanish 21 bonus for a bonus 21
  * - Push: Original bet returned (e.g., $100 bet returns $100)
+ * - Surrender: Half the bet returned (e.g., $100 bet returns $50)
  * - Loss: No payout (e.g., $100 bet returns $0)
  *
+ * A Free Bet Blackjack free stake (`hand.freeBet`) is paid on like the rest
+ * of the bet but never returned: a $100 hand with a free double wins $400 - $100.
+ *
  * @param hand - The player's hand containing bet amount
- * @param outcome - The result of the hand ('win' | 'loss' | 'push' | 'blackjack')
+ * @param outcome - The result of the hand ('win' | 'loss' | 'push' | 'blackjack' | 'surrender')
+ * @param rules - Table rules (default: DEFAULT_TABLE_RULES)
  * @returns The total payout amount (including original bet for wins)
  *
  * @example
  * ```typescript
  * const hand = createHand(100);
  * const payout = calculatePayout(hand, 'blackjack'); // Returns 250
+ * const sixFive = calculatePayout(hand, 'blackjack', createTableRules({ blackjackPayout: '6:5' })); // Returns 220
  * ```
  */
 export function calculatePayout(
   hand: Hand,
-  outcome: 'win' | 'loss' | 'push' | 'blackjack'
+  outcome: HandOutcome,
+  rules: TableRules = DEFAULT_TABLE_RULES
 ): number {
   switch (outcome) {
     case 'blackjack':
-      // Blackjack pays 3:2
-      return hand.bet + hand.bet * 1.5;
+      // Blackjack pays per table rules (3:2, 6:5 or 1:1)
+      return hand.bet + hand.bet * getBlackjackMultiplier(rules);
 
-    case 'win':
-      // Regular win pays 1:1
-      return hand.bet * 2;
+    case 'win': {
+      // Regular win pays 1:1; Spanish 21 pays more for some 21s
+      const bonus = rules.variant === 'spanish21' ? getSpanish21Bonus(hand) : null;
+      return getFundedBet(hand) + hand.bet * (bonus?.pays ?? 1);
+    }
 
     case 'push':
       // Push returns original bet
-      return hand.bet;
+      return getFundedBet(hand);
+
+    case 'surrender':
+      // Surrender returns half the bet
+      return calculateSurrenderRefund(hand);
 
     case 'loss':
       // Loss returns nothing
@@ -45,6 +62,26 @@ export function calculatePayout(
   }
 }
 
+/**
+ * Calculate the refund for a surrendered hand.
+ *
+ * The player forfeits half of the wager and the other half is returned.
+ * Applies to both late and early surrender. A doubled hand rescued in
+ * Spanish 21 forfeits the original bet and gets the doubled stake back.
+ *
+ * @param hand - The surrendered hand containing the bet amount
+ * @returns Half of the hand's bet, or the doubled stake of a rescued hand
+ *
+ * @example
+ * ```typescript
+ * const hand = createHand(100);
+ * const refund = calculateSurrenderRefund(hand); // Returns 50
+ * ```
+ */
+export function calculateSurrenderRefund(hand: Hand): number {
+  return hand.isDouble ? hand.bet - getOriginalBet(hand) : hand.bet / 2;
+}
+
 /**
  * Calculate insurance payout when dealer shows an Ace.
  *
@@ -73,7 +110,8 @@ export function calculateInsurancePayout(insuranceBet: number, dealerHasBlackjac
 /**
  * Calculate net profit or loss for a hand after payout.
  *
- * The profit is calculated by subtracting the original bet from the payout.
+ * The profit is calculated by subtracting the original bet from the payout;
+ * a Free Bet Blackjack free stake was never the player's, so it is not subtracted.
  * - Positive value: Player won money
  * - Zero: Break even (push)
  * - Negative value: Player lost money
@@ -93,7 +131,7 @@ export function calculateInsurancePayout(insuranceBet: number, dealerHasBlackjac
  * ```
  */
 export function calculateProfit(hand: Hand, payout: number): number {
-  return payout - hand.bet;
+  return payout - getFundedBet(hand);
 }
 
 /**
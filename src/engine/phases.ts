@@ -0,0 +1,188 @@
+import type { GamePhase, GameState } from '../types';
+import type { EngineAction } from './game';
+import { needsShuffle } from './shoe';
+import { isSwitchPending } from './blackjackSwitch';
+
+/**
+ * Why the engine refused an action
+ *
+ * - `WRONG_PHASE`: the action is not legal in the current phase (e.g. `hit` during `dealerTurn`)
+ * - `GUARD_FAILED`: the phase allows the action but the table is not ready for it
+ * - `INVALID_MOVE`: the rules or the seat's bankroll do not allow this decision
+ */
+export type GameErrorCode = 'WRONG_PHASE' | 'GUARD_FAILED' | 'INVALID_MOVE';
+
+/**
+ * A refused action, as carried by the engine's `rejected` event
+ */
+export interface GameError {
+  code: GameErrorCode;
+  action: EngineAction['type'];
+  phase: GamePhase;
+  reason: string;
+}
+
+/**
+ * Precondition for an action beyond its phase
+ *
+ * Returns the reason the action cannot be applied, or null when it can.
+ */
+export type PhaseGuard<A extends EngineAction = EngineAction> = (state: GameState, action: A) => string | null;
+
+/**
+ * Where an action may be applied and which phases it may move the table to
+ *
+ * Staying in the same phase is always allowed.
+ */
+export interface PhaseTransition<A extends EngineAction = EngineAction> {
+  from: readonly GamePhase[];
+  to: readonly GamePhase[];
+  guard?: PhaseGuard<A>;
+}
+
+type TransitionTable = {
+  [T in EngineAction['type']]: PhaseTransition<Extract<EngineAction, { type: T }>>;
+};
+
+// Shared guards
+const requireBets: PhaseGuard = state =>
+  Object.values(state.playerSeats).some(seat => seat.active && seat.hands[0].bet > 0)
+    ? null
+    : 'Please place at least one bet';
+
+// Bets lock against a committed shoe, so its seed hash is published before any card is dealt
+const requireShoe: PhaseGuard = state =>
+  needsShuffle(state.deck, state.shoe) ? 'The shoe must be shuffled before dealing' : null;
+
+const requireActiveSeat: PhaseGuard = state => (state.activeSeatId ? null : 'No hand is waiting for a decision');
+
+// Blackjack Switch: a seat decides on the switch before playing either hand
+const requireHandDecision: PhaseGuard = (state, action) =>
+  requireActiveSeat(state, action) ?? (isSwitchPending(state) ? 'Switch or keep the cards first' : null);
+
+const requireSwitchDecision: PhaseGuard = state => (isSwitchPending(state) ? null : 'No switch decision is pending');
+
+const requireSeat = (state: GameState, seatId: string | undefined) =>
+  seatId && state.playerSeats[seatId] ? null : 'Invalid seat';
+
+const PLAYER_TURN: PhaseTransition = { from: ['playerTurns'], to: ['dealerTurn'], guard: requireHandDecision };
+
+const SWITCH_DECISION: PhaseTransition = { from: ['playerTurns'], to: ['dealerTurn'], guard: requireSwitchDecision };
+
+/**
+ * Every engine action, the phases it is legal in and the phases it can lead to
+ *
+ * A round runs idle → bettingOpen → bettingLocked → dealing → (insurance) →
+ * sideBetEvaluation → (earlySurrender) → playerTurns → dealerTurn →
+ * settlement → complete, skipping ahead when the dealer or every seat has a
+ * natural. In Blackjack Switch each seat's turn opens with `switch` or
+ * `declineSwitch`. `reset` reopens betting for the next round.
+ */
+export const PHASE_TRANSITIONS: TransitionTable = {
+  placeBet: {
+    from: ['idle', 'bettingOpen'],
+    to: ['bettingOpen'],
+    guard: (state, action) => {
+      const seatError = requireSeat(state, action.seatId);
+      if (seatError) return seatError;
+      return state.playerSeats[action.seatId].betLocked ? 'Bets are locked' : null;
+    },
+  },
+  lockBets: {
+    from: ['idle', 'bettingOpen'],
+    to: ['bettingLocked'],
+    guard: (state, action) => requireBets(state, action) ?? requireShoe(state, action),
+  },
+  deal: {
+    from: ['bettingLocked'],
+    to: ['dealing'],
+    guard: (state, action) => requireBets(state, action) ?? requireShoe(state, action),
+  },
+  completeDeal: { from: ['dealing'], to: ['insurance', 'sideBetEvaluation'] },
+  insurance: {
+    from: ['insurance'],
+    to: ['sideBetEvaluation'],
+    guard: (state, action) => requireSeat(state, action.seatId),
+  },
+  declineInsurance: { from: ['insurance'], to: ['sideBetEvaluation'] },
+  checkDealer: { from: ['sideBetEvaluation'], to: ['earlySurrender', 'playerTurns', 'dealerTurn', 'settlement'] },
+  declineSurrender: { from: ['earlySurrender'], to: ['playerTurns', 'dealerTurn', 'settlement'] },
+  surrender: {
+    from: ['earlySurrender', 'playerTurns'],
+    to: ['dealerTurn'],
+    guard: (state, action) =>
+      state.phase === 'earlySurrender' ? requireSeat(state, action.seatId) : requireHandDecision(state, action),
+  },
+  nextTurn: { from: ['playerTurns'], to: ['dealerTurn'] },
+  switch: SWITCH_DECISION,
+  declineSwitch: SWITCH_DECISION,
+  hit: PLAYER_TURN,
+  stand: PLAYER_TURN,
+  double: PLAYER_TURN,
+  split: PLAYER_TURN,
+  advance: PLAYER_TURN,
+  dealerStep: { from: ['dealerTurn'], to: ['settlement'] },
+  settle: { from: ['settlement'], to: ['complete'] },
+  reset: { from: ['complete'], to: ['bettingOpen'] },
+};
+
+/**
+ * Check an action against the transition table before applying it
+ *
+ * @param state - Current game state
+ * @param action - Action about to be applied
+ * @returns The error to reject it with, or null when the action is legal
+ *
+ * @example
+ * ```typescript
+ * checkAction(state, { type: 'hit' });
+ * // During the dealer's turn:
+ * // { code: 'WRONG_PHASE', action: 'hit', phase: 'dealerTurn', reason: 'Cannot hit during dealerTurn' }
+ * ```
+ */
+export function checkAction(state: GameState, action: EngineAction): GameError | null {
+  const transition = PHASE_TRANSITIONS[action.type] as PhaseTransition;
+
+  if (!transition.from.includes(state.phase)) {
+    return { code: 'WRONG_PHASE', action: action.type, phase: state.phase, reason: `Cannot ${action.type} during ${state.phase}` };
+  }
+
+  const reason = transition.guard?.(state, action);
+  return reason ? { code: 'GUARD_FAILED', action: action.type, phase: state.phase, reason } : null;
+}
+
+/**
+ * Whether the table declares a move between two phases for an action
+ *
+ * @param action - Action type that caused the move
+ * @param from - Phase before the action
+ * @param to - Phase after the action
+ * @returns True if the transition is in PHASE_TRANSITIONS
+ *
+ * @example
+ * ```typescript
+ * isLegalTransition('settle', 'settlement', 'complete'); // true
+ * isLegalTransition('hit', 'dealerTurn', 'complete'); // false
+ * ```
+ */
+export function isLegalTransition(action: EngineAction['type'], from: GamePhase, to: GamePhase): boolean {
+  const transition = PHASE_TRANSITIONS[action];
+  return transition.from.includes(from) && (from === to || transition.to.includes(to));
+}
+
+/**
+ * Actions the table accepts in a phase, guards aside
+ *
+ * @param phase - Current phase
+ * @returns Action types legal in the phase, in table order
+ *
+ * @example
+ * ```typescript
+ * getPhaseActions('insurance'); // ['insurance', 'declineInsurance']
+ * ```
+ */
+export function getPhaseActions(phase: GamePhase): EngineAction['type'][] {
+  return (Object.keys(PHASE_TRANSITIONS) as EngineAction['type'][]).filter(action =>
+    PHASE_TRANSITIONS[action].from.includes(phase)
+  );
+}
@@ -0,0 +1,208 @@
+import type { TableRules } from '../types';
+
+/**
+ * Rules a preset fixes; penetration and side bet paytables are left to the table
+ */
+export type PresetRules = Omit<TableRules, 'penetration' | 'sideBetPaytables'>;
+
+export type RulePresetId =
+  | 'vegasStrip'
+  | 'atlanticCity'
+  | 'downtown'
+  | 'european'
+  | 'spanish21'
+  | 'switch'
+  | 'freeBet'
+  | 'doubleExposure';
+
+/**
+ * A named casino rule set
+ */
+export interface RulePreset {
+  id: RulePresetId;
+  name: string;
+  description: string;
+  rules: PresetRules;
+  houseEdge: number; // Estimated house advantage per initial bet (0.005 = 0.5%); see estimateHouseEdge
+}
+
+// House edge added by the shoe size, relative to a single deck (fractions of a bet)
+const DECK_EFFECTS: Record<number, number> = {
+  1: 0,
+  2: 0.0035,
+  3: 0.0043,
+  4: 0.0048,
+  5: 0.0051,
+  6: 0.0054,
+  7: 0.0056,
+  8: 0.0058,
+};
+
+// House edge added by the split limit; four hands or more costs nothing
+const SPLIT_EFFECTS: Record<number, number> = {
+  1: 0.0057, // No splitting at all
+  2: 0.0004,
+  3: 0.0001,
+};
+
+const PAYOUT_EFFECTS: Record<TableRules['blackjackPayout'], number> = {
+  '3:2': 0,
+  '6:5': 0.0139,
+  '1:1': 0.0227,
+};
+
+const DOUBLE_EFFECTS: Record<TableRules['doubleOn'], number> = {
+  any: 0,
+  '9-11': 0.0009,
+  '10-11': 0.0018,
+};
+
+const SURRENDER_EFFECTS: Record<TableRules['surrender'], number> = {
+  none: 0,
+  late: -0.0008,
+  early: -0.0063,
+};
+
+// Net cost of the variant's own rules: Spanish 21 loses the tens but gets back
+// most of it from 21 always winning, bonus 21s, re-doubling and rescue; the
+// Switch more than pays for its even-money blackjack and dealer 22 push; the
+// dealer 22 push costs Free Bet Blackjack a little more than its free stakes win;
+// seeing both dealer cards gives back what Double Exposure takes with even-money
+// blackjacks and lost ties
+const VARIANT_EFFECTS: Record<TableRules['variant'], number> = {
+  classic: 0,
+  spanish21: 0.0032,
+  switch: -0.0229,
+  freeBet: 0.0044,
+  doubleExposure: -0.0227,
+};
+
+/**
+ * Estimate the house edge of a rule set for a basic strategy player
+ *
+ * Starts from a single deck, S17, double on any two cards, no DAS, split to
+ * four hands, 3:2 game (which is close to break-even) and adds the published
+ * effect of each rule that differs. It is an estimate: rule effects are only
+ * nearly additive. For classic rules it agrees with a seeded 200,000-round
+ * `simulateRounds()` to within half a percent, the simulation's own noise at
+ * that length. The variant effects are published figures the simulator cannot
+ * check, since it plays classic basic strategy (see `hasStrategyModel()`).
+ *
+ * @param rules - The table rules
+ * @returns House advantage per initial bet (0.005 = 0.5%)
+ *
+ * @example
+ * ```typescript
+ * estimateHouseEdge(DEFAULT_TABLE_RULES); // 0.004 (6 decks, S17, DAS)
+ * estimateHouseEdge(createTableRules({ blackjackPayout: '6:5' })); // 0.0179
+ * ```
+ */
+export function estimateHouseEdge(rules: PresetRules): number {
+  const deckEffect = DECK_EFFECTS[Math.min(rules.deckCount, 8)];
+  const edge =
+    deckEffect +
+    (rules.hitOnSoft17 ? 0.002 : 0) +
+    (rules.doubleAfterSplit ? -0.0014 : 0) +
+    DOUBLE_EFFECTS[rules.doubleOn] +
+    (SPLIT_EFFECTS[rules.maxSplitHands] ?? 0) +
+    (rules.resplitAces ? -0.0008 : 0) +
+    PAYOUT_EFFECTS[rules.blackjackPayout] +
+    SURRENDER_EFFECTS[rules.surrender] +
+    // Losing doubled and split stakes to a dealer blackjack; "original bets only" plays like a peek game
+    (rules.holeCard === 'enhc' && rules.noHoleCardLoss === 'all' ? 0.0011 : 0) +
+    VARIANT_EFFECTS[rules.variant];
+
+  // Round away floating point noise from the sum
+  return Math.round(edge * 10000) / 10000;
+}
+
+// Six-deck Strip game the other presets are written against
+const STRIP_RULES: PresetRules = {
+  deckCount: 6,
+  hitOnSoft17: false,
+  doubleAfterSplit: true,
+  doubleOn: 'any',
+  maxSplitHands: 4,
+  resplitAces: false,
+  blackjackPayout: '3:2',
+  surrender: 'none',
+  holeCard: 'peek',
+  noHoleCardLoss: 'originalBetsOnly',
+  variant: 'classic',
+};
+
+const createPreset = (id: RulePresetId, name: string, description: string, overrides: Partial<PresetRules>): RulePreset => {
+  const rules = { ...STRIP_RULES, ...overrides };
+  return { id, name, description, rules, houseEdge: estimateHouseEdge(rules) };
+};
+
+/**
+ * Named casino rule sets, in display order
+ */
+export const RULE_PRESETS: Record<RulePresetId, RulePreset> = {
+  vegasStrip: createPreset('vegasStrip', 'Vegas Strip', 'Six-deck shoe, dealer stands on soft 17', {}),
+  atlanticCity: createPreset('atlanticCity', 'Atlantic City', 'Eight decks with late surrender', {
+    deckCount: 8,
+    surrender: 'late',
+  }),
+  downtown: createPreset('downtown', 'Downtown Vegas', 'Double deck, dealer hits soft 17', {
+    deckCount: 2,
+    hitOnSoft17: true,
+  }),
+  european: createPreset('european', 'European', 'No hole card, doubles on 9-11, one split', {
+    doubleOn: '9-11',
+    maxSplitHands: 2,
+    holeCard: 'enhc',
+    noHoleCardLoss: 'all',
+  }),
+  spanish21: createPreset('spanish21', 'Spanish 21', 'No tens in the deck, 21 always wins, bonus 21s', {
+    hitOnSoft17: true,
+    resplitAces: true,
+    surrender: 'late',
+    variant: 'spanish21',
+  }),
+  switch: createPreset('switch', 'Blackjack Switch', 'Two hands, swap the second cards, dealer 22 pushes', {
+    hitOnSoft17: true,
+    blackjackPayout: '1:1',
+    variant: 'switch',
+  }),
+  freeBet: createPreset('freeBet', 'Free Bet Blackjack', 'Free doubles on 9-11 and free splits, dealer 22 pushes', {
+    hitOnSoft17: true,
+    variant: 'freeBet',
+  }),
+  doubleExposure: createPreset('doubleExposure', 'Double Exposure', 'Both dealer cards face up, dealer wins ties', {
+    hitOnSoft17: true,
+    doubleOn: '9-11',
+    blackjackPayout: '1:1',
+    variant: 'doubleExposure',
+  }),
+};
+
+/**
+ * Find the preset a rule set was built from
+ *
+ * @param rules - The table rules
+ * @returns The preset whose rules all match, or undefined for custom rules
+ */
+export function findRulePreset(rules: TableRules): RulePreset | undefined {
+  return Object.values(RULE_PRESETS).find(preset =>
+    (Object.keys(preset.rules) as (keyof PresetRules)[]).every(key => preset.rules[key] === rules[key])
+  );
+}
+
+/**
+ * One-line summary of the rules that matter at the table
+ *
+ * @param rules - The table rules
+ * @returns Summary such as "6 decks · S17 · DAS · BJ 3:2 · No surrender · Dealer peeks"
+ */
+export function describeTableRules(rules: TableRules): string {
+  return [
+    `${rules.deckCount} deck${rules.deckCount === 1 ? '' : 's'}`,
+    rules.hitOnSoft17 ? 'H17' : 'S17',
+    rules.doubleAfterSplit ? 'DAS' : 'No DAS',
+    `BJ ${rules.blackjackPayout}`,
+    rules.surrender === 'none' ? 'No surrender' : `${rules.surrender === 'late' ? 'Late' : 'Early'} surrender`,
+    rules.holeCard === 'enhc' ? 'No hole card' : 'Dealer peeks',
+  ].join(' · ');
+}
@@ -1,5 +1,5 @@
 /**
- * ProbablyFair Verifiability Layer (PF-VL-1.0) compatible implementation
+ * ProbablyFair Verifiability Layer (PF-VL-1.x) compatible implementation
  * for provably fair card shuffling and verification.
  *
  * This module provides cryptographic seed generation, deterministic shuffling,
@@ -20,6 +20,10 @@ export interface ShuffleProof {
   timestamp: string;
   /** Version of the shuffle algorithm */
   version: string;
+  /** Player-supplied seed mixed into the shuffle (absent for server-only shuffles) */
+  clientSeed?: string;
+  /** Shuffle counter for the client seed, mixed in alongside it */
+  nonce?: number;
 }
 
 /**
@@ -38,9 +42,17 @@ export interface VerificationResult {
   };
 }
 
-const ALGORITHM_VERSION = 'PF-VL-1.0-A';
+/** Version used for new shuffles: SHA-256 byte stream with rejection sampling */
+export const ALGORITHM_VERSION = 'PF-VL-1.1-A';
+/** Original version: one SHA-256 hash per swap; kept so old proofs stay verifiable */
+export const LEGACY_ALGORITHM_VERSION = 'PF-VL-1.0-A';
+/** Versions verifyShuffleProof and seededShuffle accept */
+export const SUPPORTED_VERSIONS: readonly string[] = [ALGORITHM_VERSION, LEGACY_ALGORITHM_VERSION];
 const SEED_BYTES = 32; // 256 bits for strong entropy
 const HASH_ALGORITHM = 'SHA-256';
+const CLIENT_SEED_BYTES = 16;
+const MAX_CLIENT_SEED_LENGTH = 64;
+const UINT32_RANGE = 0x100000000;
 
 /**
  * Convert array buffer to hex string
@@ -81,6 +93,87 @@ export function generateSeed(providedSeed?: string): string {
   return bufferToHex(randomArray.buffer);
 }
 
+/**
+ * Generate a random client seed for the player
+ *
+ * @returns Hex-encoded client seed of 32 characters (128 bits)
+ *
+ * @example
+ * const clientSeed = generateClientSeed();
+ */
+export function generateClientSeed(): string {
+  const randomArray = new Uint8Array(CLIENT_SEED_BYTES);
+  crypto.getRandomValues(randomArray);
+  return bufferToHex(randomArray.buffer);
+}
+
+/**
+ * Validate a player-supplied client seed
+ *
+ * Any printable ASCII text up to 64 characters is accepted so players can
+ * type their own seed.
+ *
+ * @param clientSeed Client seed to validate
+ * @returns Error message, or null if the client seed is valid
+ *
+ * @example
+ * validateClientSeed('lucky-seven'); // null
+ * validateClientSeed(''); // 'Client seed cannot be empty'
+ */
+export function validateClientSeed(clientSeed: string): string | null {
+  if (clientSeed.length === 0) {
+    return 'Client seed cannot be empty';
+  }
+  if (clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+    return `Client seed must be at most ${MAX_CLIENT_SEED_LENGTH} characters`;
+  }
+  if (!/^[\x20-\x7e]+$/.test(clientSeed)) {
+    return 'Client seed must be printable ASCII';
+  }
+  return null;
+}
+
+/**
+ * Derive the shuffle seed from the server seed, client seed and nonce
+ *
+ * Computes HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}`). The server
+ * commits to its seed before the player picks the client seed, so neither
+ * side controls the shuffle alone.
+ *
+ * @param serverSeed Hex-encoded server seed
+ * @param clientSeed Player-supplied client seed
+ * @param nonce Shuffle counter for this client seed
+ * @returns Hex-encoded 256-bit shuffle seed
+ *
+ * @throws Error if the server seed, client seed or nonce is invalid
+ *
+ * @example
+ * const shuffleSeed = await deriveShuffleSeed(proof.seed, 'lucky-seven', 0);
+ */
+export async function deriveShuffleSeed(serverSeed: string, clientSeed: string, nonce: number): Promise<string> {
+  if (!/^[a-f0-9]{64}$/i.test(serverSeed)) {
+    throw new Error('Invalid seed format. Expected 64 hexadecimal characters.');
+  }
+  const clientSeedError = validateClientSeed(clientSeed);
+  if (clientSeedError) {
+    throw new Error(clientSeedError);
+  }
+  if (!Number.isInteger(nonce) || nonce < 0) {
+    throw new Error('Nonce must be a non-negative integer');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(serverSeed.toLowerCase()),
+    { name: 'HMAC', hash: HASH_ALGORITHM },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${clientSeed}:${nonce}`));
+  return bufferToHex(signature);
+}
+
 /**
  * Create a SHA-256 hash of a seed for pre-commitment
  *
@@ -109,14 +202,19 @@ export async function hashSeed(seed: string): Promise<string> {
  * This proof can be stored and later used to verify the shuffle was fair.
  *
  * @param seed Optional hex-encoded seed. If not provided, a new one is generated.
+ * @param clientSeed Optional player-supplied seed to mix into the shuffle
+ * @param nonce Shuffle counter for the client seed (default: 0)
  * @returns ShuffleProof object containing seed, hash, timestamp, and version
  *
  * @example
  * const proof = await generateShuffleProof();
  * // Store proof for later verification
  * console.log(proof.seedHash); // Can be committed to client before shuffle
+ *
+ * // Mix in the player's seed
+ * const mixed = await generateShuffleProof(undefined, 'lucky-seven', 3);
  */
-export async function generateShuffleProof(seed?: string): Promise<ShuffleProof> {
+export async function generateShuffleProof(seed?: string, clientSeed?: string, nonce: number = 0): Promise<ShuffleProof> {
   const finalSeed = generateSeed(seed);
   const seedHash = await hashSeed(finalSeed);
 
@@ -125,6 +223,7 @@ export async function generateShuffleProof(seed?: string): Promise<ShuffleProof>
     seedHash,
     timestamp: new Date().toISOString(),
     version: ALGORITHM_VERSION,
+    ...(clientSeed !== undefined && { clientSeed, nonce }),
   };
 }
 
@@ -200,12 +299,23 @@ export async function verifyShuffleProof(proof: ShuffleProof): Promise<Verificat
     };
   }
 
+  // Verify client seed mixing parameters
+  if (proof.clientSeed !== undefined) {
+    const clientSeedError = validateClientSeed(proof.clientSeed);
+    if (clientSeedError) {
+      return { valid: false, error: clientSeedError, details };
+    }
+    if (proof.nonce === undefined || !Number.isInteger(proof.nonce) || proof.nonce < 0) {
+      return { valid: false, error: 'Nonce must be a non-negative integer', details };
+    }
+  }
+
   // Verify version support
-  details.versionSupported = proof.version === ALGORITHM_VERSION;
+  details.versionSupported = SUPPORTED_VERSIONS.includes(proof.version);
   if (!details.versionSupported) {
     return {
       valid: false,
-      error: `Unsupported version: ${proof.version}. Expected: ${ALGORITHM_VERSION}`,
+      error: `Unsupported version: ${proof.version}. Expected: ${SUPPORTED_VERSIONS.join(' or ')}`,
       details,
     };
   }
@@ -217,36 +327,57 @@ export async function verifyShuffleProof(proof: ShuffleProof): Promise<Verificat
 }
 
 /**
- * Deterministically shuffle a deck using a seed
+ * Deterministic byte stream for PF-VL-1.1-A
  *
- * Implements Fisher-Yates shuffle algorithm using a seeded PRNG.
- * Given the same seed, produces identical shuffles (deterministic).
- * This allows independent verification of shuffle fairness.
- *
- * The PRNG uses SHA-256 in counter mode for deterministic randomness
- * that matches the ProbablyFair specification.
- *
- * @param deck Array of indices [0, 1, 2, ..., deckSize-1] to shuffle
- * @param seed Hex-encoded seed string
- * @returns Shuffled array maintaining all original indices
- *
- * @throws Error if seed is invalid format
+ * Block n is SHA-256 of the UTF-8 string `${seed}:${n}`. All 32 bytes of a
+ * block are consumed before the next block is hashed.
+ */
+function createByteStream(seed: string): { nextUint32: () => Promise<number> } {
+  const encoder = new TextEncoder();
+  let block = new Uint8Array(0);
+  let offset = 0;
+  let counter = 0;
+
+  const nextUint32 = async (): Promise<number> => {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      if (offset >= block.length) {
+        const hashBuffer = await crypto.subtle.digest(HASH_ALGORITHM, encoder.encode(`${seed}:${counter}`));
+        block = new Uint8Array(hashBuffer);
+        offset = 0;
+        counter++;
+      }
+      // Big-endian, so the result does not depend on platform byte order
+      value = value * 256 + block[offset++];
+    }
+    return value;
+  };
+
+  return { nextUint32 };
+}
+
+/**
+ * Draw an unbiased integer in [0, bound) from the byte stream
  *
- * @example
- * // Shuffle a 52-card deck deterministically
- * const deckIndices = Array.from({ length: 52 }, (_, i) => i);
- * const seed = generateSeed();
- * const shuffled = seededShuffle(deckIndices, seed);
- * // Same seed always produces same shuffle
- * const shuffled2 = seededShuffle(deckIndices, seed);
- * // shuffled === shuffled2 (deep equal)
+ * Values at or above the largest multiple of bound below 2^32 are rejected
+ * and redrawn, so every result is equally likely.
  */
-export async function seededShuffle(deck: number[], seed: string): Promise<number[]> {
-  // Validate seed format
-  if (!/^[a-f0-9]{64}$/i.test(seed)) {
-    throw new Error('Invalid seed format. Expected 64 hexadecimal characters.');
+async function randomBelow(stream: { nextUint32: () => Promise<number> }, bound: number): Promise<number> {
+  const limit = UINT32_RANGE - (UINT32_RANGE % bound);
+  let value = await stream.nextUint32();
+  while (value >= limit) {
+    value = await stream.nextUint32();
   }
+  return value % bound;
+}
 
+/**
+ * Fisher-Yates shuffle as specified by PF-VL-1.0-A
+ *
+ * One SHA-256 hash per swap of `${seed}${counter padded to 10 digits}`,
+ * using the first 4 bytes as a fraction in [0, 1).
+ */
+async function legacyShuffle(deck: number[], seed: string): Promise<number[]> {
   const shuffled = [...deck];
   const deckSize = shuffled.length;
   let seedCounter = 0;
@@ -278,6 +409,75 @@ export async function seededShuffle(deck: number[], seed: string): Promise<numbe
   return shuffled;
 }
 
+/**
+ * Deterministically shuffle a deck using a seed
+ *
+ * Implements Fisher-Yates shuffle algorithm using a seeded PRNG.
+ * Given the same seed, produces identical shuffles (deterministic).
+ * This allows independent verification of shuffle fairness.
+ *
+ * PF-VL-1.1-A (default) reads a SHA-256 counter-mode byte stream 4 bytes at a
+ * time and uses rejection sampling for each swap index, so a 312-card shoe
+ * needs about 40 hashes instead of 311. PF-VL-1.0-A reproduces the original
+ * one-hash-per-swap algorithm for verifying older proofs.
+ *
+ * When a client seed is given the shuffle runs on
+ * deriveShuffleSeed(seed, clientSeed, nonce) instead of the server seed.
+ *
+ * @param deck Array of indices [0, 1, 2, ..., deckSize-1] to shuffle
+ * @param seed Hex-encoded seed string
+ * @param clientSeed Optional player-supplied seed to mix in
+ * @param nonce Shuffle counter for the client seed (default: 0)
+ * @param version Shuffle algorithm version (default: ALGORITHM_VERSION)
+ * @returns Shuffled array maintaining all original indices
+ *
+ * @throws Error if seed is invalid format or the version is unsupported
+ *
+ * @example
+ * // Shuffle a 52-card deck deterministically
+ * const deckIndices = Array.from({ length: 52 }, (_, i) => i);
+ * const seed = generateSeed();
+ * const shuffled = seededShuffle(deckIndices, seed);
+ * // Same seed always produces same shuffle
+ * const shuffled2 = seededShuffle(deckIndices, seed);
+ * // shuffled === shuffled2 (deep equal)
+ *
+ * // Reproduce a shuffle from an older proof
+ * const legacy = await seededShuffle(deckIndices, proof.seed, undefined, 0, 'PF-VL-1.0-A');
+ */
+export async function seededShuffle(
+  deck: number[],
+  seed: string,
+  clientSeed?: string,
+  nonce: number = 0,
+  version: string = ALGORITHM_VERSION
+): Promise<number[]> {
+  // Validate seed format
+  if (!/^[a-f0-9]{64}$/i.test(seed)) {
+    throw new Error('Invalid seed format. Expected 64 hexadecimal characters.');
+  }
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported version: ${version}. Expected: ${SUPPORTED_VERSIONS.join(' or ')}`);
+  }
+
+  const shuffleSeed = clientSeed === undefined ? seed : await deriveShuffleSeed(seed, clientSeed, nonce);
+
+  if (version === LEGACY_ALGORITHM_VERSION) {
+    return legacyShuffle(deck, shuffleSeed);
+  }
+
+  const shuffled = [...deck];
+  const stream = createByteStream(shuffleSeed.toLowerCase());
+
+  // Fisher-Yates shuffle with unbiased swap indices
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = await randomBelow(stream, i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
 /**
  * Verify that a shuffle was performed with a specific seed
  *
@@ -288,6 +488,9 @@ export async function seededShuffle(deck: number[], seed: string): Promise<numbe
  * @param originalDeck Original unshuaffle deck indices [0, 1, 2, ...]
  * @param shuffledDeck The shuffled deck that was claimed to use the seed
  * @param seed Hex-encoded seed to verify
+ * @param clientSeed Optional client seed the shuffle was mixed with
+ * @param nonce Shuffle counter for the client seed (default: 0)
+ * @param version Shuffle algorithm version (default: ALGORITHM_VERSION)
  * @returns true if the seed produces the given shuffle result
  *
  * @example
@@ -300,10 +503,13 @@ export async function seededShuffle(deck: number[], seed: string): Promise<numbe
 export async function verifyShuffleWithSeed(
   originalDeck: number[],
   shuffledDeck: number[],
-  seed: string
+  seed: string,
+  clientSeed?: string,
+  nonce: number = 0,
+  version: string = ALGORITHM_VERSION
 ): Promise<boolean> {
   try {
-    const reproducedShuffle = await seededShuffle(originalDeck, seed);
+    const reproducedShuffle = await seededShuffle(originalDeck, seed, clientSeed, nonce, version);
     return JSON.stringify(reproducedShuffle) === JSON.stringify(shuffledDeck);
   } catch {
     return false;
@@ -318,6 +524,9 @@ export async function verifyShuffleWithSeed(
  *
  * @param cards Array of Card objects
  * @param seed Hex-encoded seed string
+ * @param clientSeed Optional client seed to mix in
+ * @param nonce Shuffle counter for the client seed (default: 0)
+ * @param version Shuffle algorithm version (default: ALGORITHM_VERSION)
  * @returns Shuffled card array
  *
  * @throws Error if seed is invalid
@@ -330,8 +539,14 @@ export async function verifyShuffleWithSeed(
  * const seed = generateSeed();
  * const shuffled = await shuffleCardsWithSeed(shoe, seed);
  */
-export async function shuffleCardsWithSeed<T>(cards: T[], seed: string): Promise<T[]> {
+export async function shuffleCardsWithSeed<T>(
+  cards: T[],
+  seed: string,
+  clientSeed?: string,
+  nonce: number = 0,
+  version: string = ALGORITHM_VERSION
+): Promise<T[]> {
   const indices = Array.from({ length: cards.length }, (_, i) => i);
-  const shuffledIndices = await seededShuffle(indices, seed);
+  const shuffledIndices = await seededShuffle(indices, seed, clientSeed, nonce, version);
   return shuffledIndices.map(i => cards[i]);
 }
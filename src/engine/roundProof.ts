@@ -0,0 +1,249 @@
+import type { Card, RoundProof, RoundRecord, ShoeState } from '../types';
+import { createShoe, getDeckSize } from './deck';
+import { shuffleCardsWithSeed, verifyShuffleProof } from './probablyFair';
+import type { ShuffleProof } from './probablyFair';
+
+/** Deal order recipient for cards dealt to the dealer */
+export const DEALER_ID = 'dealer';
+
+/**
+ * Result of re-verifying a round against its revealed seed
+ */
+export interface RoundVerification {
+  /** Whether the round proof checks out */
+  valid: boolean;
+  /** Error message if invalid */
+  error?: string;
+  /** Cards the committed shoe dealt in this round, in deal order */
+  cards: Card[];
+}
+
+/**
+ * Create the proof record for a settled round
+ *
+ * The seed is withheld until the shoe is retired; see revealRoundProofs.
+ *
+ * @param deck - Cards remaining in the shoe after the round
+ * @param shoe - The shoe the round was dealt from
+ * @param round - 1-based round number
+ * @param timestamp - Settlement time in milliseconds since the epoch
+ * @param dealOrder - Optional recipient of each card dealt in the round
+ * @returns The round proof, or null if the shoe was not shuffled with a proof
+ *
+ * @example
+ * ```typescript
+ * const proof = createRoundProof(state.deck, state.shoe, state.roundProofs.length + 1, Date.now());
+ * console.log(proof?.seed); // null until the shoe ends
+ * ```
+ */
+export function createRoundProof(
+  deck: Card[],
+  shoe: ShoeState,
+  round: number,
+  timestamp: number,
+  dealOrder?: string[]
+): RoundProof | null {
+  if (!shoe.proof) {
+    return null;
+  }
+
+  return {
+    round,
+    shoeNumber: shoe.shuffleCount,
+    seedHash: shoe.proof.seedHash,
+    seed: null,
+    ...(shoe.proof.clientSeed !== undefined && { clientSeed: shoe.proof.clientSeed, nonce: shoe.proof.nonce }),
+    version: shoe.proof.version,
+    deckCount: shoe.size / getDeckSize(shoe.variant),
+    ...(shoe.variant !== 'classic' && { variant: shoe.variant }),
+    firstCard: shoe.roundStart,
+    lastCard: shoe.size - deck.length,
+    ...(dealOrder && { dealOrder }),
+    timestamp: new Date(timestamp).toISOString(),
+  };
+}
+
+/**
+ * Reveal the seed of a retired shoe on every round dealt from it
+ *
+ * @param proofs - Round proofs recorded so far
+ * @param shuffleProof - Proof of the shoe being retired
+ * @returns Round proofs with the matching seed filled in
+ */
+export function revealRoundProofs(proofs: RoundProof[], shuffleProof: ShuffleProof): RoundProof[] {
+  return proofs.map(proof =>
+    proof.seed === null && proof.seedHash === shuffleProof.seedHash ? { ...proof, seed: shuffleProof.seed } : proof
+  );
+}
+
+/**
+ * Reveal the seed of a retired shoe on the proofs in the round history
+ *
+ * @param records - Settled rounds
+ * @param shuffleProof - Proof of the shoe being retired
+ * @returns Round records with the matching seed filled in
+ */
+export function revealRoundRecords(records: RoundRecord[], shuffleProof: ShuffleProof): RoundRecord[] {
+  return records.map(record =>
+    record.proof ? { ...record, proof: revealRoundProofs([record.proof], shuffleProof)[0] } : record
+  );
+}
+
+/**
+ * Re-verify a round from its revealed seed
+ *
+ * Checks the seed against the published hash, rebuilds the shoe with the
+ * seeded shuffle (mixing in the client seed and nonce) and returns the cards the round was dealt. When the cards
+ * seen at the table are supplied they must match exactly, in deal order.
+ *
+ * @param proof - The round proof to verify
+ * @param dealtCards - Optional cards dealt in the round, in deal order
+ * @returns Promise resolving to the verification result
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyRoundProof(state.roundProofs[0]);
+ * if (result.valid) {
+ *   console.log(result.cards);
+ * }
+ * ```
+ */
+export async function verifyRoundProof(proof: RoundProof, dealtCards?: Card[]): Promise<RoundVerification> {
+  if (proof.seed === null) {
+    return { valid: false, error: 'Seed not revealed yet. The shoe is still in play.', cards: [] };
+  }
+
+  const seedCheck = await verifyShuffleProof({
+    seed: proof.seed,
+    seedHash: proof.seedHash,
+    timestamp: proof.timestamp,
+    version: proof.version,
+    clientSeed: proof.clientSeed,
+    nonce: proof.nonce,
+  });
+  if (!seedCheck.valid) {
+    return { valid: false, error: seedCheck.error, cards: [] };
+  }
+
+  const shoe = await shuffleCardsWithSeed(
+    createShoe(proof.deckCount, proof.variant),
+    proof.seed,
+    proof.clientSeed,
+    proof.nonce,
+    proof.version
+  );
+  const cards = shoe.slice(proof.firstCard, proof.lastCard);
+
+  if (dealtCards) {
+    const matches =
+      dealtCards.length === cards.length &&
+      dealtCards.every((card, i) => card.rank === cards[i].rank && card.suit === cards[i].suit);
+    if (!matches) {
+      return { valid: false, error: 'Dealt cards do not match the committed shoe', cards };
+    }
+  }
+
+  return { valid: true, cards };
+}
+
+/**
+ * Group a round's cards by who received them
+ *
+ * @param cards - Cards dealt in the round, in deal order
+ * @param dealOrder - Recipient of each card ('dealer' or a seat id)
+ * @returns Cards per recipient, in order of first appearance
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyRoundProof(proof);
+ * const bySeat = reconstructDeal(result.cards, proof.dealOrder ?? []);
+ * console.log(bySeat.dealer);
+ * ```
+ */
+export function reconstructDeal(cards: Card[], dealOrder: string[]): Record<string, Card[]> {
+  return dealOrder.reduce<Record<string, Card[]>>((hands, recipient, i) => {
+    if (i < cards.length) {
+      hands[recipient] = [...(hands[recipient] ?? []), { ...cards[i], faceUp: true }];
+    }
+    return hands;
+  }, {});
+}
+
+/**
+ * Serialize a round proof for export
+ *
+ * @param proof - The round proof
+ * @returns Pretty-printed JSON
+ */
+export function exportRoundProof(proof: RoundProof): string {
+  return JSON.stringify(proof, null, 2);
+}
+
+/**
+ * Parse an exported round proof
+ *
+ * @param json - JSON produced by exportRoundProof
+ * @returns The round proof
+ *
+ * @throws Error if the JSON is malformed or a required field is missing
+ *
+ * @example
+ * ```typescript
+ * const proof = parseRoundProof(pastedText);
+ * const result = await verifyRoundProof(proof);
+ * ```
+ */
+export function parseRoundProof(json: string): RoundProof {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Round proof is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Round proof must be a JSON object');
+  }
+
+  const proof = data as Record<string, unknown>;
+  const numberFields = ['round', 'shoeNumber', 'deckCount', 'firstCard', 'lastCard'];
+  const stringFields = ['seedHash', 'version', 'timestamp'];
+
+  for (const field of numberFields) {
+    if (typeof proof[field] !== 'number') {
+      throw new Error(`Round proof field "${field}" must be a number`);
+    }
+  }
+  for (const field of stringFields) {
+    if (typeof proof[field] !== 'string') {
+      throw new Error(`Round proof field "${field}" must be a string`);
+    }
+  }
+  if (proof.seed !== null && typeof proof.seed !== 'string') {
+    throw new Error('Round proof field "seed" must be a string or null');
+  }
+  if (proof.clientSeed !== undefined && typeof proof.clientSeed !== 'string') {
+    throw new Error('Round proof field "clientSeed" must be a string');
+  }
+  if (proof.nonce !== undefined && typeof proof.nonce !== 'number') {
+    throw new Error('Round proof field "nonce" must be a number');
+  }
+  if (
+    proof.dealOrder !== undefined &&
+    (!Array.isArray(proof.dealOrder) || !proof.dealOrder.every(entry => typeof entry === 'string'))
+  ) {
+    throw new Error('Round proof field "dealOrder" must be a list of strings');
+  }
+  if (
+    proof.variant !== undefined &&
+    proof.variant !== 'classic' &&
+    proof.variant !== 'spanish21' &&
+    proof.variant !== 'switch' &&
+    proof.variant !== 'freeBet' &&
+    proof.variant !== 'doubleExposure'
+  ) {
+    throw new Error('Round proof field "variant" must be a known game variant');
+  }
+
+  return proof as unknown as RoundProof;
+}
@@ -0,0 +1,191 @@
+import type { BlackjackPayout, TableRules } from '../types';
+import { DECK_CONFIG, getDeckSize } from './deck';
+import { getSideBetDefinition, getSideBetPaytable } from './sideBets';
+
+/**
+ * Default table rules (6 decks, S17, DAS, 3:2, split to 4 hands)
+ *
+ * These match the behaviour the engine had before rules were configurable,
+ * so callers that omit rules keep the classic table.
+ */
+export const DEFAULT_TABLE_RULES: TableRules = {
+  deckCount: DECK_CONFIG.DEFAULT_SHOE_SIZE,
+  hitOnSoft17: false,
+  doubleAfterSplit: true,
+  doubleOn: 'any',
+  maxSplitHands: 4,
+  resplitAces: false,
+  blackjackPayout: '3:2',
+  surrender: 'none',
+  holeCard: 'peek',
+  noHoleCardLoss: 'originalBetsOnly',
+  penetration: 0.75,
+  sideBetPaytables: {},
+  variant: 'classic',
+};
+
+/**
+ * Winnings multiplier for each supported blackjack payout
+ */
+export const BLACKJACK_PAYOUT_MULTIPLIERS: Record<BlackjackPayout, number> = {
+  '3:2': 1.5,
+  '6:5': 1.2,
+  '1:1': 1,
+};
+
+/** Doubles allowed on one Spanish 21 hand, counting re-doubles */
+export const SPANISH_21_MAX_DOUBLES = 3;
+
+/**
+ * Hands each seat is dealt for one bet
+ *
+ * @param rules - The table rules
+ * @returns 2 for Blackjack Switch, otherwise 1
+ */
+export function getOpeningHandCount(rules: TableRules): number {
+  return rules.variant === 'switch' ? 2 : 1;
+}
+
+/**
+ * Whether a dealer 22 pushes instead of busting
+ *
+ * @param rules - The table rules
+ * @returns True for Blackjack Switch and Free Bet Blackjack
+ */
+export function isDealer22Push(rules: TableRules): boolean {
+  return rules.variant === 'switch' || rules.variant === 'freeBet';
+}
+
+/**
+ * Build a complete rule set from a partial override
+ *
+ * @param overrides - Rule values to change from the defaults
+ * @returns A new TableRules object
+ * @throws {Error} If the resulting rules are invalid
+ *
+ * @example
+ * ```typescript
+ * const rules = createTableRules({ hitOnSoft17: true, blackjackPayout: '6:5' });
+ * ```
+ */
+export function createTableRules(overrides: Partial<TableRules> = {}): TableRules {
+  const rules = { ...DEFAULT_TABLE_RULES, ...overrides };
+  const validation = validateTableRules(rules);
+
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  return rules;
+}
+
+/**
+ * Validate a rule set
+ *
+ * @param rules - The rules to validate
+ * @returns Object with valid flag and optional error message
+ */
+export function validateTableRules(rules: TableRules): { valid: boolean; error?: string } {
+  if (!Number.isInteger(rules.deckCount) || rules.deckCount < 1) {
+    return { valid: false, error: 'Deck count must be a positive integer' };
+  }
+
+  if (!Number.isInteger(rules.maxSplitHands) || rules.maxSplitHands < 1) {
+    return { valid: false, error: 'Max split hands must be a positive integer' };
+  }
+
+  if (!(rules.blackjackPayout in BLACKJACK_PAYOUT_MULTIPLIERS)) {
+    return { valid: false, error: `Unsupported blackjack payout: ${rules.blackjackPayout}` };
+  }
+
+  if (!['none', 'late', 'early'].includes(rules.surrender)) {
+    return { valid: false, error: `Unsupported surrender rule: ${rules.surrender}` };
+  }
+
+  if (!['peek', 'enhc'].includes(rules.holeCard)) {
+    return { valid: false, error: `Unsupported hole card rule: ${rules.holeCard}` };
+  }
+
+  if (!['originalBetsOnly', 'all'].includes(rules.noHoleCardLoss)) {
+    return { valid: false, error: `Unsupported no-hole-card loss rule: ${rules.noHoleCardLoss}` };
+  }
+
+  if (!Number.isFinite(rules.penetration) || rules.penetration <= 0 || rules.penetration >= 1) {
+    return { valid: false, error: 'Penetration must be between 0 and 1 (exclusive)' };
+  }
+
+  if (!['classic', 'spanish21', 'switch', 'freeBet', 'doubleExposure'].includes(rules.variant)) {
+    return { valid: false, error: `Unsupported game variant: ${rules.variant}` };
+  }
+
+  if (rules.variant === 'switch' && rules.blackjackPayout !== '1:1') {
+    return { valid: false, error: 'Blackjack Switch pays blackjack 1:1' };
+  }
+
+  if (rules.variant === 'doubleExposure' && rules.blackjackPayout !== '1:1') {
+    return { valid: false, error: 'Double Exposure pays blackjack 1:1' };
+  }
+
+  if (rules.variant === 'doubleExposure' && rules.holeCard !== 'peek') {
+    return { valid: false, error: 'Double Exposure deals both dealer cards up front' };
+  }
+
+  for (const [type, paytableId] of Object.entries(rules.sideBetPaytables)) {
+    const definition = getSideBetDefinition(type);
+    if (!definition) {
+      return { valid: false, error: `Unknown side bet: ${type}` };
+    }
+    if (!getSideBetPaytable(definition, paytableId)) {
+      return { valid: false, error: `Unknown paytable for ${definition.name}: ${paytableId}` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Get the winnings multiplier for a natural blackjack under the given rules
+ *
+ * @param rules - The table rules
+ * @returns Multiplier applied to the bet (1.5 for 3:2)
+ */
+export function getBlackjackMultiplier(rules: TableRules): number {
+  return BLACKJACK_PAYOUT_MULTIPLIERS[rules.blackjackPayout];
+}
+
+/**
+ * Number of cards left in the shoe when the cut card comes out
+ *
+ * @param rules - The table rules (deck count and penetration)
+ * @returns Card count at or below which the shoe should be reshuffled
+ *
+ * @example
+ * ```typescript
+ * getReshuffleThreshold(DEFAULT_TABLE_RULES); // 78 (25% of 312)
+ * ```
+ */
+export function getReshuffleThreshold(rules: TableRules): number {
+  const shoeSize = rules.deckCount * getDeckSize(rules.variant);
+  return Math.round(shoeSize * (1 - rules.penetration));
+}
+
+/**
+ * Check whether a two-card total may be doubled under the table's double restriction
+ *
+ * @param value - Hand total
+ * @param isSoft - Whether the total is soft
+ * @param rules - The table rules
+ * @returns True if the total is eligible for doubling
+ */
+export function isDoubleTotalAllowed(value: number, isSoft: boolean, rules: TableRules): boolean {
+  switch (rules.doubleOn) {
+    case 'any':
+      return true;
+    case '9-11':
+      return !isSoft && value >= 9 && value <= 11;
+    case '10-11':
+      return !isSoft && value >= 10 && value <= 11;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,221 @@
+import type { Card, ShoeState, TableRules } from '../types';
+import { createShoe, shuffleDeck, shuffleDeckWithProof, shouldReshuffle, getDeckSize } from './deck';
+import { getReshuffleThreshold } from './rules';
+import type { ShuffleProof } from './probablyFair';
+
+/**
+ * Create the bookkeeping for a freshly shuffled shoe
+ *
+ * The cut card is placed according to the table's deck count and penetration.
+ *
+ * @param rules - The table rules
+ * @param shuffleCount - Number of shuffles so far, including this one (default: 0)
+ * @param proof - Shuffle proof committing to the shoe order (default: null, no shoe shuffled yet)
+ * @returns A new ShoeState with an empty discard tray
+ *
+ * @example
+ * ```typescript
+ * const shoe = createShoeState(DEFAULT_TABLE_RULES);
+ * console.log(shoe.cutCardPosition); // 78
+ * ```
+ */
+export function createShoeState(
+  rules: TableRules,
+  shuffleCount: number = 0,
+  proof: ShuffleProof | null = null
+): ShoeState {
+  return {
+    size: rules.deckCount * getDeckSize(rules.variant),
+    cutCardPosition: getReshuffleThreshold(rules),
+    cutCardReached: false,
+    discardTray: [],
+    shuffleCount,
+    proof,
+    roundStart: 0,
+    variant: rules.variant,
+  };
+}
+
+/**
+ * Options for shuffling a new shoe
+ */
+export interface ShoeShuffleOptions {
+  /** Hex-encoded server seed. If not provided, a new one is generated. */
+  seed?: string;
+  /** Player-supplied seed mixed into the shuffle */
+  clientSeed?: string;
+  /** Shuffle counter for the client seed */
+  nonce?: number;
+}
+
+/**
+ * Build and shuffle a new shoe for the table
+ *
+ * The order is derived from a committed seed, so the shoe's proof.seedHash can
+ * be published before any bets lock and the whole shoe re-dealt once the seed
+ * is revealed. A client seed and nonce, when given, are mixed in with HMAC.
+ *
+ * @param rules - The table rules
+ * @param previous - The shoe being replaced, used to continue the shuffle count
+ * @param options - Server seed, client seed and nonce for the shuffle
+ * @returns Promise resolving to the shuffled cards and the new shoe state
+ *
+ * @example
+ * ```typescript
+ * const { deck, shoe } = await shuffleNewShoe(DEFAULT_TABLE_RULES, undefined, { clientSeed: 'lucky-seven', nonce: 0 });
+ * console.log(deck.length); // 312
+ * console.log(shoe.proof?.seedHash); // publish before bets lock
+ * ```
+ */
+export async function shuffleNewShoe(
+  rules: TableRules,
+  previous?: ShoeState,
+  options: ShoeShuffleOptions = {}
+): Promise<{ deck: Card[]; shoe: ShoeState }> {
+  const { shuffled, proof } = await shuffleDeckWithProof(
+    createShoe(rules.deckCount, rules.variant),
+    options.seed,
+    options.clientSeed,
+    options.nonce
+  );
+
+  return {
+    deck: shuffled,
+    shoe: createShoeState(rules, (previous?.shuffleCount ?? 0) + 1, proof),
+  };
+}
+
+/**
+ * Re-shuffle a shoe nothing has been dealt from with a new client seed
+ *
+ * The committed server seed is kept, so the published seed hash still holds.
+ *
+ * @param deck - Cards remaining in the shoe
+ * @param shoe - The shoe state
+ * @param clientSeed - The player's new client seed
+ * @param nonce - Shuffle counter for the client seed
+ * @returns Promise resolving to the re-shuffled cards and shoe state, or null if
+ *   the shoe has no commitment or cards have already been dealt from it
+ */
+export async function reseedShoe(
+  deck: Card[],
+  shoe: ShoeState,
+  clientSeed: string,
+  nonce: number
+): Promise<{ deck: Card[]; shoe: ShoeState } | null> {
+  if (!shoe.proof || deck.length !== shoe.size) {
+    return null;
+  }
+
+  const { shuffled, proof } = await shuffleDeckWithProof(
+    createShoe(shoe.size / getDeckSize(shoe.variant), shoe.variant),
+    shoe.proof.seed,
+    clientSeed,
+    nonce
+  );
+
+  return { deck: shuffled, shoe: { ...shoe, proof } };
+}
+
+/**
+ * Check whether the shoe must be shuffled before the next round
+ *
+ * @param deck - Cards remaining in the shoe
+ * @param shoe - The shoe state
+ * @returns True if the cut card has come out or the shoe is empty
+ */
+export function needsShuffle(deck: Card[], shoe: ShoeState): boolean {
+  return deck.length === 0 || shoe.cutCardReached;
+}
+
+/**
+ * Record where the next round starts in the shoe, for its round proof
+ *
+ * @param deck - Cards remaining in the shoe before the round is dealt
+ * @param shoe - The shoe state
+ * @returns Updated shoe state
+ */
+export function markRoundStart(deck: Card[], shoe: ShoeState): ShoeState {
+  return { ...shoe, roundStart: shoe.size - deck.length };
+}
+
+/**
+ * Mark the cut card as reached once the shoe is dealt down to it
+ *
+ * The current round is finished with the remaining cards; the shoe is
+ * shuffled before the next round starts.
+ *
+ * @param deck - Cards remaining in the shoe
+ * @param shoe - The shoe state
+ * @returns Updated shoe state
+ */
+export function updateCutCard(deck: Card[], shoe: ShoeState): ShoeState {
+  if (shoe.cutCardReached || !shouldReshuffle(deck, shoe.cutCardPosition)) {
+    return shoe;
+  }
+
+  return { ...shoe, cutCardReached: true };
+}
+
+/**
+ * Move played cards into the discard tray
+ *
+ * @param shoe - The shoe state
+ * @param cards - Cards cleared from the table
+ * @returns Updated shoe state
+ */
+export function discardCards(shoe: ShoeState, cards: Card[]): ShoeState {
+  if (cards.length === 0) {
+    return shoe;
+  }
+
+  return {
+    ...shoe,
+    discardTray: [...shoe.discardTray, ...cards.map(card => ({ ...card, faceUp: true }))],
+  };
+}
+
+/**
+ * Shuffle the discard tray back in when the shoe runs out mid-round
+ *
+ * The round in play finishes from the reshuffled discards. Those cards are not
+ * covered by the shoe's commitment, so the proof is dropped and the shoe is
+ * replaced before the next round.
+ *
+ * @param deck - Cards remaining in the shoe
+ * @param shoe - The shoe state
+ * @returns The discards as the new deck behind any remaining cards, and the updated shoe state
+ * @throws {Error} If the discard tray is empty too
+ *
+ * @example
+ * ```typescript
+ * if (state.deck.length === 0) {
+ *   const { deck, shoe } = reshuffleDiscards(state.deck, state.shoe);
+ * }
+ * ```
+ */
+export function reshuffleDiscards(deck: Card[], shoe: ShoeState): { deck: Card[]; shoe: ShoeState } {
+  if (shoe.discardTray.length === 0) {
+    throw new Error('The shoe and the discard tray are both empty');
+  }
+
+  return {
+    deck: [...deck, ...shuffleDeck(shoe.discardTray.map(card => ({ ...card, faceUp: false })))],
+    shoe: { ...shoe, discardTray: [], cutCardReached: true, proof: null },
+  };
+}
+
+/**
+ * Fraction of the shoe that has been dealt
+ *
+ * @param deck - Cards remaining in the shoe
+ * @param shoe - The shoe state
+ * @returns Value between 0 (fresh shoe) and 1 (empty shoe)
+ */
+export function getShoePenetration(deck: Card[], shoe: ShoeState): number {
+  if (shoe.size === 0) {
+    return 0;
+  }
+
+  return (shoe.size - deck.length) / shoe.size;
+}
@@ -0,0 +1,409 @@
+import type { Card, GameVariant, Hand, Rank, SideBet, TableRules } from '../types';
+import { evaluateHand } from './hand';
+
+/**
+ * Dealer cards a side bet is settled on
+ * - none: the player's cards only
+ * - upCard: the dealer's upcard, known as soon as the cards are dealt
+ * - initial: the dealer's first two cards
+ * - final: the dealer's finished hand
+ */
+export type SideBetDealerCards = 'none' | 'upCard' | 'initial' | 'final';
+
+/**
+ * One line of a side bet paytable
+ */
+export interface SideBetPayout {
+  outcome: string; // Identifier returned by evaluate()
+  label: string;
+  pays: number; // Paid to 1
+}
+
+/**
+ * A named set of payouts for a side bet
+ */
+export interface SideBetPaytable {
+  id: string;
+  name: string;
+  payouts: SideBetPayout[];
+}
+
+/**
+ * A side bet the table can offer
+ *
+ * `evaluate` receives the player's first cards and the dealer cards named by
+ * `cardsNeeded`, and returns the paytable outcome that applies, or null when
+ * the bet loses. The first paytable is used unless the table rules pick
+ * another (`TableRules.sideBetPaytables`). Bets that list `variants` are only
+ * offered at those games.
+ */
+export interface SideBetDefinition {
+  type: string;
+  name: string;
+  description: string;
+  cardsNeeded: { player: number; dealer: SideBetDealerCards };
+  paytables: SideBetPaytable[];
+  variants?: GameVariant[];
+  evaluate: (playerCards: Card[], dealerCards: Card[]) => string | null;
+}
+
+/**
+ * Point in the round at which side bets are settled
+ * - deal: after the initial deal, for bets on the player's cards and dealer upcard
+ * - dealer: once the dealer's hand is finished, for everything else
+ */
+export type SideBetStage = 'deal' | 'dealer';
+
+const registry = new Map<string, SideBetDefinition>();
+
+const RANK_ORDER: Record<Rank, number> = {
+  A: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7, 8: 8, 9: 9, 10: 10, J: 11, Q: 12, K: 13,
+};
+
+// Dealer cards a bet is allowed to see
+const dealerCardsFor = (dealer: SideBetDealerCards, cards: Card[]): Card[] => {
+  switch (dealer) {
+    case 'none':
+      return [];
+    case 'upCard':
+      return cards.slice(0, 1);
+    case 'initial':
+      return cards.slice(0, 2);
+    default:
+      return cards;
+  }
+};
+
+const isRed = (card: Card) => card.suit === '♥' || card.suit === '♦';
+
+const sameSuit = (cards: Card[]) => cards.every(card => card.suit === cards[0].suit);
+
+const sameRank = (cards: Card[]) => cards.every(card => card.rank === cards[0].rank);
+
+const isStraight = (cards: Card[]) => {
+  const ranks = cards.map(card => RANK_ORDER[card.rank]).sort((a, b) => a - b);
+  const consecutive = ranks.every((rank, i) => i === 0 || rank - ranks[i - 1] === 1);
+  // Ace also plays high, above a run ending in the King (Q-K-A)
+  const aceHigh = ranks[0] === 1 && ranks.slice(1).every((rank, i) => rank === 15 - ranks.length + i);
+  return consecutive || aceHigh;
+};
+
+/**
+ * Add a side bet to the registry, replacing any bet of the same type
+ *
+ * @param definition - The side bet
+ *
+ * @example
+ * ```typescript
+ * registerSideBet({
+ *   type: 'anyPair',
+ *   name: 'Any Pair',
+ *   description: 'Your first two cards are a pair',
+ *   cardsNeeded: { player: 2, dealer: 'none' },
+ *   paytables: [{ id: 'standard', name: 'Standard', payouts: [{ outcome: 'pair', label: 'Pair', pays: 11 }] }],
+ *   evaluate: cards => (cards[0].rank === cards[1].rank ? 'pair' : null),
+ * });
+ * ```
+ */
+export function registerSideBet(definition: SideBetDefinition): void {
+  registry.set(definition.type, definition);
+}
+
+/**
+ * Look up a registered side bet
+ *
+ * @param type - Side bet type
+ * @returns The definition, or undefined if nothing is registered under that type
+ */
+export function getSideBetDefinition(type: string): SideBetDefinition | undefined {
+  return registry.get(type);
+}
+
+/**
+ * All registered side bets, in registration order
+ *
+ * @returns Side bet definitions
+ */
+export function getSideBetDefinitions(): SideBetDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Look up one of a side bet's paytables
+ *
+ * @param definition - The side bet
+ * @param paytableId - Paytable id (default: the bet's first paytable)
+ * @returns The paytable, or undefined if the bet has none with that id
+ */
+export function getSideBetPaytable(definition: SideBetDefinition, paytableId?: string): SideBetPaytable | undefined {
+  if (paytableId === undefined) return definition.paytables[0];
+  return definition.paytables.find(paytable => paytable.id === paytableId);
+}
+
+/**
+ * Whether a table offers a side bet
+ *
+ * @param definition - The side bet
+ * @param rules - The table rules
+ * @returns True unless the bet is limited to other game variants
+ */
+export function isSideBetOffered(definition: SideBetDefinition, rules: TableRules): boolean {
+  return !definition.variants || definition.variants.includes(rules.variant);
+}
+
+/**
+ * Whether a side bet is settled at a stage of the round
+ *
+ * @param definition - The side bet
+ * @param stage - Current stage
+ * @returns True if the bet's cards are all known at that stage
+ */
+export function isSideBetSettledAt(definition: SideBetDefinition, stage: SideBetStage): boolean {
+  const early = definition.cardsNeeded.dealer === 'none' || definition.cardsNeeded.dealer === 'upCard';
+  return stage === 'deal' ? early : !early;
+}
+
+/**
+ * Settle a side bet against the cards on the table
+ *
+ * @param bet - The side bet
+ * @param playerCards - The hand's cards (only the first `cardsNeeded.player` are used)
+ * @param dealerCards - The dealer's cards
+ * @param paytableId - Paytable to pay from (default: the bet's first paytable)
+ * @returns The bet with its result and winnings (stake not included)
+ * @throws {Error} If the side bet type or paytable is not registered
+ *
+ * @example
+ * ```typescript
+ * evaluateSideBet({ type: 'twentyOneThree', amount: 5 }, hand.cards, dealerHand, 'flat9');
+ * // → { type: 'twentyOneThree', amount: 5, result: 'win', outcome: 'flush', payout: 45 }
+ * ```
+ */
+export function evaluateSideBet(bet: SideBet, playerCards: Card[], dealerCards: Card[], paytableId?: string): SideBet {
+  const definition = registry.get(bet.type);
+  if (!definition) {
+    throw new Error(`Unknown side bet: ${bet.type}`);
+  }
+
+  const paytable = getSideBetPaytable(definition, paytableId);
+  if (!paytable) {
+    throw new Error(`Unknown paytable for ${definition.name}: ${paytableId}`);
+  }
+
+  const { player, dealer } = definition.cardsNeeded;
+  const outcome = definition.evaluate(playerCards.slice(0, player), dealerCardsFor(dealer, dealerCards));
+  const pays = paytable.payouts.find(line => line.outcome === outcome)?.pays;
+
+  if (!outcome || pays === undefined) {
+    return { ...bet, result: 'loss', outcome: undefined, payout: 0 };
+  }
+  return { ...bet, result: 'win', outcome, payout: pays * bet.amount };
+}
+
+/**
+ * Total returned for a seat's settled side bets
+ *
+ * @param hands - The seat's hands
+ * @returns Winnings plus the stakes of winning side bets (losing stakes were taken when placed)
+ *
+ * @example
+ * ```typescript
+ * // $10 Perfect Pairs won 6:1, $5 21+3 lost
+ * calculateSideBetPayout(seat.hands); // 70
+ * ```
+ */
+export function calculateSideBetPayout(hands: Hand[]): number {
+  return hands
+    .flatMap(hand => hand.sideBets ?? [])
+    .reduce((sum, bet) => (bet.result === 'win' ? sum + bet.amount + (bet.payout ?? 0) : sum), 0);
+}
+
+// ── Built-in side bets ──────────────────────────────────────────────────────
+
+registerSideBet({
+  type: 'twentyOneThree',
+  name: '21+3',
+  description: 'Your first two cards and the dealer upcard make a three-card poker hand',
+  cardsNeeded: { player: 2, dealer: 'upCard' },
+  paytables: [
+    {
+      id: 'fiveTier',
+      name: '5-tier',
+      payouts: [
+        { outcome: 'suitedTrips', label: 'Suited three of a kind', pays: 100 },
+        { outcome: 'straightFlush', label: 'Straight flush', pays: 40 },
+        { outcome: 'threeOfAKind', label: 'Three of a kind', pays: 30 },
+        { outcome: 'straight', label: 'Straight', pays: 10 },
+        { outcome: 'flush', label: 'Flush', pays: 5 },
+      ],
+    },
+    {
+      id: 'flat9',
+      name: 'Flat 9:1',
+      payouts: [
+        { outcome: 'suitedTrips', label: 'Suited three of a kind', pays: 9 },
+        { outcome: 'straightFlush', label: 'Straight flush', pays: 9 },
+        { outcome: 'threeOfAKind', label: 'Three of a kind', pays: 9 },
+        { outcome: 'straight', label: 'Straight', pays: 9 },
+        { outcome: 'flush', label: 'Flush', pays: 9 },
+      ],
+    },
+  ],
+  evaluate: (playerCards, dealerCards) => {
+    const cards = [...playerCards, ...dealerCards];
+    if (cards.length !== 3) return null;
+
+    if (sameRank(cards)) return sameSuit(cards) ? 'suitedTrips' : 'threeOfAKind';
+    if (isStraight(cards) && sameSuit(cards)) return 'straightFlush';
+    if (isStraight(cards)) return 'straight';
+    if (sameSuit(cards)) return 'flush';
+    return null;
+  },
+});
+
+registerSideBet({
+  type: 'perfectPairs',
+  name: 'Perfect Pairs',
+  description: 'Your first two cards are a pair',
+  cardsNeeded: { player: 2, dealer: 'none' },
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [
+        { outcome: 'perfectPair', label: 'Perfect pair', pays: 25 },
+        { outcome: 'coloredPair', label: 'Colored pair', pays: 12 },
+        { outcome: 'mixedPair', label: 'Mixed pair', pays: 6 },
+      ],
+    },
+  ],
+  evaluate: ([first, second]) => {
+    if (!first || !second || first.rank !== second.rank) return null;
+    if (first.suit === second.suit) return 'perfectPair';
+    return isRed(first) === isRed(second) ? 'coloredPair' : 'mixedPair';
+  },
+});
+
+registerSideBet({
+  type: 'luckyLadies',
+  name: 'Lucky Ladies',
+  description: 'Your first two cards total 20',
+  cardsNeeded: { player: 2, dealer: 'initial' },
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [
+        { outcome: 'queensWithBlackjack', label: 'Q♥ pair with dealer Blackjack', pays: 1000 },
+        { outcome: 'queenOfHeartsPair', label: 'Q♥ pair', pays: 200 },
+        { outcome: 'matched20', label: 'Matched 20', pays: 25 },
+        { outcome: 'suited20', label: 'Suited 20', pays: 10 },
+        { outcome: 'any20', label: 'Any 20', pays: 4 },
+      ],
+    },
+  ],
+  evaluate: (playerCards, dealerCards) => {
+    if (playerCards.length !== 2 || evaluateHand(playerCards).value !== 20) return null;
+
+    const [first, second] = playerCards;
+    const queensOfHearts = playerCards.every(card => card.rank === 'Q' && card.suit === '♥');
+    if (queensOfHearts) {
+      return dealerCards.length === 2 && evaluateHand(dealerCards).isBlackjack ? 'queensWithBlackjack' : 'queenOfHeartsPair';
+    }
+    if (first.rank === second.rank && first.suit === second.suit) return 'matched20';
+    if (first.suit === second.suit) return 'suited20';
+    return 'any20';
+  },
+});
+
+registerSideBet({
+  type: 'busterBlackjack',
+  name: 'Buster Blackjack',
+  description: 'The dealer busts; the more cards in the busted hand, the more it pays',
+  cardsNeeded: { player: 0, dealer: 'final' },
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [
+        { outcome: 'bust8', label: 'Dealer busts with 8+ cards', pays: 250 },
+        { outcome: 'bust7', label: 'Dealer busts with 7 cards', pays: 50 },
+        { outcome: 'bust6', label: 'Dealer busts with 6 cards', pays: 12 },
+        { outcome: 'bust5', label: 'Dealer busts with 5 cards', pays: 4 },
+        { outcome: 'bust4', label: 'Dealer busts with 3-4 cards', pays: 2 },
+      ],
+    },
+  ],
+  evaluate: (_playerCards, dealerCards) => {
+    if (!evaluateHand(dealerCards).isBust) return null;
+    return dealerCards.length >= 8 ? 'bust8' : dealerCards.length <= 4 ? 'bust4' : `bust${dealerCards.length}`;
+  },
+});
+
+registerSideBet({
+  type: 'royalMatch',
+  name: 'Royal Match',
+  description: 'Your first two cards are suited',
+  cardsNeeded: { player: 2, dealer: 'none' },
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [
+        { outcome: 'royalMatch', label: 'Suited K-Q', pays: 25 },
+        { outcome: 'easyMatch', label: 'Suited', pays: 2.5 },
+      ],
+    },
+  ],
+  evaluate: ([first, second]) => {
+    if (!first || !second || first.suit !== second.suit) return null;
+    const ranks = [first.rank, second.rank].sort().join('');
+    return ranks === 'KQ' ? 'royalMatch' : 'easyMatch';
+  },
+});
+
+registerSideBet({
+  type: 'superMatch',
+  name: 'Super Match',
+  description: 'Pairs among the four cards dealt to your two Blackjack Switch hands',
+  cardsNeeded: { player: 4, dealer: 'none' },
+  variants: ['switch'],
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [
+        { outcome: 'fourOfAKind', label: 'Four of a kind', pays: 40 },
+        { outcome: 'twoPair', label: 'Two pair', pays: 8 },
+        { outcome: 'threeOfAKind', label: 'Three of a kind', pays: 5 },
+        { outcome: 'pair', label: 'Pair', pays: 1 },
+      ],
+    },
+  ],
+  evaluate: playerCards => {
+    const counts = new Map<Rank, number>();
+    playerCards.forEach(card => counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1));
+    const groups = [...counts.values()].filter(count => count > 1).sort((a, b) => b - a);
+
+    if (groups[0] === 4) return 'fourOfAKind';
+    if (groups[0] === 3) return 'threeOfAKind';
+    if (groups.length === 2) return 'twoPair';
+    return groups.length === 1 ? 'pair' : null;
+  },
+});
+
+registerSideBet({
+  type: 'push22',
+  name: 'Push 22',
+  description: 'The dealer finishes on 22, the total that pushes your Free Bet Blackjack hands',
+  cardsNeeded: { player: 0, dealer: 'final' },
+  variants: ['freeBet'],
+  paytables: [
+    {
+      id: 'standard',
+      name: 'Standard',
+      payouts: [{ outcome: 'push22', label: 'Dealer 22', pays: 11 }],
+    },
+  ],
+  evaluate: (_playerCards, dealerCards) => (evaluateHand(dealerCards).value === 22 ? 'push22' : null),
+});
@@ -0,0 +1,385 @@
+import type { Card, Hand, TableRules } from '../types';
+import { createShoe } from './deck';
+import {
+  createHand,
+  addCardToHand,
+  evaluateHand,
+  canSplit,
+  canDouble,
+  canSurrender,
+  canHit,
+  splitHand,
+  doubleDownHand,
+  surrenderHand,
+  compareHands,
+  shouldOfferEarlySurrender,
+} from './hand';
+import { shouldDealerHit } from './dealer';
+import { dealsHoleCard, shouldPeekForBlackjack, calculateNoHoleCardRefund } from './holeCard';
+import { calculatePayout } from './payouts';
+import { getFundedBet } from './freeBet';
+import { createTableRules, getReshuffleThreshold } from './rules';
+import { getStrategyAction, type AvailableActions, type StrategyAction } from './strategy';
+
+/**
+ * Built-in playing strategies
+ * - basic: basic strategy derived for the table rules (see strategy.ts)
+ * - mimicDealer: hit below 17 and on soft 17 exactly like the dealer
+ * - neverBust: stand on any hard total that could bust
+ */
+export type SimulationStrategyName = 'basic' | 'mimicDealer' | 'neverBust';
+
+/**
+ * Chooses the play for a hand against the dealer upcard
+ */
+export type SimulationStrategy = (hand: Hand, upCard: Card, options: AvailableActions, rules: TableRules) => StrategyAction;
+
+export interface SimulationOptions {
+  rules: TableRules;
+  rounds: number; // Rounds to play, one flat unit bet each
+  strategy?: SimulationStrategyName | SimulationStrategy; // Default: 'basic'
+  seed?: number; // Seed for the shuffle; the same seed replays the same shoes
+  onProgress?: (roundsPlayed: number) => void; // Called every PROGRESS_INTERVAL rounds
+}
+
+/**
+ * Aggregate results of a simulation; money is in units of the initial bet
+ */
+export interface SimulationResult {
+  rounds: number;
+  handsPlayed: number; // Player hands, including split hands
+  totalWagered: number; // Units staked, including doubles and splits
+  netResult: number; // Player's net win (negative when the house wins)
+  houseEdge: number; // House advantage per initial bet (0.005 = 0.5%)
+  variance: number; // Variance of the net result per round
+  standardDeviation: number;
+  blackjackFrequency: number; // Player naturals per round
+  dealerBlackjackFrequency: number;
+  playerBustRate: number; // Busted hands per hand played
+  dealerBustRate: number; // Dealer busts per round the dealer had to draw out
+  winRate: number; // Rounds with a positive net result
+  pushRate: number;
+  lossRate: number;
+  doubleRate: number; // Hands doubled per hand played
+  splitRate: number; // Rounds with at least one split
+  surrenderRate: number; // Rounds surrendered
+  shuffles: number;
+}
+
+/**
+ * How often `onProgress` is called
+ */
+export const PROGRESS_INTERVAL = 100000;
+
+// Mulberry32: small, fast and plenty for simulation (not for live shuffles)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Cards a round should have left in the shoe before it is dealt; enough for all but split-heavy rounds
+const ROUND_RESERVE = 20;
+
+const shuffleInPlace = (cards: Card[], random: () => number) => {
+  for (let i = cards.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+};
+
+const basicStrategy: SimulationStrategy = (hand, upCard, options, rules) =>
+  getStrategyAction(hand, upCard, rules, options);
+
+const mimicDealerStrategy: SimulationStrategy = (hand, _upCard, _options, rules) =>
+  shouldDealerHit(hand.cards, rules) ? 'hit' : 'stand';
+
+const neverBustStrategy: SimulationStrategy = hand => {
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+  return value < (isSoft ? 18 : 12) ? 'hit' : 'stand';
+};
+
+/**
+ * Strategies selectable by name from the CLI
+ */
+export const SIMULATION_STRATEGIES: Record<SimulationStrategyName, SimulationStrategy> = {
+  basic: basicStrategy,
+  mimicDealer: mimicDealerStrategy,
+  neverBust: neverBustStrategy,
+};
+
+/**
+ * Build table rules from a compact spec such as "h17-6d-das"
+ *
+ * Tokens are separated by dashes and override DEFAULT_TABLE_RULES:
+ * `s17`/`h17`, `<n>d` (decks), `das`/`ndas`, `rsa`, `ls`/`es` (late or early
+ * surrender), `enhc`/`peek`, `3:2`/`6:5`/`1:1` (blackjack payout), `d9`/`d10`
+ * (double on 9-11 or 10-11 only), `sp<n>` (max split hands) and `pen<n>`
+ * (penetration in percent).
+ *
+ * @param spec - The rule spec
+ * @returns The validated table rules
+ * @throws {Error} If a token is unknown or the rules are invalid
+ *
+ * @example
+ * ```typescript
+ * const rules = parseRuleSpec('h17-6d-das-ls');
+ * ```
+ */
+export function parseRuleSpec(spec: string): TableRules {
+  const overrides: Partial<TableRules> = {};
+
+  for (const token of spec.toLowerCase().split('-').filter(Boolean)) {
+    const decks = token.match(/^(\d+)d$/);
+    const splits = token.match(/^sp(\d+)$/);
+    const penetration = token.match(/^pen(\d+)$/);
+
+    if (decks) overrides.deckCount = Number(decks[1]);
+    else if (splits) overrides.maxSplitHands = Number(splits[1]);
+    else if (penetration) overrides.penetration = Number(penetration[1]) / 100;
+    else if (token === 's17' || token === 'h17') overrides.hitOnSoft17 = token === 'h17';
+    else if (token === 'das' || token === 'ndas') overrides.doubleAfterSplit = token === 'das';
+    else if (token === 'rsa') overrides.resplitAces = true;
+    else if (token === 'ls') overrides.surrender = 'late';
+    else if (token === 'es') overrides.surrender = 'early';
+    else if (token === 'enhc' || token === 'peek') overrides.holeCard = token;
+    else if (token === '3:2' || token === '6:5' || token === '1:1') overrides.blackjackPayout = token;
+    else if (token === 'd9') overrides.doubleOn = '9-11';
+    else if (token === 'd10') overrides.doubleOn = '10-11';
+    else throw new Error(`Unknown rule token: ${token}`);
+  }
+
+  return createTableRules(overrides);
+}
+
+/**
+ * Play a flat-betting player through many rounds and measure the game
+ *
+ * One seat bets one unit per round and plays every hand with the chosen
+ * strategy; insurance is never taken. Hands are evaluated, compared and paid
+ * with the same engine functions as the live table, and the dealer draws by
+ * `shouldDealerHit`. The shoe is reshuffled at the rules' penetration, or
+ * sooner when fewer than a round's reserve of cards is left; a round that
+ * still runs out finishes from the discards shuffled back in.
+ *
+ * @param options - Rules, number of rounds, strategy and seed
+ * @returns Aggregate statistics for the run
+ * @throws {Error} If the number of rounds is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const result = simulateRounds({ rules: parseRuleSpec('h17-6d-das'), rounds: 1000000, seed: 42 });
+ * console.log(`House edge: ${(result.houseEdge * 100).toFixed(3)}%`);
+ * ```
+ */
+export function simulateRounds(options: SimulationOptions): SimulationResult {
+  const { rules, rounds, seed = Date.now(), onProgress } = options;
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error('Rounds must be a positive integer');
+  }
+
+  const strategy = typeof options.strategy === 'function'
+    ? options.strategy
+    : SIMULATION_STRATEGIES[options.strategy ?? 'basic'];
+  if (!strategy) {
+    throw new Error(`Unknown strategy: ${options.strategy}`);
+  }
+
+  const random = createRandom(seed);
+  const shoe = createShoe(rules.deckCount, rules.variant);
+  const reshuffleAt = getReshuffleThreshold(rules);
+  let position = shoe.length; // Forces a shuffle before the first round
+  let roundStart = 0;
+  let shuffles = 0;
+
+  const draw = (): Card => {
+    if (position === shoe.length) {
+      if (roundStart === 0) throw new Error('The shoe ran out of cards in a single round');
+
+      // Shuffle the earlier rounds' discards back in behind the cards on the table
+      const discards = shoe.splice(0, roundStart);
+      shuffleInPlace(discards, random);
+      shoe.push(...discards);
+      position = shoe.length - discards.length;
+      roundStart = 0;
+      shuffles++;
+    }
+    return shoe[position++];
+  };
+
+  let netResult = 0;
+  let sumOfSquares = 0;
+  let totalWagered = 0;
+  let handsPlayed = 0;
+  let blackjacks = 0;
+  let dealerBlackjacks = 0;
+  let playerBusts = 0;
+  let dealerDraws = 0;
+  let dealerBusts = 0;
+  let wins = 0;
+  let pushes = 0;
+  let doubles = 0;
+  let splitRounds = 0;
+  let surrenders = 0;
+
+  for (let round = 1; round <= rounds; round++) {
+    if (shoe.length - position <= Math.max(reshuffleAt, ROUND_RESERVE)) {
+      shuffleInPlace(shoe, random);
+      position = 0;
+      shuffles++;
+    }
+    roundStart = position;
+
+    const upCard = draw();
+    let hands = [addCardToHand(addCardToHand(createHand(1), draw()), draw())];
+    let dealerCards = dealsHoleCard(rules) ? [upCard, draw()] : [upCard];
+    let net = 0;
+    let settled = false;
+
+    if (hands[0].status === 'blackjack') blackjacks++;
+
+    // Early surrender is decided before the dealer checks for blackjack
+    if (shouldOfferEarlySurrender(upCard, rules) && hands[0].status === 'playing') {
+      const options = { canDouble: false, canSplit: false, canSurrender: true };
+      if (strategy(hands[0], upCard, options, rules) === 'surrender') {
+        hands = [surrenderHand(hands[0], 1, rules)];
+        surrenders++;
+        settled = true;
+      }
+    }
+
+    const dealerHasBlackjack = shouldPeekForBlackjack(upCard, rules) && evaluateHand(dealerCards).isBlackjack;
+
+    if (!settled && !dealerHasBlackjack && hands[0].status === 'playing') {
+      // Play each hand in turn; split hands are inserted after the one being played
+      for (let index = 0; index < hands.length; index++) {
+        let hand = hands[index];
+
+        while (canHit(hand) && evaluateHand(hand.cards, hand.isSplit).value < 21) {
+          const decision = strategy(hand, upCard, {
+            canDouble: canDouble(hand, rules),
+            canSplit: canSplit(hand, hands.length, rules),
+            canSurrender: !shouldOfferEarlySurrender(upCard, rules) && canSurrender(hand, hands.length, rules),
+          }, rules);
+
+          if (decision === 'stand') {
+            hand = { ...hand, status: 'stand' };
+          } else if (decision === 'surrender') {
+            hand = surrenderHand(hand, hands.length, rules);
+            surrenders++;
+          } else if (decision === 'double') {
+            hand = { ...addCardToHand(doubleDownHand(hand, rules), draw()), status: 'stand' };
+            doubles++;
+          } else if (decision === 'split') {
+            const split = splitHand(hand, hands.length, rules);
+            if (hands.length === 1) splitRounds++;
+            hand = addCardToHand(split.hand1, draw());
+            hands = [...hands.slice(0, index), hand, addCardToHand(split.hand2, draw()), ...hands.slice(index + 1)];
+          } else {
+            hand = addCardToHand(hand, draw());
+          }
+        }
+
+        hands[index] = hand;
+      }
+    }
+
+    const bustHands = hands.filter(hand => hand.status === 'bust').length;
+    playerBusts += bustHands;
+    handsPlayed += hands.length;
+
+    // The dealer draws out unless every hand is already decided
+    const needsDealer = !dealerHasBlackjack && hands.some(hand => hand.status !== 'bust' && hand.status !== 'surrendered');
+    if (needsDealer) {
+      if (dealerCards.length === 1) dealerCards = [...dealerCards, draw()];
+
+      const onlyNaturals = hands.every(hand => hand.status === 'blackjack');
+      if (!onlyNaturals) {
+        while (shouldDealerHit(dealerCards, rules)) dealerCards = [...dealerCards, draw()];
+        dealerDraws++;
+        if (evaluateHand(dealerCards).isBust) dealerBusts++;
+      }
+    }
+
+    if (evaluateHand(dealerCards).isBlackjack) dealerBlackjacks++;
+
+    for (const hand of hands) {
+      totalWagered += getFundedBet(hand);
+      net += calculatePayout(hand, compareHands(hand, dealerCards, rules), rules) - getFundedBet(hand);
+    }
+    net += calculateNoHoleCardRefund(hands, dealerCards, rules);
+
+    netResult += net;
+    sumOfSquares += net * net;
+    if (net > 0) wins++;
+    else if (net === 0) pushes++;
+
+    if (onProgress && round % PROGRESS_INTERVAL === 0) onProgress(round);
+  }
+
+  const mean = netResult / rounds;
+  const variance = sumOfSquares / rounds - mean * mean;
+
+  return {
+    rounds,
+    handsPlayed,
+    totalWagered,
+    netResult,
+    houseEdge: -mean,
+    variance,
+    standardDeviation: Math.sqrt(variance),
+    blackjackFrequency: blackjacks / rounds,
+    dealerBlackjackFrequency: dealerBlackjacks / rounds,
+    playerBustRate: playerBusts / handsPlayed,
+    dealerBustRate: dealerDraws > 0 ? dealerBusts / dealerDraws : 0,
+    winRate: wins / rounds,
+    pushRate: pushes / rounds,
+    lossRate: (rounds - wins - pushes) / rounds,
+    doubleRate: doubles / handsPlayed,
+    splitRate: splitRounds / rounds,
+    surrenderRate: surrenders / rounds,
+    shuffles,
+  };
+}
+
+/**
+ * Format a simulation result as a plain-text report
+ *
+ * @param result - Result of simulateRounds
+ * @returns Aligned "label  value" lines
+ *
+ * @example
+ * ```typescript
+ * console.log(formatSimulationReport(simulateRounds({ rules, rounds: 100000 })));
+ * ```
+ */
+export function formatSimulationReport(result: SimulationResult): string {
+  const percent = (value: number, digits: number = 2) => `${(value * 100).toFixed(digits)}%`;
+  const rows: Array<[string, string]> = [
+    ['Rounds', result.rounds.toLocaleString('en-US')],
+    ['Hands played', result.handsPlayed.toLocaleString('en-US')],
+    ['Units wagered', result.totalWagered.toLocaleString('en-US')],
+    ['Net result (units)', result.netResult.toFixed(1)],
+    ['House edge', percent(result.houseEdge, 3)],
+    ['Variance per round', result.variance.toFixed(4)],
+    ['Standard deviation', result.standardDeviation.toFixed(4)],
+    ['Standard error of edge', percent(result.standardDeviation / Math.sqrt(result.rounds), 3)],
+    ['Player blackjacks', percent(result.blackjackFrequency)],
+    ['Dealer blackjacks', percent(result.dealerBlackjackFrequency)],
+    ['Player bust rate', percent(result.playerBustRate)],
+    ['Dealer bust rate', percent(result.dealerBustRate)],
+    ['Rounds won / pushed / lost', `${percent(result.winRate)} / ${percent(result.pushRate)} / ${percent(result.lossRate)}`],
+    ['Hands doubled', percent(result.doubleRate)],
+    ['Rounds split', percent(result.splitRate)],
+    ['Rounds surrendered', percent(result.surrenderRate)],
+    ['Shuffles', result.shuffles.toLocaleString('en-US')],
+  ];
+
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join('\n');
+}
@@ -0,0 +1,71 @@
+import type { Hand, Suit, TableRules } from '../types';
+import { evaluateHand } from './hand';
+
+/**
+ * A Spanish 21 bonus paid on a winning 21
+ */
+export interface Spanish21Bonus {
+  id: string;
+  label: string;
+  pays: number; // Paid to 1 in place of even money
+}
+
+const SPADES: Suit = '♠';
+
+// Three-card 6-7-8 or 7-7-7 bonus, by how many suits the cards share
+const getThreeCardBonus = (hand: Hand): Spanish21Bonus | null => {
+  const ranks = hand.cards.map(card => card.rank).sort().join('');
+  const name = ranks === '678' ? '6-7-8' : ranks === '777' ? '7-7-7' : null;
+  if (!name) return null;
+
+  const suited = hand.cards.every(card => card.suit === hand.cards[0].suit);
+  if (suited && hand.cards[0].suit === SPADES) return { id: 'spades', label: `${name} in spades`, pays: 3 };
+  if (suited) return { id: 'suited', label: `Suited ${name}`, pays: 2 };
+  return { id: 'mixed', label: `Mixed ${name}`, pays: 1.5 };
+};
+
+/**
+ * Bonus a Spanish 21 hand earns for its 21
+ *
+ * Five-card 21 pays 3:2, six cards 2:1 and seven or more 3:1; a three-card
+ * 6-7-8 or 7-7-7 pays 3:2 mixed, 2:1 suited and 3:1 in spades. Doubled hands
+ * are paid even money.
+ *
+ * @param hand - The player's hand
+ * @returns The bonus, or null if the hand earns none
+ *
+ * @example
+ * ```typescript
+ * getSpanish21Bonus(fiveCardTwentyOne); // { id: 'fiveCard', label: '5-card 21', pays: 1.5 }
+ * ```
+ */
+export function getSpanish21Bonus(hand: Hand): Spanish21Bonus | null {
+  if (hand.isDouble || evaluateHand(hand.cards, hand.isSplit).value !== 21) return null;
+
+  const count = hand.cards.length;
+  if (count === 3) return getThreeCardBonus(hand);
+  if (count >= 7) return { id: 'sevenCard', label: '7+ card 21', pays: 3 };
+  if (count === 6) return { id: 'sixCard', label: '6-card 21', pays: 2 };
+  if (count === 5) return { id: 'fiveCard', label: '5-card 21', pays: 1.5 };
+  return null;
+}
+
+/**
+ * Close a doubled hand once its card is dealt
+ *
+ * A Spanish 21 double below 21 stays open for a re-double or rescue, but
+ * takes no more hits; every other double stands.
+ *
+ * @param hand - The doubled hand with its new card
+ * @param rules - The table rules
+ * @returns The hand, standing or waiting on the next Spanish 21 decision
+ *
+ * @example
+ * ```typescript
+ * finishDouble(addCardToHand(doubled, card), state.rules).status; // 'stand' at a classic table
+ * ```
+ */
+export function finishDouble(hand: Hand, rules: TableRules): Hand {
+  const staysOpen = rules.variant === 'spanish21' && evaluateHand(hand.cards, hand.isSplit).value < 21;
+  return staysOpen ? { ...hand, canHit: false } : { ...hand, status: 'stand' };
+}
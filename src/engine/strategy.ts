@@ -0,0 +1,464 @@
+import type { Card, Hand, Rank, TableRules } from '../types';
+import { evaluateHand, getCardValue, canDouble, canSplit, canSurrender } from './hand';
+import { isDoubleTotalAllowed } from './rules';
+
+/**
+ * A playing decision for a hand
+ */
+export type StrategyAction = 'hit' | 'stand' | 'double' | 'split' | 'surrender';
+
+/**
+ * One cell of a strategy chart
+ * - H: hit, S: stand, P: split
+ * - D: double if allowed, otherwise hit; Ds: double if allowed, otherwise stand
+ * - R: surrender if allowed, otherwise hit; Rs: surrender if allowed, otherwise stand
+ */
+export type ChartCode = 'H' | 'S' | 'D' | 'Ds' | 'P' | 'R' | 'Rs';
+
+/**
+ * Decisions open to the hand in front of the player
+ */
+export interface AvailableActions {
+  canDouble: boolean;
+  canSplit: boolean;
+  canSurrender: boolean;
+}
+
+/**
+ * A chart row: the play for one player total (or pair) against each dealer upcard
+ */
+export interface StrategyChartRow {
+  label: string; // e.g. "16", "A,7" or "8,8"
+  total: number; // Hard or soft total, or the pair card's value (Ace = 11)
+  codes: ChartCode[]; // One per DEALER_UPCARDS column
+}
+
+/**
+ * Full basic strategy for a rule set
+ */
+export interface StrategyChart {
+  hard: StrategyChartRow[]; // Hard 5-20
+  soft: StrategyChartRow[]; // A,2 to A,9
+  pairs: StrategyChartRow[]; // 2,2 to A,A
+}
+
+// Variants the evaluators cannot play: they assume 52-card decks with 16 tens and classic
+// payouts, so Spanish 21's 48-card decks, 21-always-wins and bonus 21s are out of reach,
+// as are Blackjack Switch's two-hand swap, dealer 22 push and even-money blackjacks, Free
+// Bet Blackjack's free doubles, free splits and dealer 22 push, and Double Exposure's
+// known hole card, lost ties and even-money blackjacks
+const UNMODELED_VARIANTS: TableRules['variant'][] = ['spanish21', 'switch', 'freeBet', 'doubleExposure'];
+
+/**
+ * Whether basic strategy, the coach and the EV panel model the table's game
+ *
+ * @param rules - The table rules
+ * @returns False for variants whose rules the strategy evaluators do not cover
+ *
+ * @example
+ * ```typescript
+ * hasStrategyModel(createTableRules({ variant: 'spanish21' })); // false
+ * ```
+ */
+export function hasStrategyModel(rules: TableRules): boolean {
+  return !UNMODELED_VARIANTS.includes(rules.variant);
+}
+
+/**
+ * Chart columns, dealer upcard 2 through Ace
+ */
+export const DEALER_UPCARDS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'A'];
+
+// Card values in draw order; the Ace counts as 11 until it would bust the hand
+const CARD_VALUES = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Dealer final totals 17-21, then bust
+const DEALER_BUST = 5;
+
+interface Total {
+  total: number;
+  soft: boolean;
+}
+
+const addCardValue = ({ total, soft }: Total, value: number): Total => {
+  let next = total + value;
+  let aces = (soft ? 1 : 0) + (value === 11 ? 1 : 0);
+  while (next > 21 && aces > 0) {
+    next -= 10;
+    aces--;
+  }
+  return { total: next, soft: aces > 0 };
+};
+
+// Draw probabilities for a fresh shoe with the dealer's upcard removed
+const shoeProbabilities = (deckCount: number, upCard: number): number[] => {
+  const counts = Array(12).fill(0);
+  for (const value of CARD_VALUES) {
+    counts[value] = (value === 10 ? 16 : 4) * deckCount;
+  }
+  counts[upCard]--;
+
+  const remaining = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map(count => count / remaining);
+};
+
+const dealerStands = ({ total, soft }: Total, rules: TableRules) =>
+  total > 17 || (total === 17 && !(soft && rules.hitOnSoft17));
+
+// Distribution of the dealer's final total from a partial hand
+const drawDealer = (hand: Total, p: number[], rules: TableRules, memo: Map<string, number[]>): number[] => {
+  const outcomes = Array(6).fill(0);
+  if (hand.total > 21) {
+    outcomes[DEALER_BUST] = 1;
+    return outcomes;
+  }
+  if (dealerStands(hand, rules)) {
+    outcomes[hand.total - 17] = 1;
+    return outcomes;
+  }
+
+  const key = `${hand.total}${hand.soft ? 's' : 'h'}`;
+  const cached = memo.get(key);
+  if (cached) return cached;
+
+  for (const value of CARD_VALUES) {
+    const next = drawDealer(addCardValue(hand, value), p, rules, memo);
+    next.forEach((chance, i) => {
+      outcomes[i] += p[value] * chance;
+    });
+  }
+
+  memo.set(key, outcomes);
+  return outcomes;
+};
+
+/**
+ * Expected values of every decision for one dealer upcard
+ *
+ * Cards are drawn with fixed probabilities from a full shoe minus the upcard,
+ * which is what makes the result a total-dependent basic strategy. Split hands
+ * are played once (no re-splits) and split Aces take one card each.
+ */
+const createEvaluator = (upCard: number, rules: TableRules) => {
+  const p = shoeProbabilities(rules.deckCount, upCard);
+
+  // The dealer's hole card cannot complete a blackjack once the dealer has checked for it
+  const blackjackCard = upCard === 11 ? 10 : upCard === 10 ? 11 : 0;
+  const blackjack = blackjackCard ? p[blackjackCard] : 0;
+  const memo = new Map<string, number[]>();
+  const dealer = Array(6).fill(0);
+  for (const value of CARD_VALUES) {
+    if (value === blackjackCard) continue;
+    const next = drawDealer(addCardValue({ total: upCard, soft: upCard === 11 }, value), p, rules, memo);
+    next.forEach((chance, i) => {
+      dealer[i] += (p[value] / (1 - blackjack)) * chance;
+    });
+  }
+
+  const stand = (total: number) => {
+    if (total > 21) return -1;
+    let value = dealer[DEALER_BUST];
+    for (let final = 17; final <= 21; final++) {
+      value += dealer[final - 17] * Math.sign(total - final);
+    }
+    return value;
+  };
+
+  const hitMemo = new Map<string, number>();
+  const hit = (hand: Total): number => {
+    const key = `${hand.total}${hand.soft ? 's' : 'h'}`;
+    const cached = hitMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    let value = 0;
+    for (const card of CARD_VALUES) {
+      const next = addCardValue(hand, card);
+      const best = next.total >= 21 ? stand(next.total) : Math.max(stand(next.total), hit(next));
+      value += p[card] * best;
+    }
+
+    hitMemo.set(key, value);
+    return value;
+  };
+
+  const double = (hand: Total) =>
+    2 * CARD_VALUES.reduce((sum, card) => sum + p[card] * stand(addCardValue(hand, card).total), 0);
+
+  const split = (pairValue: number) => {
+    let handValue = 0;
+    for (const card of CARD_VALUES) {
+      const hand = addCardValue({ total: pairValue, soft: pairValue === 11 }, card);
+      if (pairValue === 11 || hand.total === 21) {
+        handValue += p[card] * stand(hand.total);
+        continue;
+      }
+
+      const canDoubleSplit = rules.doubleAfterSplit && isDoubleTotalAllowed(hand.total, hand.soft, rules);
+      handValue += p[card] * Math.max(stand(hand.total), hit(hand), canDoubleSplit ? double(hand) : -Infinity);
+    }
+    return 2 * handValue;
+  };
+
+  return { blackjack, stand, hit, double, split };
+};
+
+type Evaluator = ReturnType<typeof createEvaluator>;
+
+const evaluatorCache = new Map<string, Evaluator>();
+
+// Only the rules that change the odds of a decision key the cache
+const getEvaluator = (upCard: number, rules: TableRules) => {
+  const key = [
+    upCard,
+    rules.deckCount,
+    rules.hitOnSoft17,
+    rules.doubleAfterSplit,
+    rules.doubleOn,
+  ].join('|');
+
+  let evaluator = evaluatorCache.get(key);
+  if (!evaluator) {
+    evaluator = createEvaluator(upCard, rules);
+    evaluatorCache.set(key, evaluator);
+  }
+  return evaluator;
+};
+
+/**
+ * Expected value of each decision for a two-card total, in units of the original bet
+ *
+ * With a peeking dealer the values are conditioned on the dealer not having
+ * blackjack, except under early surrender, where the choice is made before the
+ * peek. Without a hole card a dealer blackjack still takes the original bet
+ * (and doubles and splits too unless only original bets are lost).
+ */
+const getDecisionValues = (
+  hand: Total,
+  pairValue: number | null,
+  upCard: number,
+  rules: TableRules,
+  available: AvailableActions
+): Partial<Record<StrategyAction, number>> => {
+  const evaluator = getEvaluator(upCard, rules);
+  const decidedBeforePeek = rules.holeCard === 'enhc' || (rules.surrender === 'early' && upCard >= 10);
+  const blackjack = decidedBeforePeek ? evaluator.blackjack : 0;
+  const doubledLoss = rules.holeCard === 'enhc' && rules.noHoleCardLoss === 'originalBetsOnly' ? -1 : -2;
+  const withBlackjack = (value: number, loss: number) => blackjack * loss + (1 - blackjack) * value;
+
+  const values: Partial<Record<StrategyAction, number>> = {
+    stand: withBlackjack(evaluator.stand(hand.total), -1),
+    hit: withBlackjack(evaluator.hit(hand), -1),
+  };
+  if (available.canDouble) values.double = withBlackjack(evaluator.double(hand), doubledLoss);
+  if (available.canSplit && pairValue !== null) values.split = withBlackjack(evaluator.split(pairValue), doubledLoss);
+  if (available.canSurrender) values.surrender = -0.5;
+  return values;
+};
+
+const bestAction = (values: Partial<Record<StrategyAction, number>>): StrategyAction =>
+  (Object.entries(values) as Array<[StrategyAction, number]>).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+
+const toChartCode = (values: Partial<Record<StrategyAction, number>>): ChartCode => {
+  const fallsBackToHit = (values.hit ?? -Infinity) > (values.stand ?? -Infinity);
+  switch (bestAction(values)) {
+    case 'split':
+      return 'P';
+    case 'double':
+      return fallsBackToHit ? 'D' : 'Ds';
+    case 'surrender':
+      return fallsBackToHit ? 'R' : 'Rs';
+    case 'hit':
+      return 'H';
+    default:
+      return 'S';
+  }
+};
+
+const chartCache = new Map<string, StrategyChart>();
+
+/**
+ * Generate the basic strategy chart for a rule set
+ *
+ * Every cell is the decision with the highest expected value for that total
+ * against that upcard, computed from the deck count, the dealer's soft 17
+ * rule, DAS, double restrictions, surrender and hole card rules. Nothing is
+ * looked up from a fixed table, so the chart follows rule changes.
+ *
+ * @param rules - The table rules
+ * @returns Hard, soft and pair rows with one chart code per dealer upcard
+ *
+ * @example
+ * ```typescript
+ * const chart = getStrategyChart(createTableRules({ hitOnSoft17: true }));
+ * chart.hard.find(row => row.total === 11)?.codes; // ['D', 'D', ..., 'D']
+ * ```
+ */
+export function getStrategyChart(rules: TableRules): StrategyChart {
+  const key = JSON.stringify(rules);
+  const cached = chartCache.get(key);
+  if (cached) return cached;
+
+  const upCards = DEALER_UPCARDS.map(getCardValue);
+  const canSurrenderHand = rules.surrender !== 'none';
+  const row = (label: string, total: number, hand: Total, pairValue: number | null): StrategyChartRow => ({
+    label,
+    total,
+    codes: upCards.map(upCard =>
+      toChartCode(
+        getDecisionValues(hand, pairValue, upCard, rules, {
+          canDouble: isDoubleTotalAllowed(hand.total, hand.soft, rules),
+          canSplit: pairValue !== null,
+          canSurrender: canSurrenderHand,
+        })
+      )
+    ),
+  });
+
+  const chart: StrategyChart = {
+    hard: Array.from({ length: 16 }, (_, i) => row(String(i + 5), i + 5, { total: i + 5, soft: false }, null)),
+    soft: Array.from({ length: 8 }, (_, i) => row(`A,${i + 2}`, i + 13, { total: i + 13, soft: true }, null)),
+    pairs: CARD_VALUES.map(value => {
+      const name = value === 11 ? 'A' : String(value);
+      const hand = value === 11 ? { total: 12, soft: true } : { total: value * 2, soft: false };
+      return row(`${name},${name}`, value, hand, value);
+    }),
+  };
+
+  chartCache.set(key, chart);
+  return chart;
+}
+
+/**
+ * Expected value of each decision open to a two-card hand, in units of its bet
+ *
+ * Uses the same model as the chart, so the highest value is the chart's play.
+ * Hands of three or more cards only get hit and stand values.
+ *
+ * @param hand - The player's hand
+ * @param upCard - The dealer's upcard
+ * @param rules - The table rules
+ * @param available - Decisions open to the hand (default: derived from the hand and rules)
+ * @returns Expected value per available decision
+ *
+ * @example
+ * ```typescript
+ * const values = getActionValues(hand, dealerHand[0], rules);
+ * const cost = Math.max(...Object.values(values)) - (values.hit ?? 0);
+ * ```
+ */
+export function getActionValues(
+  hand: Hand,
+  upCard: Card,
+  rules: TableRules,
+  available: AvailableActions = getAvailableActions(hand, rules)
+): Partial<Record<StrategyAction, number>> {
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+  const isPair = hand.cards.length === 2 && hand.cards[0].rank === hand.cards[1].rank;
+
+  return getDecisionValues(
+    { total: value, soft: isSoft },
+    isPair ? getCardValue(hand.cards[0].rank) : null,
+    getCardValue(upCard.rank),
+    rules,
+    { ...available, canSplit: available.canSplit && isPair }
+  );
+}
+
+/**
+ * Decisions the rules allow for a seat's only hand
+ *
+ * @param hand - The player's hand
+ * @param rules - The table rules
+ * @param handCount - Hands the seat holds (default: 1)
+ * @returns Whether the hand may double, split and surrender
+ */
+export function getAvailableActions(hand: Hand, rules: TableRules, handCount: number = 1): AvailableActions {
+  return {
+    canDouble: canDouble(hand, rules),
+    canSplit: canSplit(hand, handCount, rules),
+    canSurrender: canSurrender(hand, handCount, rules),
+  };
+}
+
+/**
+ * Resolve a chart code against the decisions actually open to the hand
+ *
+ * @param code - Chart cell
+ * @param available - Decisions open to the hand
+ * @returns The action to take
+ *
+ * @example
+ * ```typescript
+ * resolveChartCode('Ds', { canDouble: false, canSplit: false, canSurrender: false }); // 'stand'
+ * ```
+ */
+export function resolveChartCode(code: ChartCode, available: AvailableActions): StrategyAction {
+  switch (code) {
+    case 'P':
+      return available.canSplit ? 'split' : 'hit';
+    case 'D':
+      return available.canDouble ? 'double' : 'hit';
+    case 'Ds':
+      return available.canDouble ? 'double' : 'stand';
+    case 'R':
+      return available.canSurrender ? 'surrender' : 'hit';
+    case 'Rs':
+      return available.canSurrender ? 'surrender' : 'stand';
+    case 'H':
+      return 'hit';
+    default:
+      return 'stand';
+  }
+}
+
+/**
+ * Look up the chart cell that applies to a hand
+ *
+ * Pairs use the pair row only while they may still be split; otherwise the
+ * hand plays as its hard or soft total.
+ *
+ * @param hand - The player's hand
+ * @param upCard - The dealer's upcard
+ * @param rules - The table rules
+ * @param canSplitHand - Whether the pair may be split (default: true)
+ * @returns The chart code for the hand
+ */
+export function getChartCode(hand: Hand, upCard: Card, rules: TableRules, canSplitHand: boolean = true): ChartCode {
+  const chart = getStrategyChart(rules);
+  const column = DEALER_UPCARDS.indexOf(upCard.rank === 'J' || upCard.rank === 'Q' || upCard.rank === 'K' ? '10' : upCard.rank);
+  const { value, isSoft } = evaluateHand(hand.cards, hand.isSplit);
+
+  if (canSplitHand && hand.cards.length === 2 && hand.cards[0].rank === hand.cards[1].rank) {
+    const pairRow = chart.pairs.find(row => row.total === getCardValue(hand.cards[0].rank));
+    if (pairRow && pairRow.codes[column] === 'P') return 'P';
+  }
+
+  if (value >= 21) return 'S';
+  const rows = isSoft ? chart.soft : chart.hard;
+  // Only hard totals below 5 and soft 12 (unsplittable Aces) fall outside the chart; both hit
+  return rows.find(row => row.total === value)?.codes[column] ?? 'H';
+}
+
+/**
+ * The basic strategy play for a hand against the dealer upcard
+ *
+ * @param hand - The player's hand
+ * @param upCard - The dealer's upcard
+ * @param rules - The table rules
+ * @param available - Decisions open to the hand (default: derived from the hand and rules)
+ * @returns The recommended action
+ *
+ * @example
+ * ```typescript
+ * const action = getStrategyAction(seat.hands[seat.currentHandIndex], dealerHand[0], rules);
+ * // 'double'
+ * ```
+ */
+export function getStrategyAction(
+  hand: Hand,
+  upCard: Card,
+  rules: TableRules,
+  available: AvailableActions = getAvailableActions(hand, rules)
+): StrategyAction {
+  return resolveChartCode(getChartCode(hand, upCard, rules, available.canSplit), available);
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Card } from '../components/game/Card';
+import { createShoe, shuffleDeck } from '../engine/deck';
+import {
+  COUNT_SYSTEMS,
+  CARDS_PER_DECK,
+  createCountSession,
+  getRunningCount,
+  getTrueCount,
+  gradeCountAnswer,
+  recordCountCheck,
+  type CountSystemId,
+} from '../engine/counting';
+import type { Card as CardType } from '../types';
+
+/**
+ * Counting Drill
+ * Flashes cards from a shuffled shoe, then asks for the running and true count
+ */
+
+type DrillStage = 'setup' | 'flashing' | 'answer';
+
+const inputClass =
+  'w-full px-3 py-2 rounded-[var(--r-lg)] bg-[var(--bg-elevated)] border border-[var(--border)] text-[var(--text)] font-mono text-xs focus:outline-none focus:border-[var(--border-bright)]';
+
+const labelClass = 'text-2xs font-mono text-[var(--text-muted)] uppercase tracking-widest';
+
+const buttonClass =
+  'px-5 py-2.5 rounded-[var(--r-lg)] text-sm font-bold bg-[var(--bg-elevated)] hover:bg-[var(--bg-panel)] border border-[var(--border)] hover:border-[var(--border-bright)] transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed';
+
+const formatCount = (count: number) => (Number.isInteger(count) ? String(count) : count.toFixed(1));
+
+export default function DrillPage() {
+  const [systemId, setSystemId] = useState<CountSystemId>('hiLo');
+  const [deckCount, setDeckCount] = useState(6);
+  const [speed, setSpeed] = useState(800); // Milliseconds per flash
+  const [cardsPerFlash, setCardsPerFlash] = useState(1);
+  const [cardCount, setCardCount] = useState(52);
+  const [stage, setStage] = useState<DrillStage>('setup');
+  const [cards, setCards] = useState<CardType[]>([]);
+  const [shown, setShown] = useState(0);
+  const [runningAnswer, setRunningAnswer] = useState('');
+  const [trueAnswer, setTrueAnswer] = useState('');
+  const [session, setSession] = useState(createCountSession);
+
+  // Flash the next group of cards, then ask for the count once they have all been shown
+  useEffect(() => {
+    if (stage !== 'flashing') return;
+
+    const timer = setTimeout(() => {
+      if (shown >= cards.length) {
+        setStage('answer');
+      } else {
+        setShown(Math.min(shown + cardsPerFlash, cards.length));
+      }
+    }, speed);
+    return () => clearTimeout(timer);
+  }, [stage, shown, cards.length, cardsPerFlash, speed]);
+
+  const start = () => {
+    const shoe = shuffleDeck(createShoe(deckCount));
+    setCards(shoe.slice(0, Math.min(cardCount, shoe.length)));
+    setShown(0);
+    setRunningAnswer('');
+    setTrueAnswer('');
+    setStage('flashing');
+  };
+
+  const seen = cards.slice(0, shown);
+  const flash = seen.slice(Math.max(0, shown - cardsPerFlash));
+  const runningCount = getRunningCount(seen, systemId, deckCount);
+  const cardsRemaining = deckCount * CARDS_PER_DECK - shown;
+  const actual = {
+    runningCount,
+    trueCount: getTrueCount(runningCount, cardsRemaining),
+    decksRemaining: cardsRemaining / CARDS_PER_DECK,
+    cardsSeen: shown,
+  };
+  const lastCheck = session.lastCheck;
+
+  const handleAnswer = (e: FormEvent) => {
+    e.preventDefault();
+    if (runningAnswer === '' || trueAnswer === '') return;
+
+    setSession(recordCountCheck(session, gradeCountAnswer(
+      { runningCount: Number(runningAnswer), trueCount: Number(trueAnswer) },
+      actual
+    )));
+    setStage('setup');
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-[var(--text)] px-4 py-10">
+      <div className="max-w-3xl mx-auto flex flex-col gap-8">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-3xl font-display font-bold text-brand mb-2">Counting Drill</h1>
+          <p className="text-sm text-text-muted">
+            Keep the count as the cards flash by, then enter the running and true count.
+          </p>
+        </div>
+
+        {/* Settings */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-6 rounded-[var(--r-lg)] border border-[var(--border)] bg-[var(--bg-panel)]">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>System</span>
+            <select value={systemId} onChange={e => setSystemId(e.target.value as CountSystemId)} disabled={stage !== 'setup'} className={inputClass}>
+              {Object.values(COUNT_SYSTEMS).map(system => (
+                <option key={system.id} value={system.id}>{system.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Decks</span>
+            <input type="number" min={1} max={8} value={deckCount} onChange={e => setDeckCount(Math.max(1, Math.min(8, Number(e.target.value))))} disabled={stage !== 'setup'} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Cards</span>
+            <input type="number" min={1} max={deckCount * CARDS_PER_DECK} value={cardCount} onChange={e => setCardCount(Math.max(1, Number(e.target.value)))} disabled={stage !== 'setup'} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Per flash</span>
+            <select value={cardsPerFlash} onChange={e => setCardsPerFlash(Number(e.target.value))} disabled={stage !== 'setup'} className={inputClass}>
+              {[1, 2, 3].map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Speed {(speed / 1000).toFixed(1)}s</span>
+            <input type="range" min={200} max={2000} step={100} value={speed} onChange={e => setSpeed(Number(e.target.value))} className="accent-[var(--brand)]" />
+          </label>
+        </div>
+
+        {/* Cards */}
+        <div className="flex flex-col items-center gap-4 p-6 min-h-[220px] rounded-[var(--r-lg)] border border-[var(--border)] bg-[var(--bg-panel)]">
+          {stage === 'flashing' && (
+            <>
+              <div key={shown} className="flex justify-center">
+                {flash.map((card, index) => (
+                  <Card key={index} card={card} index={index} delay={0} />
+                ))}
+              </div>
+              <p className="text-2xs font-mono text-text-muted">{shown} / {cards.length}</p>
+            </>
+          )}
+
+          {stage === 'answer' && (
+            <form onSubmit={handleAnswer} className="flex flex-col items-center gap-4">
+              <p className="text-sm text-text-muted">{cards.length} cards dealt · {actual.decksRemaining.toFixed(1)} decks left</p>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>Running count</span>
+                  <input type="number" value={runningAnswer} onChange={e => setRunningAnswer(e.target.value)} className={inputClass} autoFocus />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>True count</span>
+                  <input type="number" step={0.5} value={trueAnswer} onChange={e => setTrueAnswer(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <button type="submit" className={buttonClass}>Check</button>
+            </form>
+          )}
+
+          {stage === 'setup' && (
+            <div className="flex flex-col items-center gap-4">
+              {lastCheck && (
+                <p className="text-sm font-mono text-text-muted text-center">
+                  Running count was{' '}
+                  <span className={lastCheck.runningCorrect ? 'text-win' : 'text-loss'}>{formatCount(lastCheck.actual.runningCount)}</span>
+                  {' '}(you said {formatCount(lastCheck.answer.runningCount)}) · true count{' '}
+                  <span className={lastCheck.trueCorrect ? 'text-win' : 'text-loss'}>{formatCount(lastCheck.actual.trueCount)}</span>
+                  {' '}(you said {formatCount(lastCheck.answer.trueCount)})
+                </p>
+              )}
+              <button onClick={start} className={buttonClass}>
+                {lastCheck ? 'Next drill' : 'Start drill'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Score */}
+        {session.checks > 0 && (
+          <div className="flex justify-center gap-6 text-sm font-mono text-text-muted">
+            <span>Drills <span className="text-text-bright">{session.checks}</span></span>
+            <span>Running count <span className="text-text-bright">{session.runningCorrect}/{session.checks}</span></span>
+            <span>True count <span className="text-text-bright">{session.trueCorrect}/{session.checks}</span></span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
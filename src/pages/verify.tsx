@@ -0,0 +1,264 @@
+import { useState, type FormEvent } from 'react';
+import { Card } from '../components/game/Card';
+import { createShoe } from '../engine/deck';
+import { ALGORITHM_VERSION, SUPPORTED_VERSIONS, shuffleCardsWithSeed, verifyShuffleProof } from '../engine/probablyFair';
+import type { VerificationResult } from '../engine/probablyFair';
+import { parseRoundProof, reconstructDeal, DEALER_ID } from '../engine/roundProof';
+import type { Card as CardType, GameVariant, RoundProof } from '../types';
+
+/**
+ * Shuffle Verification
+ * Recomputes a shoe from its revealed seeds entirely in the browser
+ */
+
+type InputMode = 'seeds' | 'round';
+
+interface VerifyOutcome {
+  check: VerificationResult;
+  shoe: CardType[];
+  round: RoundProof | null;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-[var(--r-lg)] bg-[var(--bg-elevated)] border border-[var(--border)] text-[var(--text)] font-mono text-xs focus:outline-none focus:border-[var(--border-bright)]';
+
+const labelClass = 'text-2xs font-mono text-[var(--text-muted)] uppercase tracking-widest';
+
+export default function VerifyPage() {
+  const [mode, setMode] = useState<InputMode>('seeds');
+  const [serverSeed, setServerSeed] = useState('');
+  const [seedHash, setSeedHash] = useState('');
+  const [clientSeed, setClientSeed] = useState('');
+  const [nonce, setNonce] = useState('0');
+  const [deckCount, setDeckCount] = useState('6');
+  const [variant, setVariant] = useState<GameVariant>('classic');
+  const [version, setVersion] = useState(ALGORITHM_VERSION);
+  const [roundJson, setRoundJson] = useState('');
+  const [outcome, setOutcome] = useState<VerifyOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  // Normalize either input mode into a round proof covering what was pasted
+  const readInput = (): RoundProof => {
+    if (mode === 'round') {
+      return parseRoundProof(roundJson);
+    }
+
+    const decks = Number(deckCount);
+    return {
+      round: 0,
+      shoeNumber: 0,
+      seedHash: seedHash.trim().toLowerCase(),
+      seed: serverSeed.trim().toLowerCase(),
+      ...(clientSeed.length > 0 && { clientSeed, nonce: Number(nonce) }),
+      version,
+      deckCount: decks,
+      ...(variant !== 'classic' && { variant }),
+      firstCard: 0,
+      lastCard: 0,
+      timestamp: new Date().toISOString(),
+    };
+  };
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setOutcome(null);
+
+    let proof: RoundProof;
+    try {
+      proof = readInput();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid input');
+      return;
+    }
+
+    if (proof.seed === null) {
+      setError('This round\'s seed has not been revealed yet. Verify it after the shoe is finished.');
+      return;
+    }
+    if (!Number.isInteger(proof.deckCount) || proof.deckCount < 1 || proof.deckCount > 8) {
+      setError('Deck count must be a whole number from 1 to 8');
+      return;
+    }
+
+    setVerifying(true);
+    try {
+      const check = await verifyShuffleProof({
+        seed: proof.seed,
+        seedHash: proof.seedHash,
+        timestamp: proof.timestamp,
+        version: proof.version,
+        clientSeed: proof.clientSeed,
+        nonce: proof.nonce,
+      });
+      const shoe = check.valid
+        ? await shuffleCardsWithSeed(createShoe(proof.deckCount, proof.variant), proof.seed, proof.clientSeed, proof.nonce, proof.version)
+        : [];
+      setOutcome({ check, shoe, round: mode === 'round' ? proof : null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const round = outcome?.round ?? null;
+  const roundCards = round && outcome ? outcome.shoe.slice(round.firstCard, round.lastCard) : [];
+  const dealtBySeat = round?.dealOrder ? reconstructDeal(roundCards, round.dealOrder) : null;
+
+  return (
+    <div className="min-h-screen bg-background text-[var(--text)] px-4 py-10">
+      <div className="max-w-5xl mx-auto flex flex-col gap-8">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-3xl font-display font-bold text-brand mb-2">Verify a Shuffle</h1>
+          <p className="text-sm text-text-muted">
+            Paste revealed seeds or an exported round. Everything is recomputed in your browser.
+          </p>
+        </div>
+
+        {/* Input */}
+        <form onSubmit={handleVerify} className="flex flex-col gap-4 p-6 rounded-[var(--r-lg)] border border-[var(--border)] bg-[var(--bg-panel)]">
+          <div className="flex gap-2">
+            {(['seeds', 'round'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-4 py-2 rounded-[var(--r-lg)] text-sm font-semibold border transition-all duration-[var(--d-base)] ${
+                  mode === option
+                    ? 'text-[var(--brand)] border-[color:var(--brand)]'
+                    : 'text-[var(--text-muted)] border-[var(--border)] hover:text-[var(--text)]'
+                }`}
+              >
+                {option === 'seeds' ? 'Seeds' : 'Round JSON'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'seeds' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="flex flex-col gap-1 md:col-span-2">
+                <span className={labelClass}>Server seed</span>
+                <input value={serverSeed} onChange={e => setServerSeed(e.target.value)} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1 md:col-span-2">
+                <span className={labelClass}>Seed hash (published before the shoe)</span>
+                <input value={seedHash} onChange={e => setSeedHash(e.target.value)} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>Client seed (optional)</span>
+                <input value={clientSeed} onChange={e => setClientSeed(e.target.value)} maxLength={64} className={inputClass} />
+              </label>
+              <div className="grid grid-cols-4 gap-4">
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>Nonce</span>
+                  <input type="number" min={0} value={nonce} onChange={e => setNonce(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>Decks</span>
+                  <input type="number" min={1} max={8} value={deckCount} onChange={e => setDeckCount(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>Deck type</span>
+                  <select value={variant} onChange={e => setVariant(e.target.value as GameVariant)} className={inputClass}>
+                    <option value="classic">Classic (52)</option>
+                    <option value="spanish21">Spanish 21 (48)</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className={labelClass}>Algorithm</span>
+                  <select value={version} onChange={e => setVersion(e.target.value)} className={inputClass}>
+                    {SUPPORTED_VERSIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          ) : (
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Exported round</span>
+              <textarea
+                value={roundJson}
+                onChange={e => setRoundJson(e.target.value)}
+                rows={8}
+                placeholder='{ "round": 1, "seedHash": "...", "seed": "...", ... }'
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          <button
+            type="submit"
+            disabled={verifying}
+            className="self-start px-5 py-2.5 rounded-[var(--r-lg)] text-sm font-bold bg-[var(--bg-elevated)] hover:bg-[var(--bg-panel)] border border-[var(--border)] hover:border-[var(--border-bright)] transition-all duration-[var(--d-base)] disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {verifying ? 'Verifying...' : 'Verify'}
+          </button>
+
+          {error && <p className="text-sm text-loss">{error}</p>}
+        </form>
+
+        {/* Hash check */}
+        {outcome && (
+          <div
+            className={`p-4 rounded-[var(--r-lg)] border text-sm font-mono ${
+              outcome.check.valid ? 'border-win/50 bg-win/10 text-win' : 'border-loss/50 bg-loss/10 text-loss'
+            }`}
+          >
+            {outcome.check.valid
+              ? '✓ SHA-256(server seed) matches the published seed hash'
+              : `✗ ${outcome.check.error ?? 'Verification failed'}`}
+          </div>
+        )}
+
+        {/* Dealt cards per seat */}
+        {dealtBySeat && (
+          <section className="flex flex-col gap-3">
+            <h2 className="text-lg font-display font-bold text-brand">Round {round?.round} Deal</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {Object.entries(dealtBySeat).map(([recipient, cards]) => (
+                <div key={recipient} className="flex flex-col gap-2 p-3 rounded-[var(--r-lg)] border border-[var(--border)]">
+                  <span className={labelClass}>{recipient === DEALER_ID ? 'Dealer' : recipient}</span>
+                  <div className="flex flex-wrap gap-1">
+                    {cards.map((card, i) => (
+                      <Card key={i} card={card} delay={0} compact />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Reconstructed shoe */}
+        {outcome && outcome.shoe.length > 0 && (
+          <section className="flex flex-col gap-3">
+            <h2 className="text-lg font-display font-bold text-brand">Shoe Order</h2>
+            {round && (
+              <p className="text-xs font-mono text-text-muted">
+                Highlighted: cards {round.firstCard + 1}–{round.lastCard} dealt in round {round.round}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {outcome.shoe.map((card, i) => {
+                const inRound = round !== null && i >= round.firstCard && i < round.lastCard;
+                return (
+                  <div
+                    key={i}
+                    className={`flex flex-col items-center gap-0.5 rounded ${inRound ? 'ring-2 ring-gold' : 'opacity-80'}`}
+                  >
+                    <Card card={{ ...card, faceUp: true }} delay={0} compact />
+                    <span className="text-[10px] font-mono text-text-muted">{i + 1}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
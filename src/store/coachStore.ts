@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { createCoachSession, recordDecision, type CoachDecision, type CoachSession } from '../engine/coach';
+
+interface CoachStore {
+  enabled: boolean;
+  session: CoachSession;
+  setEnabled: (enabled: boolean) => void;
+  record: (decision: CoachDecision) => void;
+  resetSession: () => void;
+}
+
+export const useCoachStore = create<CoachStore>((set) => ({
+  enabled: false,
+  session: createCoachSession(),
+
+  setEnabled: (enabled: boolean) => set({ enabled }),
+
+  record: (decision: CoachDecision) => set(state => ({ session: recordDecision(state.session, decision) })),
+
+  resetSession: () => set({ session: createCoachSession() }),
+}));
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import {
+  createCountSession,
+  recordCountCheck,
+  type CountCheck,
+  type CountSession,
+  type CountSystemId,
+} from '../engine/counting';
+
+interface CountingStore {
+  enabled: boolean;
+  systemId: CountSystemId;
+  checkEvery: number; // Rounds between count checks
+  lastCheckedRound: number;
+  session: CountSession;
+  setEnabled: (enabled: boolean) => void;
+  setSystem: (systemId: CountSystemId) => void;
+  setCheckEvery: (rounds: number) => void;
+  record: (round: number, check: CountCheck | null) => void;
+  resetSession: () => void;
+}
+
+export const useCountingStore = create<CountingStore>((set) => ({
+  enabled: false,
+  systemId: 'hiLo',
+  checkEvery: 3,
+  lastCheckedRound: 0,
+  session: createCountSession(),
+
+  setEnabled: (enabled: boolean) => set({ enabled }),
+
+  // Counts from different systems are not comparable, so switching starts a new session
+  setSystem: (systemId: CountSystemId) => set({ systemId, session: createCountSession() }),
+
+  setCheckEvery: (rounds: number) => set({ checkEvery: Math.max(1, Math.min(20, Math.round(rounds))) }),
+
+  // A skipped check (null) still counts as asked for that round
+  record: (round: number, check: CountCheck | null) =>
+    set(state => ({
+      lastCheckedRound: round,
+      session: check ? recordCountCheck(state.session, check) : state.session,
+    })),
+
+  resetSession: () => set({ session: createCountSession() }),
+}));
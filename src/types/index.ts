@@ -1,5 +1,8 @@
 // Core game types
 
+import type { DealerDecision } from '../engine/dealer';
+import type { ShuffleProof } from '../engine/probablyFair';
+
 export type Suit = '♠' | '♥' | '♦' | '♣';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
 
@@ -10,20 +13,24 @@ export interface Card {
 }
 
 export interface SideBet {
-  type: 'twentyOneThree'; // 21+3
+  type: string; // Registered side bet type, e.g. 'twentyOneThree' (see engine/sideBets.ts)
   amount: number;
   result?: 'win' | 'loss' | 'push';
+  outcome?: string; // Paytable line that won
   payout?: number;
 }
 
 export interface Hand {
   cards: Card[];
   bet: number;
-  status: 'playing' | 'stand' | 'bust' | 'blackjack' | 'complete';
+  status: 'playing' | 'stand' | 'bust' | 'blackjack' | 'complete' | 'surrendered';
   isDouble: boolean;
+  doubleCount?: number; // Times the stake was doubled; Spanish 21 allows re-doubling
   isSplit: boolean;
   splitFromAces?: boolean; // True if this hand was created from splitting Aces
   canHit?: boolean; // False for split Aces (can only receive one card)
+  switched?: boolean; // Second card swapped in by a Blackjack Switch; a 21 made this way is not a blackjack
+  freeBet?: number; // Part of bet staked by the house (Free Bet Blackjack free doubles and splits)
   sideBets?: SideBet[];
 }
 
@@ -39,8 +46,68 @@ export interface PlayerSeat {
 export type TurnQueueEntry = {
   seatId: string;
   handIndex: number;
+  decision?: 'switch'; // Blackjack Switch decision the seat makes before playing its hands
 };
 
+export type BlackjackPayout = '3:2' | '6:5' | '1:1';
+
+export type DoubleRestriction = 'any' | '9-11' | '10-11';
+
+/**
+ * Surrender availability
+ * - late: after the dealer checks for blackjack
+ * - early: before the dealer checks, so half the bet is saved even against a dealer blackjack
+ */
+export type SurrenderRule = 'none' | 'late' | 'early';
+
+/**
+ * Dealer hole card handling
+ * - peek: American style, dealer checks for blackjack when showing an Ace or ten-value
+ * - enhc: European no-hole-card, dealer draws the second card after the players act
+ */
+export type HoleCardRule = 'peek' | 'enhc';
+
+/**
+ * What a player loses to an ENHC dealer blackjack
+ * - originalBetsOnly: double and split stakes are returned
+ * - all: every stake on the table is lost
+ */
+export type NoHoleCardLoss = 'originalBetsOnly' | 'all';
+
+/**
+ * Game played at the table
+ * - classic: standard blackjack
+ * - spanish21: 48-card decks without tens, player 21 always wins, bonus 21s,
+ *   re-doubling and double-down rescue
+ * - switch: Blackjack Switch, two hands per seat whose second cards may be
+ *   swapped; a dealer 22 pushes everything but a blackjack
+ * - freeBet: Free Bet Blackjack, free doubles on hard 9-11 and free splits of
+ *   non-ten pairs; a dealer 22 pushes everything but a blackjack
+ * - doubleExposure: Double Exposure, both dealer cards dealt face up; ties
+ *   lose except a player blackjack, which pays even money
+ */
+export type GameVariant = 'classic' | 'spanish21' | 'switch' | 'freeBet' | 'doubleExposure';
+
+/**
+ * Table configuration consumed by the engine and the game store.
+ * Defaults live in `engine/rules.ts` (DEFAULT_TABLE_RULES).
+ */
+export interface TableRules {
+  deckCount: number; // Decks in the shoe
+  hitOnSoft17: boolean; // H17 when true, S17 when false
+  doubleAfterSplit: boolean; // DAS
+  doubleOn: DoubleRestriction; // Which two-card totals may be doubled
+  maxSplitHands: number; // Maximum hands a seat may hold after re-splits
+  resplitAces: boolean; // RSA
+  blackjackPayout: BlackjackPayout;
+  surrender: SurrenderRule;
+  holeCard: HoleCardRule;
+  noHoleCardLoss: NoHoleCardLoss; // Only used when holeCard is 'enhc'
+  penetration: number; // Fraction of the shoe dealt before the cut card (0-1)
+  sideBetPaytables: Record<string, string>; // Paytable id per side bet type; unlisted bets use their first paytable
+  variant: GameVariant;
+}
+
 export type GamePhase =
   | 'idle'
   | 'bettingOpen' // All players can place bets in parallel
@@ -48,21 +115,66 @@ export type GamePhase =
   | 'dealing'
   | 'sideBetEvaluation' // Evaluating side bets (non-blocking)
   | 'insurance'
+  | 'earlySurrender' // Seats may surrender before the dealer checks for blackjack
   | 'playerTurns' // Sequential turn phase for players
   | 'dealerTurn'
   | 'settlement'
   | 'complete';
 
+/**
+ * Persistent shoe bookkeeping; the undealt cards themselves live in GameState.deck
+ */
+export interface ShoeState {
+  size: number; // Cards in a full shoe
+  cutCardPosition: number; // Cards left in the shoe when the cut card comes out
+  cutCardReached: boolean; // Shoe is shuffled before the next round
+  discardTray: Card[]; // Cards played since the last shuffle
+  shuffleCount: number; // Shuffles since the session started
+  proof: ShuffleProof | null; // Commitment for this shoe; the seed stays private until the shoe ends
+  roundStart: number; // Shoe position of the current round's first card
+  variant: GameVariant; // Deck composition the shoe was built from
+}
+
+/**
+ * Provably fair record of a single round.
+ * The cards dealt in the round are shoe positions [firstCard, lastCard) of the
+ * shoe produced by shuffling createShoe(deckCount) with the committed seed
+ * (mixed with clientSeed and nonce when present).
+ */
+export interface RoundProof {
+  round: number; // 1-based round number for the session
+  shoeNumber: number; // ShoeState.shuffleCount of the shoe the round was dealt from
+  seedHash: string; // Published before bets locked
+  seed: string | null; // Revealed once the shoe is retired
+  clientSeed?: string; // Player seed mixed into the shuffle
+  nonce?: number; // Shuffle counter for the client seed
+  version: string; // Shuffle algorithm version
+  deckCount: number;
+  variant?: GameVariant; // Omitted for classic 52-card decks
+  firstCard: number;
+  lastCard: number;
+  dealOrder?: string[]; // Recipient of each dealt card ('dealer' or a seat id)
+  timestamp: string; // ISO 8601 settlement time
+}
+
 export interface GameState {
   phase: GamePhase;
   deck: Card[];
+  shoe: ShoeState;
+  roundProofs: RoundProof[]; // One entry per settled round, oldest first
+  clientSeed: string; // Player seed mixed into each new shoe
+  nonce: number; // Nonce for the next shoe shuffled with clientSeed
   dealerHand: Card[];
+  dealerDecisions: DealerDecision[]; // Dealer AI decision log for the current round
+  roundEvents: RoundEvent[]; // Cards, actions and dealer decisions of the round in play
+  history: RoundRecord[]; // Settled rounds, oldest first
   playerSeats: Record<string, PlayerSeat>;
   activeSeatId: string | null;
   insuranceBets: Record<string, number>;
   balance: number;
   message: string;
   numPlayers: number; // 1-5 players
+  rules: TableRules; // Active table configuration
   turnQueue: TurnQueueEntry[]; // Sequential order for player turns
   currentTurnIndex: number; // Index into turnQueue
   bettingTimer?: number; // Countdown for betting phase (in ms)
@@ -75,13 +187,16 @@ export interface HandValue {
   isBust: boolean;
 }
 
+export type HandOutcome = 'win' | 'loss' | 'push' | 'blackjack' | 'surrender';
+
 export interface GameResult {
   seatId: string;
   handIndex: number;
   bet: number;
   payout: number;
-  outcome: 'win' | 'loss' | 'push' | 'blackjack';
+  outcome: HandOutcome;
   timestamp: number;
+  sideBets?: SideBet[]; // Settled side bets on the hand
 }
 
 export interface BetAmount {
@@ -90,11 +205,38 @@ export interface BetAmount {
 }
 
 export interface GameAction {
-  type: 'hit' | 'stand' | 'double' | 'split' | 'insurance';
+  type: 'hit' | 'stand' | 'double' | 'split' | 'insurance' | 'surrender' | 'switch';
   seatId: string;
   handIndex?: number;
 }
 
+/**
+ * One step of a round, in the order it happened
+ */
+export type RoundEvent =
+  | { type: 'deal'; recipient: string; handIndex: number; card: Card } // recipient is 'dealer' or a seat id
+  | { type: 'action'; action: GameAction }
+  | { type: 'reveal' } // Dealer turns the hole card
+  | { type: 'dealer'; decision: DealerDecision };
+
+/**
+ * Structured record of a settled round, enough to replay it hand by hand
+ */
+export interface RoundRecord {
+  round: number; // 1-based round number for the session
+  timestamp: number;
+  rules: TableRules;
+  bets: BetAmount[]; // Opening bet per seat (per hand in Blackjack Switch)
+  events: RoundEvent[];
+  dealerCards: Card[]; // Dealer's final hand
+  results: GameResult[]; // One entry per player hand
+  insuranceBets: Record<string, number>;
+  insurancePayout: number;
+  totalPayout: number; // Hand payouts plus refunds, excluding insurance and side bets
+  sideBetPayout: number; // Side bet winnings plus the stakes of winning side bets
+  proof: RoundProof | null;
+}
+
 export interface Settings {
   soundEnabled: boolean;
   musicEnabled: boolean;